@@ -0,0 +1,26 @@
+"use server";
+
+import { getBitcoinPay } from "@/lib/bitcoin-pay";
+
+// Merchant routes under /api/pay require an API key, so the demo creates
+// intents server-side with the programmatic API instead of fetching them
+// from the browser.
+export async function createPaymentLink(data: {
+  email?: string;
+  amountSats: number;
+  memo?: string;
+}) {
+  const pay = getBitcoinPay();
+
+  const intent = await pay.createPaymentIntent({
+    email: data.email || undefined,
+    amountSats: data.amountSats,
+    memo: data.memo || undefined,
+  });
+  const { token } = await pay.createMagicLink({
+    intentId: intent.id,
+    ttlHours: 24,
+  });
+
+  return { intentId: intent.id, token };
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { createPaymentLink } from "./actions";
 
 export default function HomePage() {
   const [email, setEmail] = useState("");
@@ -16,35 +17,12 @@ export default function HomePage() {
       setError("");
       setPaymentUrl("");
 
-      // Create payment intent
-      const intentRes = await fetch("/api/pay/intents", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          email,
-          amountSats: Number.parseInt(amount),
-          memo,
-        }),
+      const { token } = await createPaymentLink({
+        email,
+        amountSats: Number.parseInt(amount),
+        memo,
       });
 
-      if (!intentRes.ok) {
-        throw new Error(await intentRes.text());
-      }
-
-      const intent = await intentRes.json();
-
-      // Create magic link
-      const linkRes = await fetch(`/api/pay/intents/${intent.id}/magic-link`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ttlHours: 24 }),
-      });
-
-      if (!linkRes.ok) {
-        throw new Error(await linkRes.text());
-      }
-
-      const { url, token } = await linkRes.json();
       // Use the UI page route instead of the API magic link (which returns JSON)
       const uiUrl = `${window.location.origin}/pay/${token}`;
       setPaymentUrl(uiUrl);
@@ -185,13 +163,19 @@ export default function HomePage() {
               <code className="bg-gray-100 px-2 py-1 rounded text-green-600">
                 POST /api/pay/intents
               </code>
-              <p className="text-gray-600 mt-1">Create a payment intent</p>
+              <p className="text-gray-600 mt-1">
+                Create a payment intent (requires an API key with the write
+                scope)
+              </p>
             </div>
             <div>
               <code className="bg-gray-100 px-2 py-1 rounded text-green-600">
                 POST /api/pay/intents/:id/magic-link
               </code>
-              <p className="text-gray-600 mt-1">Create magic link for intent</p>
+              <p className="text-gray-600 mt-1">
+                Create magic link for intent (requires an API key with the
+                write scope)
+              </p>
             </div>
             <div>
               <code className="bg-gray-100 px-2 py-1 rounded text-blue-600">
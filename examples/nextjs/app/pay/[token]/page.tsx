@@ -89,6 +89,7 @@ export default function PaymentPage({ params }: { params: { token: string } }) {
       case "confirmed":
         return "text-green-600";
       case "processing":
+      case "paid_late":
         return "text-yellow-600";
       case "expired":
         return "text-red-600";
@@ -105,6 +106,8 @@ export default function PaymentPage({ params }: { params: { token: string } }) {
         return `Payment detected (${confs} confirmations)`;
       case "expired":
         return "Payment expired";
+      case "paid_late":
+        return "Payment received after expiry, awaiting merchant review";
       default:
         return "Awaiting payment";
     }
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "bitcoin_pay_payment_intents" ADD COLUMN     "received_sats" BIGINT NOT NULL DEFAULT 0;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "bitcoin_pay_payment_intents" ADD COLUMN     "overpaid_sats" BIGINT NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "bitcoin_pay_refunds" (
+    "id" TEXT NOT NULL,
+    "intent_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "amount_sats" BIGINT NOT NULL,
+    "refund_address" TEXT NOT NULL,
+    "fee_rate" DOUBLE PRECISION NOT NULL,
+    "fee_payer" TEXT NOT NULL,
+    "source_txid" TEXT,
+    "source_vout" INTEGER,
+    "fee_sats" BIGINT,
+    "psbt_base64" TEXT,
+    "tx_hex" TEXT,
+    "txid" TEXT,
+    "error" TEXT,
+    "broadcast_at" TIMESTAMP(3),
+    "confirmed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bitcoin_pay_refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_refunds_intent_id_idx" ON "bitcoin_pay_refunds"("intent_id");
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_refunds_status_idx" ON "bitcoin_pay_refunds"("status");
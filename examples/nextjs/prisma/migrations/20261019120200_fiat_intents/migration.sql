@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "bitcoin_pay_payment_intents" ADD COLUMN     "amount_fiat" DOUBLE PRECISION,
+ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "exchange_rate" DOUBLE PRECISION,
+ADD COLUMN     "rate_lock_expires_at" TIMESTAMP(3),
+ADD COLUMN     "rate_quoted_at" TIMESTAMP(3);
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "bitcoin_pay_idempotency_keys" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "request_hash" TEXT NOT NULL,
+    "response" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bitcoin_pay_idempotency_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bitcoin_pay_idempotency_keys_scope_idempotency_key_key" ON "bitcoin_pay_idempotency_keys"("scope", "idempotency_key");
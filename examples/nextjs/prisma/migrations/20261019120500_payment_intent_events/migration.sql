@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "bitcoin_pay_payment_intent_events" (
+    "id" TEXT NOT NULL,
+    "intent_id" TEXT NOT NULL,
+    "from_status" TEXT,
+    "to_status" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "txid" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bitcoin_pay_payment_intent_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_payment_intent_events_intent_id_idx" ON "bitcoin_pay_payment_intent_events"("intent_id");
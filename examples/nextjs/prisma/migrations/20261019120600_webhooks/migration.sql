@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "bitcoin_pay_webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL,
+    "last_status_code" INTEGER,
+    "last_error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bitcoin_pay_webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bitcoin_pay_webhook_attempts" (
+    "id" TEXT NOT NULL,
+    "delivery_id" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "status_code" INTEGER,
+    "error" TEXT,
+    "duration_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bitcoin_pay_webhook_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_webhook_deliveries_status_next_attempt_at_idx" ON "bitcoin_pay_webhook_deliveries"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_webhook_deliveries_event_id_idx" ON "bitcoin_pay_webhook_deliveries"("event_id");
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_webhook_attempts_delivery_id_idx" ON "bitcoin_pay_webhook_attempts"("delivery_id");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "bitcoin_pay_scheduler_locks" (
+    "name" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bitcoin_pay_scheduler_locks_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "bitcoin_pay_deposit_addresses" ADD COLUMN     "store_id" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "bitcoin_pay_payment_intents" ADD COLUMN     "store_id" TEXT NOT NULL DEFAULT 'default';
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_deposit_addresses_store_id_derivation_index_idx" ON "bitcoin_pay_deposit_addresses"("store_id", "derivation_index");
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_payment_intents_store_id_idx" ON "bitcoin_pay_payment_intents"("store_id");
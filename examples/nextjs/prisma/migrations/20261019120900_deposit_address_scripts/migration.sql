@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "bitcoin_pay_deposit_addresses" ADD COLUMN     "redeem_script_hex" TEXT,
+ADD COLUMN     "witness_script_hex" TEXT;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "bitcoin_pay_chain_checkpoints" (
+    "name" TEXT NOT NULL,
+    "height" INTEGER NOT NULL,
+    "block_hash" TEXT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bitcoin_pay_chain_checkpoints_pkey" PRIMARY KEY ("name")
+);
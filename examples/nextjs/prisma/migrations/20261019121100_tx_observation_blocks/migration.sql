@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "bitcoin_pay_tx_observations" ADD COLUMN     "block_hash" TEXT,
+ADD COLUMN     "block_height" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "bitcoin_pay_tx_observations_block_height_idx" ON "bitcoin_pay_tx_observations"("block_height");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "bitcoin_pay_api_keys" ADD COLUMN     "store_id" TEXT;
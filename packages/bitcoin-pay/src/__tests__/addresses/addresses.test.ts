@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { GapLimitError } from "../../addresses/index.js";
+import type {
+	ChainBackend,
+	WatchedScript,
+} from "../../watcher/backend.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+import type { BitcoinPayOptions } from "../../types/options.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+describe("address gap limit", () => {
+	let storage: StorageAdapter;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	function createPay(advanced: BitcoinPayOptions["advanced"]) {
+		return createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+			advanced,
+		});
+	}
+
+	async function assignNew(pay: ReturnType<typeof createPay>) {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		return pay.ensureAssigned(intent.id);
+	}
+
+	it("should refuse to derive past the gap limit until an address is paid", async () => {
+		const pay = createPay({ gapLimit: 2, gapLimitPolicy: "error" });
+		await assignNew(pay);
+		const second = await assignNew(pay);
+
+		await expect(assignNew(pay)).rejects.toBeInstanceOf(GapLimitError);
+
+		const paid = await storage.getDepositAddressByAddress(second.address);
+		await storage.createTxObservation({
+			txid: "c".repeat(64),
+			vout: 0,
+			valueSats: 10_000,
+			confirmations: 0,
+			addressId: paid?.id as string,
+			scriptPubKeyHex: "0014",
+			status: "mempool",
+			seenAt: new Date(),
+		});
+
+		await expect(assignNew(pay)).resolves.toMatchObject({
+			intentId: expect.any(String),
+		});
+		expect(await pay.getGapStatus()).toMatchObject({
+			lastUsedIndex: 1,
+			nextIndex: 3,
+			unusedCount: 1,
+		});
+	});
+
+	it("should only warn by default", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const pay = createPay({ gapLimit: 1 });
+
+		await assignNew(pay);
+		await assignNew(pay);
+
+		expect(warn).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("multisig addresses", () => {
+	it("should store the witness script with the address", async () => {
+		const storage = memoryStorage();
+		const pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor: `wsh(sortedmulti(2,${descriptor.slice(5, -1)},xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8/0/*))`,
+			watcher: {},
+			storage,
+		});
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+
+		const { address } = await pay.ensureAssigned(intent.id);
+
+		const stored = await storage.getDepositAddressByAddress(address);
+		expect(address).toMatch(/^bc1q.{58}$/);
+		expect(stored?.witnessScriptHex).toMatch(/^52.*52ae$/);
+		expect(stored?.redeemScriptHex).toBeNull();
+	});
+});
+
+describe("address recycling", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+
+	let getScriptHistory: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		storage = memoryStorage();
+		getScriptHistory = vi.fn(async () => []);
+		const backend: ChainBackend = {
+			start: async () => {},
+			stop: async () => {},
+			subscribe: async () => {},
+			unsubscribe: async () => {},
+			getTransaction: async () => null,
+			getTipHeight: async () => 100,
+			getConfirmations: async () => null,
+			getScriptHistory,
+		};
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: { backend },
+			storage,
+			advanced: { addressRecycling: { enabled: true, quarantineHours: 1 } },
+		});
+		await pay.startWatcher();
+	});
+
+	afterEach(async () => {
+		await pay.stopWatcher();
+		vi.restoreAllMocks();
+	});
+
+	async function expiredIntent(expiredMinutesAgo: number) {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		const { address } = await pay.ensureAssigned(intent.id);
+		await storage.updatePaymentIntent(intent.id, {
+			expiresAt: new Date(Date.now() - expiredMinutesAgo * 60_000),
+		});
+		return { intentId: intent.id, address };
+	}
+
+	it("should release only quarantined addresses the node reports empty", async () => {
+		const empty = await expiredIntent(120);
+		const funded = await expiredIntent(120);
+		const recent = await expiredIntent(10);
+		await pay.expireStaleIntents();
+		getScriptHistory.mockImplementation(async (script: WatchedScript) =>
+			script.address === funded.address ? ["a".repeat(64)] : [],
+		);
+
+		const released = await pay.recycleAddresses();
+
+		expect(released.map((a) => a.address)).toEqual([empty.address]);
+		expect((await pay.getIntent(empty.intentId))?.addressId).toBeNull();
+		expect((await pay.getIntent(funded.intentId))?.addressId).not.toBeNull();
+		expect((await pay.getIntent(recent.intentId))?.addressId).not.toBeNull();
+
+		const next = await pay.createPaymentIntent({ amountSats: 5_000 });
+		expect((await pay.ensureAssigned(next.id)).address).toBe(empty.address);
+	});
+
+	it("should release nothing and fail when a chain check fails", async () => {
+		const empty = await expiredIntent(120);
+		const untracked = await expiredIntent(120);
+		await pay.expireStaleIntents();
+		getScriptHistory.mockImplementation(async (script: WatchedScript) => {
+			if (script.address === untracked.address) {
+				throw new Error("Address is not tracked by the node's wallet");
+			}
+			return [];
+		});
+
+		await expect(pay.recycleAddresses()).rejects.toThrow(
+			`chain check for ${untracked.address} failed`,
+		);
+		expect((await pay.getIntent(empty.intentId))?.addressId).not.toBeNull();
+	});
+});
+
+describe("address verification export", () => {
+	// BIP84 test vector, account 0 of "abandon abandon ... about"
+	const bip84 =
+		"wpkh([73c5da0a/84h/0h/0h]xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V/0/*)";
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor: bip84,
+			watcher: {},
+			storage,
+		});
+	});
+
+	it("should export addresses with their derivation paths", async () => {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		await pay.ensureAssigned(intent.id);
+
+		const exported = await pay.exportAddresses({ count: 2 });
+
+		expect(exported).toHaveLength(2);
+		expect(exported[0]).toMatchObject({
+			index: 0,
+			address: "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+			paths: [{ fingerprint: "73c5da0a", path: "m/84'/0'/0'/0/0" }],
+			scriptPubKeyHex: "0014c0cebcd6c3d3ca8c75dc5ec62ebe55330ef910e2",
+			issued: true,
+		});
+		expect(exported[1]).toMatchObject({
+			address: "bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g",
+			issued: false,
+		});
+		await expect(pay.exportAddresses({ count: 5000 })).rejects.toThrow(
+			"between 1 and 1000",
+		);
+	});
+
+	it("should verify addresses within the search window", async () => {
+		expect(
+			await pay.verifyAddress("bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g"),
+		).toMatchObject({ valid: true, index: 1, storedIndex: null });
+		expect(
+			await pay.verifyAddress("bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g", {
+				window: 1,
+			}),
+		).toMatchObject({ valid: false, index: null });
+		expect(
+			await pay.verifyAddress("bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh"),
+		).toMatchObject({ valid: false });
+	});
+
+	it("should verify addresses of stores with more than 1000 derived", async () => {
+		const [issued] = await pay.exportAddresses({ start: 1500, count: 1 });
+		await storage.createDepositAddress({
+			storeId: issued.storeId,
+			address: issued.address,
+			derivationIndex: issued.index,
+			scriptPubKeyHex: issued.scriptPubKeyHex,
+			redeemScriptHex: null,
+			witnessScriptHex: null,
+			intentId: null,
+			assignedAt: null,
+		});
+		const [unstored] = await pay.exportAddresses({ start: 1200, count: 1 });
+
+		expect(await pay.verifyAddress(issued.address)).toMatchObject({
+			valid: true,
+			index: 1500,
+			storedIndex: 1500,
+		});
+		expect(await pay.verifyAddress(unstored.address)).toMatchObject({
+			valid: true,
+			index: 1200,
+			storedIndex: null,
+		});
+	});
+
+	it("should serve exports to admin keys only", async () => {
+		const { key: readKey } = await pay.createApiKey({
+			name: "reporting",
+			scopes: ["read"],
+		});
+		const { key } = await pay.createApiKey({ name: "ops", scopes: ["admin"] });
+		const exportRequest = (apiKey: string) =>
+			new Request(
+				"https://example.com/api/pay/addresses/export?count=3&format=csv",
+				{ headers: { Authorization: `Bearer ${apiKey}` } },
+			);
+
+		expect((await pay.handler(exportRequest(readKey))).status).toBe(403);
+
+		const response = await pay.handler(exportRequest(key));
+		expect(response.headers.get("content-type")).toContain("text/csv");
+		const lines = (await response.text()).trim().split("\n");
+		expect(lines).toHaveLength(4);
+		expect(lines[1]).toBe(
+			"default,0,0,bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu,[73c5da0a/84'/0'/0'/0/0],0014c0cebcd6c3d3ca8c75dc5ec62ebe55330ef910e2,,,false",
+		);
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const shopDescriptor =
+	"wpkh(xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8/0/*)";
+
+function request(path: string, init: RequestInit = {}) {
+	return new Request(`https://example.com/api/pay${path}`, init);
+}
+
+function createIntentRequest(headers: Record<string, string> = {}) {
+	return request("/intents", {
+		method: "POST",
+		headers: { "Content-Type": "application/json", ...headers },
+		body: JSON.stringify({ amountSats: 10_000 }),
+	});
+}
+
+describe("API key authentication", () => {
+	let storage: ReturnType<typeof memoryStorage>;
+	let pay: ReturnType<typeof createBitcoinPay>;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+	});
+
+	it("should store only the key hash", async () => {
+		const { apiKey, key } = await pay.createApiKey({
+			name: "backend",
+			scopes: ["write"],
+		});
+
+		expect(key.startsWith(apiKey.prefix)).toBe(true);
+		expect(apiKey.keyHash).not.toContain(key);
+		expect(JSON.stringify(await pay.listApiKeys())).not.toContain(key);
+	});
+
+	it("should reject merchant routes without a valid key", async () => {
+		const missing = await pay.handler(createIntentRequest());
+		expect(missing.status).toBe(401);
+
+		const invalid = await pay.handler(
+			createIntentRequest({ Authorization: "Bearer bpk_nope" }),
+		);
+		expect(invalid.status).toBe(401);
+	});
+
+	it("should enforce scopes", async () => {
+		const { key } = await pay.createApiKey({
+			name: "reporting",
+			scopes: ["read"],
+		});
+
+		const response = await pay.handler(createIntentRequest({ "x-api-key": key }));
+		expect(response.status).toBe(403);
+	});
+
+	it("should accept scoped keys until revoked", async () => {
+		const { apiKey, key } = await pay.createApiKey({
+			name: "backend",
+			scopes: ["read", "write"],
+		});
+
+		const created = await pay.handler(
+			createIntentRequest({ Authorization: `Bearer ${key}` }),
+		);
+		expect(created.status).toBe(201);
+		const intent = (await created.json()) as { id: string };
+
+		const fetched = await pay.handler(
+			request(`/intents/${intent.id}`, { headers: { "x-api-key": key } }),
+		);
+		expect(fetched.status).toBe(200);
+
+		await pay.revokeApiKey(apiKey.id);
+		const revoked = await pay.handler(
+			request(`/intents/${intent.id}`, { headers: { "x-api-key": key } }),
+		);
+		expect(revoked.status).toBe(401);
+	});
+
+	it("should confine store-bound keys to their store", async () => {
+		pay.registerStore({ id: "shop", descriptor: shopDescriptor });
+		await expect(
+			pay.createApiKey({ name: "x", scopes: ["read"], storeId: "nope" }),
+		).rejects.toThrow('Store "nope" is not configured');
+		const { key } = await pay.createApiKey({
+			name: "shop backend",
+			scopes: ["read", "write", "scan"],
+			storeId: "shop",
+		});
+		const headers = { "x-api-key": key };
+
+		const created = await pay.handler(createIntentRequest(headers));
+		expect(created.status).toBe(201);
+		expect(((await created.json()) as { storeId: string }).storeId).toBe(
+			"shop",
+		);
+
+		const otherStore = await pay.handler(
+			request("/intents", {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...headers },
+				body: JSON.stringify({ storeId: "default", amountSats: 10_000 }),
+			}),
+		);
+		expect(otherStore.status).toBe(403);
+
+		const foreign = await pay.createPaymentIntent({ amountSats: 10_000 });
+		for (const path of [
+			`/intents/${foreign.id}`,
+			`/intents/${foreign.id}/events`,
+		]) {
+			const response = await pay.handler(request(path, { headers }));
+			expect(response.status).toBe(404);
+		}
+		const link = await pay.handler(
+			request(`/intents/${foreign.id}/magic-link`, {
+				method: "POST",
+				headers,
+				body: "{}",
+			}),
+		);
+		expect(link.status).toBe(404);
+		const scan = await pay.handler(
+			request(`/scan/${foreign.id}`, { method: "POST", headers }),
+		);
+		expect(scan.status).toBe(404);
+	});
+
+	it("should keep the status route public", async () => {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+
+		const response = await pay.handler(request(`/status?intentId=${intent.id}`));
+		expect(response.status).toBe(200);
+	});
+});
@@ -1,10 +1,33 @@
 import { describe, it, expect } from "vitest";
-import { parseDescriptor, deriveAddress, createBIP21URI } from "../../crypto/descriptor.js";
+import * as bitcoin from "bitcoinjs-lib";
+import {
+	parseDescriptor,
+	deriveAddress,
+	createBIP21URI,
+	descriptorChecksum,
+} from "../../crypto/descriptor.js";
+import { toStandardExtendedKey } from "../../crypto/slip132.js";
+
+// BIP84 test vector, account 0 of "abandon abandon ... about"
+const bip84 =
+	"wpkh([73c5da0a/84h/0h/0h]xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V/0/*)";
+const bip84Xpub =
+	"xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V";
+// The same BIP84 and BIP49 account keys in their SLIP-132 encodings
+const bip84Zpub =
+	"zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+const bip49Ypub =
+	"ypub6Ww3ibxVfGzLrAH1PNcjyAWenMTbbAosGNB6VvmSEgytSER9azLDWCxoJwW7Ke7icmizBMXrzBx9979FfaHxHcrArf3zbeJJJUZPf663zsP";
+const cosigners = [
+	`[73c5da0a/48h/0h/0h/2h]${bip84Xpub}/0/*`,
+	"xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8/0/*",
+	"xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*",
+];
 
 describe("descriptor", () => {
 	describe("parseDescriptor", () => {
 		it("should parse P2WPKH descriptor", () => {
-			const descriptor = "wpkh([fingerprint/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+			const descriptor = "wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
 			const parsed = parseDescriptor(descriptor, "mainnet");
 
 			expect(parsed.type).toBe("wpkh");
@@ -13,7 +36,7 @@ describe("descriptor", () => {
 		});
 
 		it("should parse P2TR descriptor", () => {
-			const descriptor = "tr([fingerprint/86'/0'/0']xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ/0/*)";
+			const descriptor = "tr([d34db33f/86'/0'/0']xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ/0/*)";
 			const parsed = parseDescriptor(descriptor, "mainnet");
 
 			expect(parsed.type).toBe("tr");
@@ -23,11 +46,61 @@ describe("descriptor", () => {
 		it("should throw on invalid descriptor", () => {
 			expect(() => parseDescriptor("invalid", "mainnet")).toThrow();
 		});
+
+		it("should parse key origins", () => {
+			const parsed = parseDescriptor(bip84);
+
+			expect(parsed.keys[0].origin).toEqual({
+				fingerprint: "73c5da0a",
+				path: "84'/0'/0'",
+			});
+		});
+
+		it("should nest sh(wpkh(...))", () => {
+			const parsed = parseDescriptor(`sh(wpkh(${bip84Xpub}/0/*))`);
+
+			expect(parsed.type).toBe("sh");
+			expect(parsed.script).toMatchObject({ type: "sh", script: { type: "wpkh" } });
+			expect(deriveAddress(parsed, 0).address).toMatch(/^3/);
+		});
+
+		it("should reject unsupported constructs with clear errors", () => {
+			const cases: [string, string][] = [
+				[`wpkh(${bip84Xpub}/0h/*)`, "Hardened step"],
+				[`wpkh(${bip84Xpub}/0/*h)`, "Hardened wildcards"],
+				[`wpkh(${bip84Xpub}/0)`, "/* wildcard"],
+				[`wpkh([fingerprint/84h]${bip84Xpub}/0/*)`, "8 hex characters"],
+				[`wpkh(${bip84Xpub}/<0;1>/<2;3>/*)`, "Only one <a;b>"],
+				[`combo(${bip84Xpub}/0/*)`, "combo() descriptors are not supported"],
+				[`sh(tr(${bip84Xpub}/0/*))`, "only allowed at the top level"],
+				["wpkh(xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi/0/*)", "private keys"],
+			];
+
+			for (const [descriptor, message] of cases) {
+				expect(() => parseDescriptor(descriptor)).toThrow(message);
+			}
+		});
+	});
+
+	describe("checksums", () => {
+		it("should compute BIP380 checksums", () => {
+			expect(descriptorChecksum("addr(mkmZxiEcEd8ZqjQWVZuC6so5dFMKEFpN2j)")).toBe(
+				"02wpgw69",
+			);
+			expect(parseDescriptor(bip84).descriptor).toBe(`${bip84}#afwvtk2s`);
+		});
+
+		it("should verify a checksum when present", () => {
+			expect(parseDescriptor(`${bip84}#afwvtk2s`).checksum).toBe("afwvtk2s");
+			expect(() => parseDescriptor(`${bip84}#afwvtk2t`)).toThrow(
+				"does not match",
+			);
+		});
 	});
 
 	describe("deriveAddress", () => {
 		it("should derive P2WPKH address", () => {
-			const descriptor = "wpkh([fingerprint/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+			const descriptor = "wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
 			const parsed = parseDescriptor(descriptor, "mainnet");
 
 			const { address, scriptPubKey } = deriveAddress(parsed, 0);
@@ -39,7 +112,7 @@ describe("descriptor", () => {
 		});
 
 		it("should derive different addresses for different indices", () => {
-			const descriptor = "wpkh([fingerprint/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+			const descriptor = "wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
 			const parsed = parseDescriptor(descriptor, "mainnet");
 
 			const addr0 = deriveAddress(parsed, 0);
@@ -48,6 +121,123 @@ describe("descriptor", () => {
 			expect(addr0.address).not.toBe(addr1.address);
 			expect(addr0.scriptPubKey.toString("hex")).not.toBe(addr1.scriptPubKey.toString("hex"));
 		});
+
+		it("should derive the BIP84 test vector addresses", () => {
+			const parsed = parseDescriptor(bip84);
+
+			expect(deriveAddress(parsed, 0).address).toBe(
+				"bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+			);
+			expect(deriveAddress(parsed, 1).address).toBe(
+				"bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g",
+			);
+		});
+
+		it("should follow the derivation steps after the key", () => {
+			const change = parseDescriptor(`wpkh(${bip84Xpub}/1/*)`);
+			const multipath = parseDescriptor(`wpkh(${bip84Xpub}/<0;1>/*)`);
+
+			expect(multipath.branches).toBe(2);
+			expect(deriveAddress(multipath, 0).address).toBe(
+				"bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+			);
+			expect(deriveAddress(multipath, 0, 1).address).toBe(
+				deriveAddress(change, 0).address,
+			);
+			expect(() => deriveAddress(change, 0, 1)).toThrow("no multipath branch");
+		});
+	});
+
+	describe("multisig", () => {
+		it("should derive wsh(sortedmulti(...)) independent of key order", () => {
+			const parsed = parseDescriptor(
+				`wsh(sortedmulti(2,${cosigners.join(",")}))`,
+			);
+			const reordered = parseDescriptor(
+				`wsh(sortedmulti(2,${[...cosigners].reverse().join(",")}))`,
+			);
+			const unsorted = parseDescriptor(
+				`wsh(multi(2,${[...cosigners].reverse().join(",")}))`,
+			);
+
+			const derived = deriveAddress(parsed, 0);
+
+			expect(parsed.keys).toHaveLength(3);
+			expect(derived.address).toMatch(/^bc1q.{58}$/);
+			expect(deriveAddress(reordered, 0).address).toBe(derived.address);
+			expect(deriveAddress(unsorted, 0).address).not.toBe(derived.address);
+			expect(derived.scriptPubKey.subarray(2)).toEqual(
+				bitcoin.crypto.sha256(derived.witnessScript as Buffer),
+			);
+			expect(derived.redeemScript).toBeUndefined();
+		});
+
+		it("should derive sh(wsh(multi(...))) with both scripts", () => {
+			const parsed = parseDescriptor(`sh(wsh(multi(2,${cosigners.join(",")})))`);
+
+			const derived = deriveAddress(parsed, 0);
+
+			expect(derived.address).toMatch(/^3/);
+			expect(derived.redeemScript?.subarray(2)).toEqual(
+				bitcoin.crypto.sha256(derived.witnessScript as Buffer),
+			);
+		});
+
+		it("should reject invalid multisig descriptors", () => {
+			const keys = cosigners.join(",");
+			expect(() => parseDescriptor(`wsh(multi(4,${keys}))`)).toThrow(
+				"threshold 4",
+			);
+			expect(() => parseDescriptor(`multi(2,${keys})`)).toThrow(
+				"no address",
+			);
+			expect(() =>
+				parseDescriptor(
+					`wsh(multi(1,${bip84Xpub}/<0;1>/*,${cosigners[1].replace("/0/*", "/<0;1;2>/*")}))`,
+				),
+			).toThrow("same number");
+		});
+	});
+
+	describe("SLIP-132 keys", () => {
+		it("should convert zpub keys to xpub", () => {
+			expect(toStandardExtendedKey(bip84Zpub)).toEqual({
+				xpub: bip84Xpub,
+				script: "wpkh",
+			});
+
+			const parsed = parseDescriptor(`wpkh([73c5da0a/84h/0h/0h]${bip84Zpub}/0/*)`);
+			expect(parsed.xpub).toBe(bip84Xpub);
+			expect(parsed.descriptor).toBe(`${bip84}#afwvtk2s`);
+		});
+
+		it("should infer the script type of a bare key", () => {
+			const wpkh = parseDescriptor(bip84Zpub);
+			expect(wpkh.type).toBe("wpkh");
+			expect(deriveAddress(wpkh, 0).address).toBe(
+				"bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+			);
+
+			const nested = parseDescriptor(`[d34db33f/49h/0h/0h]${bip49Ypub}`);
+			expect(nested.script).toMatchObject({ type: "sh", script: { type: "wpkh" } });
+			expect(nested.derivationPath).toBe("0/*");
+			expect(deriveAddress(nested, 0).address).toBe(
+				"37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf",
+			);
+
+			expect(() => parseDescriptor(bip84Xpub)).toThrow(
+				"does not say which addresses to derive",
+			);
+		});
+
+		it("should reject keys contradicting the descriptor", () => {
+			expect(() => parseDescriptor(`sh(wpkh(${bip84Zpub}/0/*))`)).toThrow(
+				"zpub keys are for wpkh() scripts but this key is used in sh(wpkh)()",
+			);
+			expect(() => parseDescriptor(`tr(${bip49Ypub}/0/*)`)).toThrow(
+				"sh(wpkh)() scripts",
+			);
+		});
 	});
 
 	describe("createBIP21URI", () => {
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as bitcoin from "bitcoinjs-lib";
+import { deriveAddress, parseDescriptor } from "../../crypto/descriptor.js";
+import { assertChainMatches } from "../../crypto/networks.js";
+import { BitcoinWatcher } from "../../watcher/index.js";
+import { BitcoinRPC, type BlockchainInfo } from "../../watcher/rpc.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+
+const testDescriptor =
+	"wpkh([e2867bb6/84'/1'/0']tpubDDPRy5xWxJTuVmsh7YRzK8o2EdMWgn4t41fTLxXRgyRN7EKvN2L8BKCFC1gUfPu8Xp6rr667Yc26zrXsiBZsgBc8dQiYnhPNk2Q7CsBrer5/0/*)";
+const mainDescriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+describe("networks", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should encode addresses for each test network", () => {
+		const regtest = deriveAddress(parseDescriptor(testDescriptor, "regtest"), 0);
+		const signet = deriveAddress(parseDescriptor(testDescriptor, "signet"), 0);
+		const testnet4 = deriveAddress(
+			parseDescriptor(testDescriptor, "testnet4"),
+			0,
+		);
+
+		expect(regtest.address).toMatch(/^bcrt1q/);
+		expect(signet.address).toMatch(/^tb1q/);
+		expect(testnet4.address).toBe(signet.address);
+		expect(regtest.scriptPubKey).toEqual(signet.scriptPubKey);
+	});
+
+	it("should reject keys for another network", () => {
+		expect(() => parseDescriptor(testDescriptor, "mainnet")).toThrow(
+			'is a test network key but network is "mainnet"',
+		);
+		expect(() => parseDescriptor(mainDescriptor, "regtest")).toThrow(
+			'is a mainnet key but network is "regtest"',
+		);
+	});
+
+	it("should compare the node's chain with the network", () => {
+		expect(() => assertChainMatches("mainnet", "main")).not.toThrow();
+		expect(() => assertChainMatches("testnet4", "testnet4")).not.toThrow();
+		expect(() => assertChainMatches("testnet", "testnet4")).toThrow(
+			'Bitcoin node is on chain "testnet4" but network is "testnet"',
+		);
+	});
+
+	it("should refuse to start the watcher on a mismatched chain", async () => {
+		const getBlockchainInfo = vi
+			.spyOn(BitcoinRPC.prototype, "getBlockchainInfo")
+			.mockResolvedValue({ chain: "regtest" } as BlockchainInfo);
+		const watcher = new BitcoinWatcher({
+			zmq: {},
+			rpc: { host: "127.0.0.1", port: 8332, username: "u", password: "p" },
+			storage: memoryStorage(),
+			network: bitcoin.networks.bitcoin,
+			chain: "mainnet",
+			confirmations: 1,
+		});
+
+		await expect(watcher.start()).rejects.toThrow('network is "mainnet"');
+		expect(getBlockchainInfo).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createExchangeRateService,
+	fiatToSats,
+	fileRateProvider,
+	staticRateProvider,
+	type ExchangeRateProvider,
+} from "../../exchange-rates/index.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+function quoteProvider(
+	id: string,
+	rate: number,
+	ageSeconds = 0,
+): ExchangeRateProvider {
+	return {
+		id,
+		getRate: vi.fn(async (currency: string) => ({
+			currency,
+			rate,
+			timestamp: new Date(Date.now() - ageSeconds * 1000),
+			source: id,
+		})),
+	};
+}
+
+describe("exchange rates", () => {
+	it("should convert fiat to sats", () => {
+		expect(fiatToSats(50, 100_000)).toBe(50_000);
+		expect(fiatToSats(0.01, 65_000)).toBe(15);
+	});
+
+	it("should use the median of fresh quotes and ignore stale ones", async () => {
+		const service = createExchangeRateService({
+			providers: [
+				quoteProvider("a", 60_000),
+				quoteProvider("b", 62_000),
+				quoteProvider("c", 90_000),
+				quoteProvider("stale", 1_000, 3600),
+			],
+		});
+
+		const quote = await service.getRate("usd");
+
+		expect(quote.currency).toBe("USD");
+		expect(quote.rate).toBe(62_000);
+		expect(quote.source).toBe("a,b,c");
+	});
+
+	it("should require minSources fresh quotes", async () => {
+		const failing: ExchangeRateProvider = {
+			id: "down",
+			getRate: async () => {
+				throw new Error("unavailable");
+			},
+		};
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const service = createExchangeRateService({
+			providers: [quoteProvider("a", 60_000), failing],
+			minSources: 2,
+		});
+
+		await expect(service.getRate("USD")).rejects.toThrow(
+			"Not enough fresh exchange rates",
+		);
+		warn.mockRestore();
+	});
+
+	it("should cache aggregated rates", async () => {
+		const provider = quoteProvider("a", 60_000);
+		const service = createExchangeRateService({ providers: [provider] });
+
+		await service.getRate("EUR");
+		await service.getRate("EUR");
+		expect(provider.getRate).toHaveBeenCalledTimes(1);
+
+		service.clearCache();
+		await service.getRate("EUR");
+		expect(provider.getRate).toHaveBeenCalledTimes(2);
+	});
+
+	it("should read rates from a JSON file", async () => {
+		const path = join(mkdtempSync(join(tmpdir(), "rates-")), "rates.json");
+		const timestamp = new Date().toISOString();
+		writeFileSync(path, JSON.stringify({ timestamp, rates: { USD: 65_000 } }));
+
+		const quote = await fileRateProvider(path).getRate("usd");
+
+		expect(quote.rate).toBe(65_000);
+		expect(quote.timestamp.toISOString()).toBe(timestamp);
+		await expect(fileRateProvider(path).getRate("JPY")).rejects.toThrow(
+			"No JPY rate",
+		);
+	});
+});
+
+describe("fiat payment intents", () => {
+	it("should price and lock intents created in fiat", async () => {
+		const storage = memoryStorage();
+		const rates = { USD: 50_000 };
+		const pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+			exchangeRates: {
+				providers: [staticRateProvider(rates)],
+				cacheTTLSeconds: 0,
+			},
+		});
+
+		const intent = await pay.createPaymentIntent({
+			amountFiat: 25,
+			currency: "usd",
+		});
+
+		expect(intent.amountSats).toBe(50_000);
+		expect(intent.currency).toBe("USD");
+		expect(intent.exchangeRate).toBe(50_000);
+		expect(intent.rateLockExpiresAt?.getTime()).toBeGreaterThan(Date.now());
+
+		rates.USD = 100_000;
+		const requoted = await pay.requoteIntent(intent.id);
+		expect(requoted.amountSats).toBe(25_000);
+
+		await storage.updatePaymentIntent(intent.id, { receivedSats: 1_000 });
+		rates.USD = 25_000;
+		const locked = await pay.requoteIntent(intent.id);
+		expect(locked.amountSats).toBe(25_000);
+	});
+
+	it("should reject ambiguous amounts", async () => {
+		const pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage: memoryStorage(),
+		});
+
+		await expect(
+			pay.createPaymentIntent({ amountSats: 1_000, amountFiat: 1 }),
+		).rejects.toThrow("not both");
+		await expect(
+			pay.createPaymentIntent({ amountFiat: 1, currency: "USD" }),
+		).rejects.toThrow("not configured");
+	});
+});
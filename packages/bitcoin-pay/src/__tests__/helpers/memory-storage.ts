@@ -0,0 +1,361 @@
+import { nanoid } from "nanoid";
+import type { StorageAdapter } from "../../types/adapter.js";
+import type {
+	PaymentIntent,
+	DepositAddress,
+	TxObservation,
+	MagicLinkToken,
+	Refund,
+	ApiKey,
+	IdempotencyRecord,
+	PaymentIntentEvent,
+	WebhookDelivery,
+	WebhookAttempt,
+	SchedulerLock,
+	ChainCheckpoint,
+} from "../../types/models.js";
+import { DEFAULT_STORE_ID } from "../../types/models.js";
+
+/**
+ * In-memory StorageAdapter for tests
+ */
+export function memoryStorage() {
+	const intents = new Map<string, PaymentIntent>();
+	const intentEvents: PaymentIntentEvent[] = [];
+	const addresses = new Map<string, DepositAddress>();
+	const observations = new Map<string, TxObservation>();
+	const tokens = new Map<string, MagicLinkToken>();
+	const refunds = new Map<string, Refund>();
+	const apiKeys = new Map<string, ApiKey>();
+	const idempotencyRecords = new Map<string, IdempotencyRecord>();
+	const webhookDeliveries = new Map<string, WebhookDelivery>();
+	const webhookAttempts: WebhookAttempt[] = [];
+	const schedulerLocks = new Map<string, SchedulerLock>();
+	const chainCheckpoints = new Map<string, ChainCheckpoint>();
+
+	const storage: StorageAdapter = {
+		async createPaymentIntent(data) {
+			const now = new Date();
+			const intent = {
+				...data,
+				storeId: data.storeId ?? DEFAULT_STORE_ID,
+				id: nanoid(),
+				createdAt: now,
+				updatedAt: now,
+			};
+			intents.set(intent.id, intent);
+			return { ...intent };
+		},
+		async getPaymentIntent(id) {
+			const intent = intents.get(id);
+			return intent ? { ...intent } : null;
+		},
+		async updatePaymentIntent(id, data) {
+			const intent = { ...(intents.get(id) as PaymentIntent), ...data };
+			intents.set(id, intent);
+			return { ...intent };
+		},
+		async updatePaymentIntentIfStatus(id, status, data) {
+			const current = intents.get(id);
+			if (current?.status !== status) return null;
+			const intent = { ...current, ...data };
+			intents.set(id, intent);
+			return { ...intent };
+		},
+		async listPaymentIntentsByStatus(status) {
+			return [...intents.values()].filter((i) => i.status === status);
+		},
+		async listExpiredPaymentIntents(before, limit) {
+			return [...intents.values()]
+				.filter((i) => i.status === "pending" && i.expiresAt <= before)
+				.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+				.slice(0, limit);
+		},
+		async createPaymentIntentEvent(data) {
+			const event = { ...data, id: nanoid(), createdAt: new Date() };
+			intentEvents.push(event);
+			return { ...event };
+		},
+		async listPaymentIntentEvents(intentId) {
+			return intentEvents.filter((e) => e.intentId === intentId);
+		},
+
+		async createDepositAddress(data) {
+			const now = new Date();
+			const address = {
+				...data,
+				storeId: data.storeId ?? DEFAULT_STORE_ID,
+				id: nanoid(),
+				createdAt: now,
+				updatedAt: now,
+			};
+			addresses.set(address.id, address);
+			return { ...address };
+		},
+		async getDepositAddress(id) {
+			const address = addresses.get(id);
+			return address ? { ...address } : null;
+		},
+		async getDepositAddressByAddress(address) {
+			return [...addresses.values()].find((a) => a.address === address) ?? null;
+		},
+		async getUnassignedAddress(storeId = DEFAULT_STORE_ID) {
+			return (
+				[...addresses.values()]
+					.filter((a) => a.storeId === storeId && !a.intentId)
+					.sort((a, b) => a.derivationIndex - b.derivationIndex)[0] ?? null
+			);
+		},
+		async assignAddressToIntent(addressId, intentId) {
+			const address = {
+				...(addresses.get(addressId) as DepositAddress),
+				intentId,
+				assignedAt: new Date(),
+			};
+			addresses.set(addressId, address);
+			await storage.updatePaymentIntent(intentId, { addressId });
+			return { ...address };
+		},
+		async getNextDerivationIndex(storeId = DEFAULT_STORE_ID) {
+			const indexes = [...addresses.values()]
+				.filter((a) => a.storeId === storeId)
+				.map((a) => a.derivationIndex);
+			return indexes.length ? Math.max(...indexes) + 1 : 0;
+		},
+		async listAssignedAddresses() {
+			return [...addresses.values()].filter((a) => a.intentId);
+		},
+		async getLastUsedDerivationIndex(storeId = DEFAULT_STORE_ID) {
+			const used = new Set([...observations.values()].map((o) => o.addressId));
+			const indexes = [...addresses.values()]
+				.filter((a) => a.storeId === storeId && used.has(a.id))
+				.map((a) => a.derivationIndex);
+			return indexes.length ? Math.max(...indexes) : null;
+		},
+		async listRecyclableAddresses(expiredBefore, limit) {
+			const used = new Set([...observations.values()].map((o) => o.addressId));
+			return [...addresses.values()]
+				.filter((a) => {
+					const intent = a.intentId ? intents.get(a.intentId) : undefined;
+					return (
+						intent?.status === "expired" &&
+						intent.receivedSats === 0 &&
+						intent.expiresAt < expiredBefore &&
+						!used.has(a.id)
+					);
+				})
+				.sort((a, b) => a.derivationIndex - b.derivationIndex)
+				.slice(0, limit);
+		},
+		async releaseDepositAddress(id) {
+			const address = addresses.get(id) as DepositAddress;
+			if (address.intentId) {
+				await storage.updatePaymentIntent(address.intentId, { addressId: null });
+			}
+			const released = { ...address, intentId: null, assignedAt: null };
+			addresses.set(id, released);
+			return { ...released };
+		},
+
+		async createTxObservation(data) {
+			const now = new Date();
+			const obs = { ...data, id: nanoid(), createdAt: now, updatedAt: now };
+			observations.set(obs.id, obs);
+			return { ...obs };
+		},
+		async upsertTxObservation(data) {
+			const existing = await storage.getTxObservationByTxidVout(
+				data.txid,
+				data.vout,
+			);
+			if (existing) {
+				return storage.updateTxObservation(existing.id, data);
+			}
+			return storage.createTxObservation(data);
+		},
+		async getTxObservationsByIntent(intentId) {
+			const intent = intents.get(intentId);
+			if (!intent?.addressId) return [];
+			return [...observations.values()]
+				.filter((o) => o.addressId === intent.addressId)
+				.sort((a, b) => b.seenAt.getTime() - a.seenAt.getTime());
+		},
+		async getTxObservationByTxid(txid) {
+			return [...observations.values()].find((o) => o.txid === txid) ?? null;
+		},
+		async getTxObservationByTxidVout(txid, vout) {
+			return (
+				[...observations.values()].find(
+					(o) => o.txid === txid && o.vout === vout,
+				) ?? null
+			);
+		},
+		async updateTxObservation(id, data) {
+			const obs = { ...(observations.get(id) as TxObservation), ...data };
+			observations.set(id, obs);
+			return { ...obs };
+		},
+		async listPendingTxObservations() {
+			return [...observations.values()].filter((o) => o.status === "mempool");
+		},
+		async listTxObservationsSinceHeight(height) {
+			return [...observations.values()].filter(
+				(o) => o.blockHeight != null && o.blockHeight >= height,
+			);
+		},
+
+		async createMagicLinkToken(data) {
+			const token = { ...data, id: nanoid(), createdAt: new Date() };
+			tokens.set(token.id, token);
+			return { ...token };
+		},
+		async getMagicLinkToken(token) {
+			return [...tokens.values()].find((t) => t.token === token) ?? null;
+		},
+		async consumeMagicLinkToken(id) {
+			const token = tokens.get(id);
+			if (token) {
+				tokens.set(id, { ...token, consumed: true, consumedAt: new Date() });
+			}
+		},
+		async deleteExpiredMagicLinkTokens(before) {
+			for (const token of [...tokens.values()]) {
+				if (token.expiresAt <= before) {
+					tokens.delete(token.id);
+				}
+			}
+		},
+
+		async createRefund(data) {
+			const now = new Date();
+			const refund = { ...data, id: nanoid(), createdAt: now, updatedAt: now };
+			refunds.set(refund.id, refund);
+			return { ...refund };
+		},
+		async getRefund(id) {
+			const refund = refunds.get(id);
+			return refund ? { ...refund } : null;
+		},
+		async updateRefund(id, data) {
+			const refund = { ...(refunds.get(id) as Refund), ...data };
+			refunds.set(id, refund);
+			return { ...refund };
+		},
+		async listRefundsByIntent(intentId) {
+			return [...refunds.values()].filter((r) => r.intentId === intentId);
+		},
+
+		async createApiKey(data) {
+			const now = new Date();
+			const apiKey = { ...data, id: nanoid(), createdAt: now, updatedAt: now };
+			apiKeys.set(apiKey.id, apiKey);
+			return { ...apiKey };
+		},
+		async getApiKeyByHash(keyHash) {
+			return [...apiKeys.values()].find((k) => k.keyHash === keyHash) ?? null;
+		},
+		async updateApiKey(id, data) {
+			const apiKey = { ...(apiKeys.get(id) as ApiKey), ...data };
+			apiKeys.set(id, apiKey);
+			return { ...apiKey };
+		},
+		async listApiKeys() {
+			return [...apiKeys.values()];
+		},
+
+		async createIdempotencyRecord(data) {
+			if (await storage.getIdempotencyRecord?.(data.scope, data.key)) {
+				throw new Error("Unique constraint failed");
+			}
+			const now = new Date();
+			const record = { ...data, id: nanoid(), createdAt: now, updatedAt: now };
+			idempotencyRecords.set(record.id, record);
+			return { ...record };
+		},
+		async getIdempotencyRecord(scope, key) {
+			return (
+				[...idempotencyRecords.values()].find(
+					(r) => r.scope === scope && r.key === key,
+				) ?? null
+			);
+		},
+		async updateIdempotencyRecord(id, data) {
+			const record = {
+				...(idempotencyRecords.get(id) as IdempotencyRecord),
+				...data,
+			};
+			idempotencyRecords.set(id, record);
+			return { ...record };
+		},
+		async deleteIdempotencyRecord(id) {
+			idempotencyRecords.delete(id);
+		},
+
+		async createWebhookDelivery(data) {
+			const now = new Date();
+			const delivery = { ...data, id: nanoid(), createdAt: now, updatedAt: now };
+			webhookDeliveries.set(delivery.id, delivery);
+			return { ...delivery };
+		},
+		async getWebhookDelivery(id) {
+			const delivery = webhookDeliveries.get(id);
+			return delivery ? { ...delivery } : null;
+		},
+		async updateWebhookDelivery(id, data) {
+			const delivery = {
+				...(webhookDeliveries.get(id) as WebhookDelivery),
+				...data,
+			};
+			webhookDeliveries.set(id, delivery);
+			return { ...delivery };
+		},
+		async listDueWebhookDeliveries(before, limit) {
+			return [...webhookDeliveries.values()]
+				.filter((d) => d.status === "pending" && d.nextAttemptAt <= before)
+				.sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+				.slice(0, limit);
+		},
+		async createWebhookAttempt(data) {
+			const attempt = { ...data, id: nanoid(), createdAt: new Date() };
+			webhookAttempts.push(attempt);
+			return { ...attempt };
+		},
+		async listWebhookAttempts(deliveryId) {
+			return webhookAttempts.filter((a) => a.deliveryId === deliveryId);
+		},
+
+		async acquireSchedulerLock(name, owner, expiresAt) {
+			const lock = schedulerLocks.get(name);
+			if (lock && lock.expiresAt > new Date()) {
+				return false;
+			}
+			schedulerLocks.set(name, { name, owner, expiresAt, createdAt: new Date() });
+			return true;
+		},
+		async renewSchedulerLock(name, owner, expiresAt) {
+			const lock = schedulerLocks.get(name);
+			if (lock?.owner !== owner) {
+				return false;
+			}
+			schedulerLocks.set(name, { ...lock, expiresAt });
+			return true;
+		},
+		async releaseSchedulerLock(name, owner) {
+			if (schedulerLocks.get(name)?.owner === owner) {
+				schedulerLocks.delete(name);
+			}
+		},
+
+		async getChainCheckpoint(name) {
+			const checkpoint = chainCheckpoints.get(name);
+			return checkpoint ? { ...checkpoint } : null;
+		},
+		async saveChainCheckpoint(data) {
+			const checkpoint = { ...data, updatedAt: new Date() };
+			chainCheckpoints.set(data.name, checkpoint);
+			return { ...checkpoint };
+		},
+	};
+
+	return storage;
+}
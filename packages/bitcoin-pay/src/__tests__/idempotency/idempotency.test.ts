@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createBitcoinPay } from "../../pay.js";
+import { createIdempotencyStore } from "../../idempotency/index.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const shopDescriptor =
+	"wpkh(xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8/0/*)";
+
+describe("idempotency store", () => {
+	it("should replay the stored result regardless of parameter order", async () => {
+		const store = createIdempotencyStore({
+			storage: memoryStorage(),
+			ttlSeconds: 60,
+		});
+		const execute = vi.fn(async () => ({ value: 1 }));
+
+		const first = await store.run(
+			{ scope: "op", key: "k", params: { a: 1, b: 2 } },
+			execute,
+		);
+		const second = await store.run(
+			{ scope: "op", key: "k", params: { b: 2, a: 1 } },
+			execute,
+		);
+
+		expect(second).toEqual(first);
+		expect(execute).toHaveBeenCalledTimes(1);
+	});
+
+	it("should release the key when the operation fails", async () => {
+		const store = createIdempotencyStore({
+			storage: memoryStorage(),
+			ttlSeconds: 60,
+		});
+		const request = { scope: "op", key: "k", params: {} };
+
+		await expect(
+			store.run(request, async () => {
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+		await expect(store.run(request, async () => "ok")).resolves.toBe("ok");
+	});
+
+	it("should rethrow storage failures instead of reporting a conflict", async () => {
+		const storage = memoryStorage();
+		const store = createIdempotencyStore({ storage, ttlSeconds: 60 });
+		storage.createIdempotencyRecord = async () => {
+			throw new Error("connection lost");
+		};
+
+		await expect(
+			store.run({ scope: "op", key: "k", params: {} }, async () => "ok"),
+		).rejects.toThrow("connection lost");
+	});
+
+	it("should release the key when the result cannot be stored", async () => {
+		const storage = memoryStorage();
+		const store = createIdempotencyStore({ storage, ttlSeconds: 60 });
+		const updateIdempotencyRecord = storage.updateIdempotencyRecord;
+		storage.updateIdempotencyRecord = async () => {
+			throw new Error("connection lost");
+		};
+		const request = { scope: "op", key: "k", params: {} };
+
+		await expect(store.run(request, async () => "first")).rejects.toThrow(
+			"connection lost",
+		);
+		storage.updateIdempotencyRecord = updateIdempotencyRecord;
+		await expect(store.run(request, async () => "second")).resolves.toBe(
+			"second",
+		);
+	});
+});
+
+describe("idempotent handler routes", () => {
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let key: string;
+
+	function createIntent(idempotencyKey: string, amountSats: number) {
+		return pay.handler(
+			new Request("https://example.com/api/pay/intents", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					"Idempotency-Key": idempotencyKey,
+					Authorization: `Bearer ${key}`,
+				},
+				body: JSON.stringify({ amountSats }),
+			}),
+		);
+	}
+
+	beforeEach(async () => {
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage: memoryStorage(),
+		});
+		({ key } = await pay.createApiKey({ name: "test", scopes: ["write"] }));
+	});
+
+	it("should return the original intent for a retried request", async () => {
+		const first = await createIntent("retry-1", 10_000);
+		const second = await createIntent("retry-1", 10_000);
+
+		const a = (await first.json()) as { id: string };
+		const b = (await second.json()) as { id: string };
+		expect(second.status).toBe(201);
+		expect(b.id).toBe(a.id);
+	});
+
+	it("should reject a reused key with a different body", async () => {
+		await createIntent("retry-2", 10_000);
+		const conflict = await createIntent("retry-2", 20_000);
+
+		expect(conflict.status).toBe(409);
+	});
+
+	it("should return the original magic link", async () => {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+
+		const first = await pay.createMagicLink({
+			intentId: intent.id,
+			idempotencyKey: "link-1",
+		});
+		const second = await pay.createMagicLink({
+			intentId: intent.id,
+			idempotencyKey: "link-1",
+		});
+
+		expect(second.token).toBe(first.token);
+	});
+
+	it("should not share keys between stores", async () => {
+		pay.registerStore({ id: "shop", descriptor: shopDescriptor });
+
+		const first = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			idempotencyKey: "order-1",
+		});
+		const second = await pay.createPaymentIntent({
+			storeId: "shop",
+			amountSats: 10_000,
+			idempotencyKey: "order-1",
+		});
+
+		expect(second.id).not.toBe(first.id);
+		expect(second.storeId).toBe("shop");
+	});
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from "vitest";
+import { createPluginRunner } from "../../plugins/index.js";
+import type { PluginContext } from "../../types/plugins.js";
+import type { ApiKey } from "../../types/models.js";
+
+const context = { storage: {}, options: {} } as unknown as PluginContext;
+
+describe("plugin runner", () => {
+	it("should run init before hooks", async () => {
+		const calls: string[] = [];
+		const runner = createPluginRunner(
+			[
+				{
+					id: "audit",
+					init: async () => {
+						calls.push("init");
+					},
+					hooks: {
+						onConfirmed: (data) => {
+							calls.push(`confirmed:${data.intentId}`);
+						},
+					},
+				},
+			],
+			context,
+		);
+
+		await runner.runHook("onConfirmed", { intentId: "intent_1" });
+
+		expect(calls).toEqual(["init", "confirmed:intent_1"]);
+	});
+
+	it("should isolate hook errors between plugins", async () => {
+		const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const hook = vi.fn();
+		const runner = createPluginRunner(
+			[
+				{
+					id: "broken",
+					hooks: {
+						onProcessing: () => {
+							throw new Error("boom");
+						},
+					},
+				},
+				{ id: "healthy", hooks: { onProcessing: hook } },
+			],
+			context,
+		);
+
+		await runner.runHook("onProcessing", { intentId: "intent_1" });
+
+		expect(hook).toHaveBeenCalledOnce();
+		errorSpy.mockRestore();
+	});
+
+	it("should disable a plugin whose init fails", async () => {
+		const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const hook = vi.fn();
+		const runner = createPluginRunner(
+			[
+				{
+					id: "broken",
+					init: () => {
+						throw new Error("boom");
+					},
+					hooks: { onExpired: hook },
+					endpoints: { "GET /ping": async () => ({ ok: true }) },
+				},
+			],
+			context,
+		);
+
+		await runner.runHook("onExpired", { intentId: "intent_1" });
+		const response = await runner.handleRequest(
+			new Request("http://localhost/api/pay/broken/ping"),
+			"/broken/ping",
+		);
+
+		expect(hook).not.toHaveBeenCalled();
+		expect(response?.status).toBe(503);
+		errorSpy.mockRestore();
+	});
+
+	it("should mount endpoints under the plugin id with params", async () => {
+		const runner = createPluginRunner(
+			[
+				{
+					id: "subscriptions",
+					endpoints: {
+						"GET /:id": async (_req, ctx) => ({ id: ctx.params?.id }),
+					},
+				},
+			],
+			context,
+		);
+
+		const response = await runner.handleRequest(
+			new Request("http://localhost/api/pay/subscriptions/sub_1"),
+			"/subscriptions/sub_1",
+		);
+		const missing = await runner.handleRequest(
+			new Request("http://localhost/api/pay/other/sub_1"),
+			"/other/sub_1",
+		);
+
+		expect(await response?.json()).toEqual({ id: "sub_1" });
+		expect(missing).toBeNull();
+	});
+
+	it("should require an API key for endpoints with a scope", async () => {
+		const authenticate = vi.fn(async (request: Request) => {
+			if (!request.headers.get("x-api-key")) {
+				throw Object.assign(new Error("Missing API key"), { status: 401 });
+			}
+			return { id: "key_1" } as ApiKey;
+		});
+		const runner = createPluginRunner(
+			[
+				{
+					id: "audit",
+					endpoints: {
+						"GET /log": {
+							scope: "admin",
+							handler: async (_req, ctx) => ({ keyId: ctx.apiKey?.id }),
+						},
+					},
+				},
+			],
+			context,
+			{ authenticate },
+		);
+
+		await expect(
+			runner.handleRequest(
+				new Request("http://localhost/api/pay/audit/log"),
+				"/audit/log",
+			),
+		).rejects.toThrow("Missing API key");
+		const response = await runner.handleRequest(
+			new Request("http://localhost/api/pay/audit/log", {
+				headers: { "x-api-key": "bpk_test" },
+			}),
+			"/audit/log",
+		);
+
+		expect(authenticate).toHaveBeenLastCalledWith(expect.any(Request), "admin");
+		expect(await response?.json()).toEqual({ keyId: "key_1" });
+	});
+
+	it("should reject duplicate and reserved plugin ids", () => {
+		expect(() =>
+			createPluginRunner([{ id: "a" }, { id: "a" }], context),
+		).toThrow("Duplicate plugin id");
+		expect(() => createPluginRunner([{ id: "intents" }], context)).toThrow(
+			"reserved",
+		);
+	});
+});
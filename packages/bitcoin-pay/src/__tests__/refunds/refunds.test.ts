@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as bitcoin from "bitcoinjs-lib";
+import { createRefundManager } from "../../refunds/index.js";
+import { BitcoinRPC, RPCError } from "../../watcher/rpc.js";
+import {
+	parseDescriptor,
+	deriveAddress,
+} from "../../crypto/descriptor.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const refundAddress = "bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh";
+
+async function seedOverpaidIntent(storage: StorageAdapter) {
+	const parsed = parseDescriptor(descriptor, "mainnet");
+	const derived = deriveAddress(parsed, 0);
+
+	const intent = await storage.createPaymentIntent({
+		amountSats: 100_000,
+		receivedSats: 150_000,
+		overpaidSats: 50_000,
+		status: "confirmed",
+		requiredConfs: 1,
+		expiresAt: new Date(Date.now() + 60_000),
+	});
+	const address = await storage.createDepositAddress({
+		address: derived.address,
+		derivationIndex: 0,
+		scriptPubKeyHex: derived.scriptPubKey.toString("hex"),
+	});
+	await storage.assignAddressToIntent(address.id, intent.id);
+	await storage.createTxObservation({
+		txid: "a".repeat(64),
+		vout: 0,
+		valueSats: 150_000,
+		confirmations: 1,
+		addressId: address.id,
+		scriptPubKeyHex: address.scriptPubKeyHex,
+		status: "confirmed",
+		seenAt: new Date(),
+	});
+
+	return intent;
+}
+
+describe("refund manager", () => {
+	let storage: StorageAdapter;
+	let refunds: ReturnType<typeof createRefundManager>;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+		refunds = createRefundManager({
+			storage,
+			network: bitcoin.networks.bitcoin,
+			rpc: { host: "127.0.0.1", port: 8332, username: "u", password: "p" },
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should default to refunding the overpaid amount", async () => {
+		const intent = await seedOverpaidIntent(storage);
+
+		const refund = await refunds.requestRefund({
+			intentId: intent.id,
+			refundAddress,
+			feeRate: 2,
+		});
+
+		expect(refund.status).toBe("requested");
+		expect(refund.amountSats).toBe(50_000);
+	});
+
+	it("should build and persist a refund PSBT", async () => {
+		const intent = await seedOverpaidIntent(storage);
+		const requested = await refunds.requestRefund({
+			intentId: intent.id,
+			refundAddress,
+			feeRate: 2,
+		});
+
+		const built = await refunds.buildRefund(requested.id);
+		const psbt = bitcoin.Psbt.fromBase64(built.psbtBase64 as string);
+
+		expect(built.status).toBe("built");
+		expect(built.sourceTxid).toBe("a".repeat(64));
+		expect(psbt.txOutputs[0].value).toBe(50_000);
+	});
+
+	it("should reject invalid addresses and out-of-order transitions", async () => {
+		const intent = await seedOverpaidIntent(storage);
+
+		await expect(
+			refunds.requestRefund({
+				intentId: intent.id,
+				refundAddress: "tb1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh",
+				feeRate: 2,
+			}),
+		).rejects.toThrow("Invalid refund address");
+
+		const requested = await refunds.requestRefund({
+			intentId: intent.id,
+			refundAddress,
+			feeRate: 2,
+		});
+		await expect(refunds.broadcastRefund(requested.id)).rejects.toThrow(
+			"signed before broadcast",
+		);
+	});
+
+	it("should not refund the same overpayment twice", async () => {
+		const intent = await seedOverpaidIntent(storage);
+		const first = await refunds.requestRefund({
+			intentId: intent.id,
+			refundAddress,
+			feeRate: 2,
+		});
+
+		await expect(
+			refunds.requestRefund({ intentId: intent.id, refundAddress, feeRate: 2 }),
+		).rejects.toThrow("Nothing to refund");
+		await expect(
+			refunds.requestRefund({
+				intentId: intent.id,
+				refundAddress,
+				feeRate: 2,
+				amountSats: 100_001,
+			}),
+		).rejects.toThrow("100000 sats not yet refunded");
+
+		await refunds.failRefund(first.id, "customer unreachable");
+		const retry = await refunds.requestRefund({
+			intentId: intent.id,
+			refundAddress,
+			feeRate: 2,
+		});
+		expect(retry.amountSats).toBe(50_000);
+	});
+
+	it("should find mined refunds by block without a transaction index", async () => {
+		const intent = await seedOverpaidIntent(storage);
+		const requested = await refunds.requestRefund({
+			intentId: intent.id,
+			refundAddress,
+			feeRate: 2,
+		});
+		const txid = "b".repeat(64);
+		await storage.updateRefund?.(requested.id, {
+			status: "broadcast",
+			txid,
+			broadcastAt: new Date(),
+		});
+
+		// Without -txindex only the mempool is searched by txid
+		vi.spyOn(BitcoinRPC.prototype, "getRawTransaction").mockRejectedValue(
+			new RPCError("RPC error: No such mempool transaction (code: -5)", -5),
+		);
+		vi.spyOn(BitcoinRPC.prototype, "getBlockchainInfo").mockResolvedValue({
+			blocks: 102,
+		} as Awaited<ReturnType<BitcoinRPC["getBlockchainInfo"]>>);
+		vi.spyOn(BitcoinRPC.prototype, "getBlockHash").mockImplementation(
+			async (height) => `block-${height}`,
+		);
+		const getBlock = vi
+			.spyOn(BitcoinRPC.prototype, "getBlock")
+			.mockImplementation(async (hash) => ({
+				time: Math.floor(Date.now() / 1000),
+				tx: hash === "block-101" ? [txid] : [],
+			}));
+
+		const refreshed = await refunds.refreshRefund(requested.id);
+
+		expect(refreshed.status).toBe("confirmed");
+		expect(getBlock).toHaveBeenCalledTimes(2);
+	});
+});
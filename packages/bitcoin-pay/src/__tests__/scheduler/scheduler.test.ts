@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createScheduler } from "../../scheduler/index.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+describe("scheduler", () => {
+	let storage: StorageAdapter;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+	});
+
+	it("should run each job on one instance at a time", async () => {
+		let runs = 0;
+		let finish = () => {};
+		const gate = new Promise<void>((resolve) => {
+			finish = resolve;
+		});
+		const job = {
+			name: "slow",
+			intervalMs: 60_000,
+			run: async () => {
+				runs++;
+				await gate;
+			},
+		};
+		const first = createScheduler({ storage, jobs: [job] });
+		const second = createScheduler({ storage, jobs: [job] });
+
+		const running = first.run("slow");
+		await vi.waitFor(() => expect(runs).toBe(1));
+		await expect(second.run("slow")).resolves.toBe(false);
+		finish();
+
+		await expect(running).resolves.toBe(true);
+		await expect(second.run("slow")).resolves.toBe(true);
+		expect(runs).toBe(2);
+	});
+
+	it("should keep the lock while a job outlasts its interval", async () => {
+		let finish = () => {};
+		const gate = new Promise<void>((resolve) => {
+			finish = resolve;
+		});
+		const job = { name: "long", intervalMs: 10, run: () => gate };
+		const first = createScheduler({ storage, jobs: [job], lockTtlMs: 30 });
+		const second = createScheduler({ storage, jobs: [job], lockTtlMs: 30 });
+
+		const running = first.run("long");
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		await expect(second.run("long")).resolves.toBe(false);
+		finish();
+
+		await expect(running).resolves.toBe(true);
+	});
+
+	it("should take over a lock left by a crashed instance", async () => {
+		await storage.acquireSchedulerLock?.(
+			"job",
+			"crashed",
+			new Date(Date.now() - 1000),
+		);
+		const scheduler = createScheduler({
+			storage,
+			jobs: [{ name: "job", intervalMs: 60_000, run: async () => {} }],
+		});
+
+		await expect(scheduler.run("job")).resolves.toBe(true);
+	});
+});
+
+describe("maintenance jobs", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+	});
+
+	it("should expire only overdue intents in batches", async () => {
+		const overdue = [];
+		for (let i = 0; i < 3; i++) {
+			overdue.push(
+				await pay.createPaymentIntent({
+					amountSats: 10_000,
+					expiresInMinutes: -1,
+				}),
+			);
+		}
+		const live = await pay.createPaymentIntent({ amountSats: 10_000 });
+
+		await expect(pay.expireStaleIntents(2)).resolves.toBe(3);
+		for (const intent of overdue) {
+			expect((await pay.getIntent(intent.id))?.status).toBe("expired");
+		}
+		expect((await pay.getIntent(live.id))?.status).toBe("pending");
+	});
+
+	it("should delete expired magic link tokens", async () => {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		await storage.createMagicLinkToken({
+			token: "expired-token",
+			intentId: intent.id,
+			consumed: false,
+			expiresAt: new Date(Date.now() - 1000),
+		});
+		await storage.createMagicLinkToken({
+			token: "live-token",
+			intentId: intent.id,
+			consumed: false,
+			expiresAt: new Date(Date.now() + 60_000),
+		});
+
+		await expect(pay.runScheduledJob("cleanup-magic-links")).resolves.toBe(
+			true,
+		);
+		expect(await storage.getMagicLinkToken("expired-token")).toBeNull();
+		expect(await storage.getMagicLinkToken("live-token")).not.toBeNull();
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	canTransition,
+	createIntentStateMachine,
+	InvalidTransitionError,
+	IntentStatusChangedError,
+} from "../../state-machine/index.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+function seedIntent(storage: StorageAdapter, expiresAt = new Date(Date.now() + 60_000)) {
+	return storage.createPaymentIntent({
+		amountSats: 10_000,
+		receivedSats: 0,
+		overpaidSats: 0,
+		status: "pending",
+		requiredConfs: 1,
+		expiresAt,
+	});
+}
+
+describe("intent state machine", () => {
+	let storage: StorageAdapter;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+	});
+
+	it("should define terminal and reorg transitions", () => {
+		expect(canTransition("pending", "processing")).toBe(true);
+		expect(canTransition("confirmed", "processing")).toBe(true);
+		expect(canTransition("expired", "confirmed")).toBe(false);
+		expect(canTransition("failed", "pending")).toBe(false);
+	});
+
+	it("should persist the transition and its history", async () => {
+		const machine = createIntentStateMachine(storage);
+		const intent = await seedIntent(storage);
+
+		const processing = await machine.transition(intent, "processing", {
+			reason: "payment_received",
+			actor: "watcher",
+			txid: "a".repeat(64),
+		});
+		const events = await machine.listEvents(intent.id);
+
+		expect(processing.status).toBe("processing");
+		expect(events).toHaveLength(1);
+		expect(events[0]).toMatchObject({
+			fromStatus: "pending",
+			toStatus: "processing",
+			reason: "payment_received",
+			actor: "watcher",
+			txid: "a".repeat(64),
+		});
+	});
+
+	it("should reject illegal transitions", async () => {
+		const machine = createIntentStateMachine(storage);
+		const intent = await seedIntent(storage);
+		const expired = await machine.transition(intent, "expired", {
+			reason: "expired",
+			actor: "system",
+		});
+
+		await expect(
+			machine.transition(expired, "confirmed", {
+				reason: "payment_confirmed",
+				actor: "watcher",
+			}),
+		).rejects.toBeInstanceOf(InvalidTransitionError);
+		expect((await storage.getPaymentIntent(intent.id))?.status).toBe("expired");
+	});
+
+	it("should not overwrite a status changed since the intent was read", async () => {
+		const machine = createIntentStateMachine(storage);
+		const stale = await seedIntent(storage);
+		await machine.transition(stale, "processing", {
+			reason: "payment_received",
+			actor: "watcher",
+		});
+
+		await expect(
+			machine.transition(stale, "expired", {
+				reason: "expired",
+				actor: "system",
+			}),
+		).rejects.toBeInstanceOf(IntentStatusChangedError);
+
+		// Adapters without compare-and-set re-read the status instead
+		const { updatePaymentIntentIfStatus: _, ...plain } = storage;
+		await expect(
+			createIntentStateMachine(plain).transition(stale, "expired", {
+				reason: "expired",
+				actor: "system",
+			}),
+		).rejects.toBeInstanceOf(IntentStatusChangedError);
+
+		expect((await storage.getPaymentIntent(stale.id))?.status).toBe(
+			"processing",
+		);
+		expect(await machine.listEvents(stale.id)).toHaveLength(1);
+	});
+});
+
+describe("intent timeline", () => {
+	it("should expose creation, expiry and failures through the handler", async () => {
+		const storage = memoryStorage();
+		const pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+		const { key } = await pay.createApiKey({ name: "test", scopes: ["read"] });
+
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			expiresInMinutes: -1,
+		});
+		await pay.expireStaleIntents();
+		await expect(pay.failIntent(intent.id)).rejects.toThrow(
+			"from expired to failed",
+		);
+
+		const response = await pay.handler(
+			new Request(`https://example.com/api/pay/intents/${intent.id}/events`, {
+				headers: { "x-api-key": key },
+			}),
+		);
+		const events = (await response.json()) as Array<{
+			fromStatus: string | null;
+			toStatus: string;
+		}>;
+
+		expect(response.status).toBe(200);
+		expect(events.map((e) => [e.fromStatus, e.toStatus])).toEqual([
+			[null, "pending"],
+			["pending", "expired"],
+		]);
+	});
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { UnknownStoreError } from "../../stores/index.js";
+import { deriveAddress, parseDescriptor } from "../../crypto/descriptor.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const shopDescriptor =
+	"wpkh(xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8/0/*)";
+
+describe("stores", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let onShopCreated: ReturnType<typeof vi.fn>;
+	let onCreated: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+		onShopCreated = vi.fn();
+		onCreated = vi.fn();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+			events: { onIntentCreated: onCreated },
+			stores: [
+				{
+					id: "shop",
+					descriptor: shopDescriptor,
+					confirmations: 3,
+					intentExpiryMinutes: 15,
+					events: { onIntentCreated: onShopCreated },
+				},
+			],
+		});
+	});
+
+	it("should derive each store's addresses from its own descriptor", async () => {
+		const first = await pay.createPaymentIntent({ amountSats: 10_000 });
+		const shop = await pay.createPaymentIntent({
+			storeId: "shop",
+			amountSats: 10_000,
+		});
+
+		const assigned = await pay.ensureAssigned(first.id);
+		const shopAssigned = await pay.ensureAssigned(shop.id);
+
+		const expected = deriveAddress(parseDescriptor(shopDescriptor), 0);
+		expect(shopAssigned.address).toBe(expected.address);
+		expect(shopAssigned.address).not.toBe(assigned.address);
+		expect(
+			await storage.getDepositAddressByAddress(shopAssigned.address),
+		).toMatchObject({ storeId: "shop", derivationIndex: 0 });
+		expect(await pay.getGapStatus("shop")).toMatchObject({ nextIndex: 1 });
+	});
+
+	it("should apply store settings to new intents", async () => {
+		const shop = await pay.createPaymentIntent({
+			storeId: "shop",
+			amountSats: 10_000,
+		});
+		const first = await pay.createPaymentIntent({ amountSats: 10_000 });
+
+		expect(shop).toMatchObject({ storeId: "shop", requiredConfs: 3 });
+		expect(shop.expiresAt.getTime() - shop.createdAt.getTime()).toBeLessThan(
+			16 * 60_000,
+		);
+		expect(first).toMatchObject({ storeId: "default", requiredConfs: 1 });
+	});
+
+	it("should route events to the intent's store", async () => {
+		const shop = await pay.createPaymentIntent({
+			storeId: "shop",
+			amountSats: 10_000,
+		});
+		await pay.createPaymentIntent({ amountSats: 10_000 });
+
+		expect(onShopCreated).toHaveBeenCalledTimes(1);
+		expect(onShopCreated).toHaveBeenCalledWith({
+			intentId: shop.id,
+			storeId: "shop",
+		});
+		expect(onCreated).toHaveBeenCalledTimes(2);
+	});
+
+	it("should run store handlers and plugin hooks after a handler throws", async () => {
+		const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const hook = vi.fn();
+		const onStoreCreated = vi.fn();
+		const failing = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage: memoryStorage(),
+			events: {
+				onIntentCreated: () => {
+					throw new Error("boom");
+				},
+			},
+			stores: [
+				{
+					id: "shop",
+					descriptor: shopDescriptor,
+					events: { onIntentCreated: onStoreCreated },
+				},
+			],
+			plugins: [{ id: "audit", hooks: { onIntentCreated: hook } }],
+		});
+
+		const intent = await failing.createPaymentIntent({
+			storeId: "shop",
+			amountSats: 10_000,
+		});
+
+		expect(onStoreCreated).toHaveBeenCalledOnce();
+		expect(hook).toHaveBeenCalledWith(
+			{ intentId: intent.id, storeId: "shop" },
+			expect.anything(),
+		);
+		errorSpy.mockRestore();
+	});
+
+	it("should reject unknown stores and reused descriptors", async () => {
+		await expect(
+			pay.createPaymentIntent({ storeId: "missing", amountSats: 10_000 }),
+		).rejects.toBeInstanceOf(UnknownStoreError);
+		expect(() =>
+			pay.registerStore({ id: "copy", descriptor: shopDescriptor }),
+		).toThrow('same descriptor as store "shop"');
+	});
+});
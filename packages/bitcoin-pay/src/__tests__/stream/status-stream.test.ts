@@ -0,0 +1,231 @@
+import { describe, it, expect } from "vitest";
+import {
+	createStatusBus,
+	createStatusStreamResponse,
+} from "../../stream/index.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type {
+	ChainBackend,
+	ChainBackendEvents,
+	ChainTransaction,
+} from "../../watcher/backend.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+interface StreamMessage {
+	id?: string;
+	event?: string;
+	data?: string;
+	comment?: string;
+}
+
+/**
+ * Read SSE messages until `count` have arrived or the stream ends
+ */
+async function readMessages(response: Response, count: number) {
+	const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+	const decoder = new TextDecoder();
+	const messages: StreamMessage[] = [];
+	let buffer = "";
+
+	while (messages.length < count) {
+		const { value, done } = await reader.read();
+		if (done) break;
+		buffer += decoder.decode(value, { stream: true });
+
+		const blocks = buffer.split("\n\n");
+		buffer = blocks.pop() ?? "";
+		for (const block of blocks) {
+			const message: StreamMessage = {};
+			for (const line of block.split("\n")) {
+				if (line.startsWith(":")) message.comment = line.slice(1).trim();
+				if (line.startsWith("id: ")) message.id = line.slice(4);
+				if (line.startsWith("event: ")) message.event = line.slice(7);
+				if (line.startsWith("data: ")) message.data = line.slice(6);
+			}
+			if (message.event || message.comment) messages.push(message);
+		}
+	}
+
+	await reader.cancel();
+	return messages;
+}
+
+/**
+ * Backend whose transactions are pushed by the test
+ */
+class FakeBackend implements ChainBackend {
+	events?: ChainBackendEvents;
+	txs = new Map<string, ChainTransaction>();
+
+	async start(events: ChainBackendEvents) {
+		this.events = events;
+	}
+	async stop() {}
+	async subscribe() {}
+	async unsubscribe() {}
+	async getTransaction(txid: string) {
+		return this.txs.get(txid) ?? null;
+	}
+	async getTipHeight() {
+		return 100;
+	}
+	async getConfirmations(txid: string) {
+		return this.txs.get(txid)?.confirmations ?? null;
+	}
+	async getScriptHistory() {
+		return [];
+	}
+
+	async pay(address: string, confirmations: number) {
+		const tx = {
+			txid: "e".repeat(64),
+			confirmations,
+			outputs: [
+				{ n: 0, valueSats: 10_000, scriptPubKeyHex: "", address },
+			],
+		};
+		this.txs.set(tx.txid, tx);
+		await this.events?.onTransaction(tx.txid, tx);
+	}
+}
+
+function createPay(backend?: ChainBackend) {
+	return createBitcoinPay({
+		baseURL: "https://example.com",
+		secret: "test-secret",
+		descriptor,
+		watcher: backend ? { backend } : {},
+		storage: memoryStorage(),
+	});
+}
+
+function openStream(pay: ReturnType<typeof createPay>, intentId: string) {
+	return pay.handler(
+		new Request(
+			`https://example.com/api/pay/status/stream?intentId=${intentId}`,
+		),
+	);
+}
+
+describe("status stream", () => {
+	it("should push snapshots as the intent changes", async () => {
+		const pay = createPay();
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			expiresInMinutes: -1,
+		});
+
+		const response = await pay.handler(
+			new Request(
+				`https://example.com/api/pay/status/stream?intentId=${intent.id}`,
+			),
+		);
+		expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+		const reading = readMessages(response, 2);
+		await pay.expireStaleIntents();
+		const messages = await reading;
+
+		expect(messages.map((m) => m.event)).toEqual(["status", "status"]);
+		expect(
+			messages.map((m) => JSON.parse(m.data as string)),
+		).toMatchObject([
+			{ status: "pending", trigger: "snapshot", amountSats: 10_000 },
+			{ status: "expired", trigger: "intent.expired" },
+		]);
+		expect(Number(messages[1].id)).toBeGreaterThan(Number(messages[0].id));
+	});
+
+	it("should stay open after expiry to push a late payment", async () => {
+		const backend = new FakeBackend();
+		const pay = createPay(backend);
+		await pay.startWatcher();
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			expiresInMinutes: -1,
+		});
+		const { address } = await pay.ensureAssigned(intent.id);
+		await pay.$context.watcher?.addAddress(address, intent.id);
+
+		const reading = readMessages(await openStream(pay, intent.id), 3);
+		await pay.expireStaleIntents();
+		await backend.pay(address, 0);
+		const messages = await reading;
+		await pay.stopWatcher();
+
+		expect(
+			messages.map((m) => JSON.parse(m.data as string)),
+		).toMatchObject([
+			{ status: "pending", trigger: "snapshot" },
+			{ status: "expired", trigger: "intent.expired" },
+			{ status: "paid_late", trigger: "intent.paid_late" },
+		]);
+	});
+
+	it("should push confirmation count changes", async () => {
+		const backend = new FakeBackend();
+		const pay = createPay(backend);
+		await pay.startWatcher();
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			requiredConfs: 3,
+		});
+		const { address } = await pay.ensureAssigned(intent.id);
+		await pay.$context.watcher?.addAddress(address, intent.id);
+		await backend.pay(address, 1);
+
+		const reading = readMessages(await openStream(pay, intent.id), 2);
+		await backend.pay(address, 2);
+		const messages = await reading;
+		await pay.stopWatcher();
+
+		expect(
+			messages.map((m) => JSON.parse(m.data as string)),
+		).toMatchObject([
+			{ status: "processing", confs: 1, trigger: "snapshot" },
+			{ status: "processing", confs: 2, trigger: "intent.confirmations" },
+		]);
+	});
+
+	it("should resume from Last-Event-ID with the newest missed update", async () => {
+		const pay = createPay();
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		const url = `https://example.com/api/pay/status/stream?intentId=${intent.id}`;
+
+		const [resumed] = await readMessages(
+			await pay.handler(new Request(url, { headers: { "last-event-id": "0" } })),
+			1,
+		);
+		const [fresh] = await readMessages(await pay.handler(new Request(url)), 1);
+
+		expect(JSON.parse(resumed.data as string).trigger).toBe("intent.created");
+		expect(JSON.parse(fresh.data as string).trigger).toBe("snapshot");
+		expect(fresh.id).toBe(resumed.id);
+	});
+
+	it("should reject unknown intents", async () => {
+		const response = await createPay().handler(
+			new Request("https://example.com/api/pay/status/stream?intentId=nope"),
+		);
+
+		expect(response.status).toBe(404);
+	});
+
+	it("should send heartbeats between updates", async () => {
+		const messages = await readMessages(
+			createStatusStreamResponse({
+				intentId: "intent_1",
+				bus: createStatusBus(),
+				getSnapshot: async () => ({ status: "pending" }),
+				heartbeatMs: 5,
+			}),
+			2,
+		);
+
+		expect(messages[0].event).toBe("status");
+		expect(messages[1].comment).toBe("ping");
+	});
+});
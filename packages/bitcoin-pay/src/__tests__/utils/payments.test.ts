@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { summarizePayments } from "../../utils/payments.js";
+
+describe("summarizePayments", () => {
+	const intent = { amountSats: 100_000, requiredConfs: 2 };
+
+	it("should sum outputs across transactions", () => {
+		const totals = summarizePayments(intent, [
+			{ valueSats: 40_000, confirmations: 3 },
+			{ valueSats: 25_000, confirmations: 0 },
+		]);
+
+		expect(totals.receivedSats).toBe(65_000);
+		expect(totals.confirmedSats).toBe(40_000);
+		expect(totals.remainingSats).toBe(35_000);
+	});
+
+	it("should only count outputs with the required confirmations as confirmed", () => {
+		const totals = summarizePayments(intent, [
+			{ valueSats: 60_000, confirmations: 2 },
+			{ valueSats: 40_000, confirmations: 1 },
+		]);
+
+		expect(totals.receivedSats).toBe(100_000);
+		expect(totals.confirmedSats).toBe(60_000);
+		expect(totals.remainingSats).toBe(0);
+	});
+
+	it("should leave dropped outputs out", () => {
+		const totals = summarizePayments(intent, [
+			{ valueSats: 60_000, confirmations: 0, status: "dropped" },
+			{ valueSats: 40_000, confirmations: 2, status: "confirmed" },
+		]);
+
+		expect(totals.receivedSats).toBe(40_000);
+		expect(totals.confirmedSats).toBe(40_000);
+	});
+
+	it("should never report a negative remaining amount", () => {
+		const totals = summarizePayments(intent, [
+			{ valueSats: 150_000, confirmations: 0 },
+		]);
+
+		expect(totals.remainingSats).toBe(0);
+		expect(totals.overpaidSats).toBe(50_000);
+	});
+});
@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinWatcher } from "../../watcher/index.js";
+import type {
+	ChainBackend,
+	ChainBackendEvents,
+	ChainBlock,
+	ChainTransaction,
+	WatchedScript,
+} from "../../watcher/backend.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const txid = "c".repeat(64);
+
+/**
+ * Backend fed by the test, reporting outputs by script only
+ */
+class FakeBackend implements ChainBackend {
+	events?: ChainBackendEvents;
+	scripts = new Map<string, WatchedScript>();
+	txs = new Map<string, ChainTransaction>();
+
+	async start(events: ChainBackendEvents) {
+		this.events = events;
+	}
+	async stop() {
+		this.events = undefined;
+	}
+	async subscribe(scripts: WatchedScript[]) {
+		for (const script of scripts) {
+			this.scripts.set(script.scriptPubKeyHex, script);
+		}
+	}
+	async unsubscribe(scripts: WatchedScript[]) {
+		for (const script of scripts) {
+			this.scripts.delete(script.scriptPubKeyHex);
+		}
+	}
+	async getTransaction(id: string) {
+		return this.txs.get(id) ?? null;
+	}
+	async getTipHeight() {
+		return 100;
+	}
+	async getConfirmations(id: string) {
+		return this.txs.get(id)?.confirmations ?? null;
+	}
+	async getScriptHistory(script: WatchedScript) {
+		return [...this.txs.values()]
+			.filter((tx) =>
+				tx.outputs.some((out) => out.scriptPubKeyHex === script.scriptPubKeyHex),
+			)
+			.map((tx) => tx.txid);
+	}
+}
+
+/**
+ * Fake backend that also serves blocks, one per height
+ */
+class BlockBackend extends FakeBackend {
+	blocks: ChainBlock[] = [];
+
+	mine(
+		transactions: ChainTransaction[] = [],
+		time = Math.floor(Date.now() / 1000),
+	) {
+		const height = this.blocks.length;
+		this.blocks.push({ hash: `block-${height}`, height, time, transactions });
+	}
+	async getTipHeight() {
+		return this.blocks.length - 1;
+	}
+	async getBlockHash(height: number) {
+		return this.blocks[height].hash;
+	}
+	async getBlock(hash: string) {
+		const block = this.blocks.find((b) => b.hash === hash);
+		if (!block) throw new Error(`Unknown block ${hash}`);
+		return block;
+	}
+}
+
+describe("chain backends", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let backend: FakeBackend;
+	let watcher: BitcoinWatcher;
+	const onConfirmed = vi.fn();
+
+	beforeEach(async () => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+		backend = new FakeBackend();
+		onConfirmed.mockReset();
+		watcher = new BitcoinWatcher(
+			{
+				backend,
+				storage,
+				network: bitcoin.networks.bitcoin,
+				confirmations: 1,
+			},
+			{ onConfirmed },
+		);
+	});
+
+	async function assignedIntent(requiredConfs = 1) {
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			requiredConfs,
+		});
+		const { address } = await pay.ensureAssigned(intent.id);
+		const record = await storage.getDepositAddressByAddress(address);
+		return { intentId: intent.id, script: record?.scriptPubKeyHex as string };
+	}
+
+	function pays(script: string, confirmations: number): ChainTransaction {
+		return {
+			txid,
+			confirmations,
+			outputs: [{ n: 0, valueSats: 10_000, scriptPubKeyHex: script }],
+		};
+	}
+
+	it("should subscribe assigned addresses and match outputs by script", async () => {
+		const { intentId, script } = await assignedIntent();
+		await watcher.start();
+		expect([...backend.scripts.keys()]).toEqual([script]);
+
+		backend.txs.set(txid, pays(script, 0));
+		await backend.events?.onTransaction(txid);
+		expect((await pay.getIntent(intentId))?.status).toBe("processing");
+
+		backend.txs.set(txid, pays(script, 1));
+		await backend.events?.onBlock(101);
+		expect((await pay.getIntent(intentId))?.status).toBe("confirmed");
+		expect(onConfirmed).toHaveBeenCalledWith(
+			expect.objectContaining({ intentId, txid, confirmations: 1 }),
+		);
+		expect(backend.scripts.size).toBe(0);
+		await watcher.stop();
+	});
+
+	it("should drop observations whose transaction disappears", async () => {
+		const { intentId, script } = await assignedIntent(2);
+		backend.txs.set(txid, pays(script, 1));
+		await watcher.start();
+		await watcher.scanForPayments(intentId);
+		expect(await storage.getTxObservationsByIntent(intentId)).toMatchObject([
+			{ confirmations: 1 },
+		]);
+
+		backend.txs.clear();
+		await backend.events?.onBlock(101);
+
+		expect(await storage.getTxObservationsByIntent(intentId)).toMatchObject([
+			{ confirmations: 0, status: "dropped" },
+		]);
+		await watcher.stop();
+	});
+
+	it("should return intents of dropped payments to pending until rebroadcast", async () => {
+		const { intentId, script } = await assignedIntent(2);
+		backend.txs.set(txid, pays(script, 0));
+		await watcher.start();
+		await backend.events?.onTransaction(txid);
+		expect((await pay.getIntent(intentId))?.status).toBe("processing");
+
+		backend.txs.clear();
+		await backend.events?.onBlock(101);
+		expect(await pay.getIntent(intentId)).toMatchObject({
+			status: "pending",
+			receivedSats: 0,
+		});
+		expect(await storage.listPendingTxObservations()).toEqual([]);
+
+		backend.txs.set(txid, pays(script, 0));
+		await backend.events?.onTransaction(txid);
+		expect(await pay.getIntent(intentId)).toMatchObject({
+			status: "processing",
+			receivedSats: 10_000,
+		});
+		expect(await storage.getTxObservationsByIntent(intentId)).toMatchObject([
+			{ status: "mempool" },
+		]);
+		await watcher.stop();
+	});
+
+	it("should catch up on blocks mined while stopped", async () => {
+		const blocks = new BlockBackend();
+		for (let i = 0; i <= 100; i++) blocks.mine();
+		watcher = new BitcoinWatcher(
+			{
+				backend: blocks,
+				storage,
+				network: bitcoin.networks.bitcoin,
+				confirmations: 1,
+			},
+			{ onConfirmed },
+		);
+		await watcher.start();
+		expect(await storage.getChainCheckpoint?.("watcher")).toMatchObject({
+			height: 100,
+			blockHash: "block-100",
+		});
+		await watcher.stop();
+
+		const { intentId, script } = await assignedIntent();
+		blocks.mine([pays(script, 0)]);
+		blocks.mine();
+		blocks.txs.set(txid, pays(script, 2));
+
+		await watcher.start();
+		expect((await pay.getIntent(intentId))?.status).toBe("confirmed");
+		expect(onConfirmed).toHaveBeenCalledWith(
+			expect.objectContaining({ intentId, txid, confirmations: 2 }),
+		);
+		expect(await storage.getChainCheckpoint?.("watcher")).toMatchObject({
+			height: 102,
+			blockHash: "block-102",
+		});
+		await watcher.stop();
+
+		// A checkpoint block that was reorged out is re-processed from below
+		const getBlock = vi.spyOn(blocks, "getBlock");
+		blocks.blocks[102] = {
+			...blocks.blocks[102],
+			hash: "block-102b",
+			transactions: [],
+		};
+		await watcher.start();
+		expect(getBlock.mock.calls.map(([hash]) => hash)).toEqual([
+			"block-97",
+			"block-98",
+			"block-99",
+			"block-100",
+			"block-101",
+			"block-102b",
+		]);
+		await watcher.stop();
+	});
+
+	it("should date payments found while catching up by their block", async () => {
+		const blocks = new BlockBackend();
+		for (let i = 0; i <= 100; i++) blocks.mine();
+		watcher = new BitcoinWatcher(
+			{
+				backend: blocks,
+				storage,
+				network: bitcoin.networks.bitcoin,
+				confirmations: 1,
+			},
+			{ onConfirmed },
+		);
+		await watcher.start();
+		await watcher.stop();
+
+		// Paid before expiry, but the watcher only hears of it an hour later
+		const { intentId, script } = await assignedIntent();
+		const expiresAt = new Date(Date.now() - 3_600_000);
+		await storage.updatePaymentIntent(intentId, { expiresAt });
+		const minedAt = Math.floor(expiresAt.getTime() / 1000) - 600;
+		blocks.mine([pays(script, 0)], minedAt);
+
+		await watcher.start();
+		expect((await pay.getIntent(intentId))?.status).toBe("confirmed");
+		expect(await storage.getTxObservationsByIntent(intentId)).toMatchObject([
+			{ seenAt: new Date(minedAt * 1000) },
+		]);
+		await watcher.stop();
+	});
+
+	it("should roll back payments in orphaned blocks and re-confirm them", async () => {
+		const blocks = new BlockBackend();
+		for (let i = 0; i <= 100; i++) blocks.mine();
+		const onReorg = vi.fn();
+		watcher = new BitcoinWatcher(
+			{
+				backend: blocks,
+				storage,
+				network: bitcoin.networks.bitcoin,
+				confirmations: 1,
+			},
+			{ onConfirmed, onReorg },
+		);
+		const { intentId, script } = await assignedIntent();
+		await watcher.start();
+
+		blocks.mine([pays(script, 0)]);
+		blocks.txs.set(txid, { ...pays(script, 1), blockHash: "block-101" });
+		await blocks.events?.onBlock(101);
+		expect((await pay.getIntent(intentId))?.status).toBe("confirmed");
+		expect(await storage.getTxObservationsByIntent(intentId)).toMatchObject([
+			{ blockHash: "block-101", blockHeight: 101 },
+		]);
+
+		// A competing chain without the payment overtakes block 101
+		blocks.blocks[101] = {
+			...blocks.blocks[101],
+			hash: "block-101b",
+			transactions: [],
+		};
+		blocks.mine();
+		blocks.txs.set(txid, pays(script, 0));
+		await blocks.events?.onBlock(102);
+
+		expect((await pay.getIntent(intentId))?.status).toBe("processing");
+		expect(onReorg).toHaveBeenCalledWith({
+			intentId,
+			txid,
+			blockHash: "block-101",
+			blockHeight: 101,
+			previousConfirmations: 1,
+			confirmations: 0,
+		});
+		expect(await storage.getTxObservationsByIntent(intentId)).toMatchObject([
+			{ confirmations: 0, status: "mempool", blockHash: null },
+		]);
+		expect(
+			(await pay.listIntentEvents(intentId)).map((e) => e.reason),
+		).toContain("reorg");
+
+		blocks.mine([pays(script, 0)]);
+		blocks.txs.set(txid, { ...pays(script, 1), blockHash: "block-103" });
+		await blocks.events?.onBlock(103);
+
+		expect((await pay.getIntent(intentId))?.status).toBe("confirmed");
+		expect(await storage.getTxObservationsByIntent(intentId)).toMatchObject([
+			{ blockHash: "block-103", blockHeight: 103 },
+		]);
+		await watcher.stop();
+	});
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinWatcher } from "../../watcher/index.js";
+import { CoreWalletBackend } from "../../watcher/core-wallet.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+interface MockWalletTx {
+	txid: string;
+	address: string;
+	hex: string;
+	confirmations: number;
+}
+
+/**
+ * Bitcoin Core stand-in with one wallet, answering JSON-RPC from `state`
+ */
+function createMockCore() {
+	const state = {
+		tip: 100,
+		wallets: [] as string[],
+		imports: [] as Array<{ desc: string; range?: [number, number] }>,
+		txs: new Map<string, MockWalletTx>(),
+		calls: [] as Array<{ path: string; method: string; params: unknown[] }>,
+	};
+
+	function reply(method: string, params: unknown[]): unknown {
+		switch (method) {
+			case "listwallets":
+				return state.wallets;
+			case "loadwallet":
+				throw { code: -18, message: "Path does not exist" };
+			case "createwallet":
+				state.wallets.push(params[0] as string);
+				return { name: params[0], warning: "" };
+			case "importdescriptors":
+				state.imports.push(...(params[0] as typeof state.imports));
+				return (params[0] as unknown[]).map(() => ({ success: true }));
+			case "getblockchaininfo":
+				return {
+					chain: "main",
+					blocks: state.tip,
+					bestblockhash: `block-${state.tip}`,
+				};
+			case "getblockhash":
+				return `block-${params[0]}`;
+			case "getaddressinfo":
+				return { address: params[0], ismine: false, iswatchonly: false };
+			case "listsinceblock":
+				return {
+					transactions: [...state.txs.values()].map((tx) => ({
+						...tx,
+						category: "receive",
+						amount: 0.0001,
+						vout: 0,
+					})),
+					lastblock: `block-${state.tip}`,
+				};
+			case "gettransaction": {
+				const tx = state.txs.get(params[0] as string);
+				if (!tx) {
+					throw { code: -5, message: "Invalid or non-wallet transaction id" };
+				}
+				return tx;
+			}
+			case "listreceivedbyaddress":
+				return [
+					{
+						address: params[3],
+						txids: [...state.txs.values()]
+							.filter((tx) => tx.address === params[3])
+							.map((tx) => tx.txid),
+					},
+				];
+			default:
+				throw { code: -32601, message: "Method not found" };
+		}
+	}
+
+	const server: Server = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => {
+			const { id, method, params } = JSON.parse(body);
+			state.calls.push({ path: req.url ?? "", method, params });
+			res.setHeader("Content-Type", "application/json");
+			try {
+				const result = reply(method, params);
+				res.end(JSON.stringify({ id, result, error: null }));
+			} catch (error) {
+				res.statusCode = 500;
+				res.end(JSON.stringify({ id, result: null, error }));
+			}
+		});
+	});
+
+	return { state, server };
+}
+
+describe("Core wallet backend", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let mock: ReturnType<typeof createMockCore>;
+	let backend: CoreWalletBackend;
+	let watcher: BitcoinWatcher;
+
+	beforeEach(async () => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+		mock = createMockCore();
+		await new Promise<void>((resolve) =>
+			mock.server.listen(0, "127.0.0.1", resolve),
+		);
+		const { port } = mock.server.address() as AddressInfo;
+		backend = new CoreWalletBackend({
+			rpc: { host: "127.0.0.1", port, username: "u", password: "p" },
+			descriptors: [{ desc: descriptor, range: 20 }],
+			pollIntervalMs: 60_000,
+		});
+		watcher = new BitcoinWatcher({
+			backend,
+			storage,
+			network: bitcoin.networks.bitcoin,
+			chain: "mainnet",
+			confirmations: 1,
+		});
+	});
+
+	afterEach(async () => {
+		await watcher.stop();
+		await new Promise((resolve) => mock.server.close(resolve));
+	});
+
+	async function payIntent() {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		const { address } = await pay.ensureAssigned(intent.id);
+		const tx = new bitcoin.Transaction();
+		tx.addInput(Buffer.alloc(32, 1), 0);
+		tx.addOutput(
+			bitcoin.address.toOutputScript(address, bitcoin.networks.bitcoin),
+			10_000,
+		);
+		return { intentId: intent.id, address, tx };
+	}
+
+	it("should create a watch-only wallet and import the descriptor", async () => {
+		await watcher.start();
+
+		const created = mock.state.calls.find((c) => c.method === "createwallet");
+		expect(created?.params.slice(0, 2)).toEqual(["bitcoin-pay", true]);
+		expect(mock.state.imports[0]).toMatchObject({
+			desc: descriptor,
+			range: [0, 19],
+		});
+		const walletCalls = mock.state.calls.filter(
+			(c) => c.method === "importdescriptors",
+		);
+		expect(walletCalls[0].path).toBe("/wallet/bitcoin-pay");
+	});
+
+	it("should leave the node alone when it is on another chain", async () => {
+		const testnet = new BitcoinWatcher({
+			backend,
+			storage,
+			network: bitcoin.networks.testnet,
+			chain: "testnet",
+			confirmations: 1,
+		});
+
+		await expect(testnet.start()).rejects.toThrow('network is "testnet"');
+		expect(mock.state.calls.map((c) => c.method)).toEqual([
+			"getblockchaininfo",
+		]);
+	});
+
+	it("should discover payments through listsinceblock", async () => {
+		const { intentId, address, tx } = await payIntent();
+		await watcher.start();
+
+		mock.state.txs.set(tx.getId(), {
+			txid: tx.getId(),
+			address,
+			hex: tx.toHex(),
+			confirmations: 0,
+		});
+		await backend.poll();
+		expect((await pay.getIntent(intentId))?.status).toBe("processing");
+		const since = mock.state.calls.find((c) => c.method === "listsinceblock");
+		expect(since?.params[0]).toBe("block-100");
+
+		mock.state.tip = 101;
+		mock.state.txs.set(tx.getId(), {
+			txid: tx.getId(),
+			address,
+			hex: tx.toHex(),
+			confirmations: 1,
+		});
+		await backend.poll();
+		await vi.waitFor(async () =>
+			expect((await pay.getIntent(intentId))?.status).toBe("confirmed"),
+		);
+		expect(await backend.getScriptHistory({ address, scriptPubKeyHex: "" }))
+			.toEqual([tx.getId()]);
+	});
+
+	it("should treat transactions unknown to the wallet as gone", async () => {
+		await watcher.start();
+
+		expect(await backend.getTransaction("f".repeat(64))).toBeNull();
+		expect(await backend.getConfirmations("f".repeat(64))).toBeNull();
+	});
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinWatcher } from "../../watcher/index.js";
+import type { ZMQEventHandlers } from "../../watcher/zmq.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const zmq = vi.hoisted(() => ({ handlers: undefined as unknown }));
+
+vi.mock("../../watcher/zmq.js", () => ({
+	ZMQWatcher: class {
+		constructor(_config: unknown, handlers: unknown) {
+			zmq.handlers = handlers;
+		}
+		async start() {}
+		async stop() {}
+	},
+}));
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const txid = "d".repeat(64);
+
+interface MockTx {
+	txid: string;
+	vout: Array<{
+		n: number;
+		value: number;
+		scriptPubKey: { hex: string; address: string };
+	}>;
+}
+
+/**
+ * Bitcoin Core stand-in without `-txindex`: mined transactions are only
+ * found when their block hash is given
+ */
+function createMockCore() {
+	const state = {
+		tip: 100,
+		blocks: new Map<number, MockTx[]>(),
+	};
+
+	function notFound(message: string) {
+		return { code: -5, message };
+	}
+
+	function reply(method: string, params: unknown[]): unknown {
+		switch (method) {
+			case "getblockchaininfo":
+				return { chain: "main", blocks: state.tip };
+			case "getblockhash":
+				return `block-${params[0]}`;
+			case "getblock": {
+				const height = Number(String(params[0]).replace("block-", ""));
+				return {
+					hash: params[0],
+					height,
+					time: 1_700_000_000 + height * 600,
+					tx: state.blocks.get(height) ?? [],
+				};
+			}
+			case "getblockheader": {
+				const height = Number(String(params[0]).replace("block-", ""));
+				if (height > state.tip) throw notFound("Block not found");
+				return {
+					hash: params[0],
+					height,
+					confirmations: state.tip - height + 1,
+					time: 1_700_000_000 + height * 600,
+				};
+			}
+			case "getrawtransaction": {
+				const height = Number(String(params[2]).replace("block-", ""));
+				const tx = state.blocks.get(height)?.find((t) => t.txid === params[0]);
+				if (!params[2] || !tx) {
+					throw notFound(
+						"No such mempool transaction. Use -txindex or provide a block hash to enable blockchain transaction queries.",
+					);
+				}
+				return {
+					...tx,
+					blockhash: params[2],
+					confirmations: state.tip - height + 1,
+				};
+			}
+			default:
+				throw { code: -32601, message: "Method not found" };
+		}
+	}
+
+	const server: Server = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => {
+			const { id, method, params } = JSON.parse(body);
+			res.setHeader("Content-Type", "application/json");
+			try {
+				const result = reply(method, params);
+				res.end(JSON.stringify({ id, result, error: null }));
+			} catch (error) {
+				res.statusCode = 500;
+				res.end(JSON.stringify({ id, result: null, error }));
+			}
+		});
+	});
+
+	return { state, server };
+}
+
+describe("Core backend", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let mock: ReturnType<typeof createMockCore>;
+	let watcher: BitcoinWatcher;
+	let onReorg: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+		mock = createMockCore();
+		await new Promise<void>((resolve) =>
+			mock.server.listen(0, "127.0.0.1", resolve),
+		);
+		onReorg = vi.fn();
+		watcher = new BitcoinWatcher(
+			{
+				rpc: {
+					host: "127.0.0.1",
+					port: (mock.server.address() as AddressInfo).port,
+					username: "u",
+					password: "p",
+				},
+				zmq: { host: "127.0.0.1", hashblockPort: 28332 },
+				storage,
+				network: bitcoin.networks.bitcoin,
+				confirmations: 1,
+			},
+			{ onReorg },
+		);
+	});
+
+	afterEach(async () => {
+		await watcher.stop();
+		await new Promise((resolve) => mock.server.close(resolve));
+	});
+
+	async function mine(transactions: MockTx[] = []) {
+		mock.state.tip++;
+		mock.state.blocks.set(mock.state.tip, transactions);
+		const handlers = zmq.handlers as ZMQEventHandlers;
+		await handlers.onHashBlock?.(Buffer.alloc(32), mock.state.tip);
+	}
+
+	it("should follow mined payments by block on nodes without txindex", async () => {
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			requiredConfs: 2,
+		});
+		const { address } = await pay.ensureAssigned(intent.id);
+		const record = await storage.getDepositAddressByAddress(address);
+		await watcher.start();
+
+		await mine([
+			{
+				txid,
+				vout: [
+					{
+						n: 0,
+						value: 0.0001,
+						scriptPubKey: {
+							hex: record?.scriptPubKeyHex as string,
+							address,
+						},
+					},
+				],
+			},
+		]);
+		expect((await pay.getIntent(intent.id))?.status).toBe("processing");
+
+		await mine();
+		expect((await pay.getIntent(intent.id))?.status).toBe("confirmed");
+		expect(await storage.getTxObservationsByIntent(intent.id)).toMatchObject([
+			{ confirmations: 2, blockHash: "block-101", blockHeight: 101 },
+		]);
+		expect(onReorg).not.toHaveBeenCalled();
+	});
+
+	it("should keep mined payments that Core republishes as raw transactions", async () => {
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			requiredConfs: 2,
+		});
+		const { address } = await pay.ensureAssigned(intent.id);
+		const script = bitcoin.address.toOutputScript(
+			address,
+			bitcoin.networks.bitcoin,
+		);
+		const tx = new bitcoin.Transaction();
+		tx.addInput(Buffer.alloc(32, 1), 0);
+		tx.addOutput(script, 10_000);
+		await watcher.start();
+
+		await mine([
+			{
+				txid: tx.getId(),
+				vout: [
+					{
+						n: 0,
+						value: 0.0001,
+						scriptPubKey: { hex: script.toString("hex"), address },
+					},
+				],
+			},
+		]);
+		const handlers = zmq.handlers as ZMQEventHandlers;
+		await handlers.onRawTx?.(tx.toBuffer(), 0);
+
+		expect(await storage.getTxObservationsByIntent(intent.id)).toMatchObject([
+			{ confirmations: 1, blockHash: "block-101", blockHeight: 101 },
+		]);
+		expect((await pay.getIntent(intent.id))?.status).toBe("processing");
+	});
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinWatcher } from "../../watcher/index.js";
+import {
+	ElectrumBackend,
+	electrumScriptHash,
+} from "../../watcher/electrum.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+
+/**
+ * Electrum stand-in answering from `state` and pushing notifications to
+ * every connected client
+ */
+function createMockElectrum() {
+	const state = {
+		tip: 100,
+		history: new Map<string, Array<{ tx_hash: string; height: number }>>(),
+		txs: new Map<string, string>(),
+		methods: [] as string[],
+		txError: null as { code: number; message: string } | null,
+	};
+	const sockets = new Set<Socket>();
+
+	function reply(method: string, params: unknown[]): unknown {
+		switch (method) {
+			case "server.version":
+				return ["mock", "1.4"];
+			case "server.features":
+				return {
+					genesis_hash:
+						"000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f",
+				};
+			case "blockchain.headers.subscribe":
+				return { height: state.tip, hex: "00" };
+			case "blockchain.scripthash.subscribe": {
+				const history = state.history.get(params[0] as string) ?? [];
+				return history.length ? history.map((h) => h.tx_hash).join() : null;
+			}
+			case "blockchain.block.header":
+				return "00".repeat(80);
+			case "blockchain.scripthash.unsubscribe":
+				return true;
+			case "blockchain.scripthash.get_history":
+				return state.history.get(params[0] as string) ?? [];
+			case "blockchain.transaction.get": {
+				if (state.txError) throw state.txError;
+				const hex = state.txs.get(params[0] as string);
+				if (!hex) {
+					throw {
+						code: 2,
+						message:
+							"daemon error: DaemonError({'code': -5, 'message': 'No such mempool or blockchain transaction. Use gettransaction for wallet transactions.'})",
+					};
+				}
+				return hex;
+			}
+			default:
+				throw { code: -32601, message: `unknown method ${method}` };
+		}
+	}
+
+	const server: Server = createServer((socket) => {
+		sockets.add(socket);
+		socket.on("close", () => sockets.delete(socket));
+		let buffer = "";
+		socket.on("data", (chunk) => {
+			buffer += chunk.toString();
+			const lines = buffer.split("\n");
+			buffer = lines.pop() ?? "";
+			for (const line of lines.filter(Boolean)) {
+				const { id, method, params } = JSON.parse(line);
+				state.methods.push(method);
+				try {
+					const result = reply(method, params);
+					socket.write(`${JSON.stringify({ id, result })}\n`);
+				} catch (error) {
+					socket.write(`${JSON.stringify({ id, error })}\n`);
+				}
+			}
+		});
+	});
+
+	function notify(method: string, params: unknown[]) {
+		for (const socket of sockets) {
+			socket.write(`${JSON.stringify({ method, params })}\n`);
+		}
+	}
+
+	return { state, server, notify };
+}
+
+describe("Electrum backend", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let mock: ReturnType<typeof createMockElectrum>;
+	let backend: ElectrumBackend;
+	let watcher: BitcoinWatcher;
+	const onProcessing = vi.fn();
+	const onConfirmed = vi.fn();
+
+	beforeEach(async () => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+		mock = createMockElectrum();
+		await new Promise<void>((resolve) =>
+			mock.server.listen(0, "127.0.0.1", resolve),
+		);
+		const { port } = mock.server.address() as AddressInfo;
+		backend = new ElectrumBackend({ host: "127.0.0.1", port });
+		onProcessing.mockReset();
+		onConfirmed.mockReset();
+		watcher = new BitcoinWatcher(
+			{
+				backend,
+				storage,
+				network: bitcoin.networks.bitcoin,
+				chain: "mainnet",
+				confirmations: 1,
+			},
+			{ onProcessing, onConfirmed },
+		);
+	});
+
+	afterEach(async () => {
+		await watcher.stop();
+		await new Promise((resolve) => mock.server.close(resolve));
+	});
+
+	async function assignedIntent(requiredConfs = 1) {
+		const intent = await pay.createPaymentIntent({
+			amountSats: 10_000,
+			requiredConfs,
+		});
+		const { address } = await pay.ensureAssigned(intent.id);
+		const record = await storage.getDepositAddressByAddress(address);
+		const script = record?.scriptPubKeyHex as string;
+
+		const tx = new bitcoin.Transaction();
+		tx.addInput(Buffer.alloc(32, 1), 0);
+		tx.addOutput(Buffer.from(script, "hex"), 10_000);
+		mock.state.txs.set(tx.getId(), tx.toHex());
+		return {
+			intentId: intent.id,
+			scriptHash: electrumScriptHash(script),
+			txid: tx.getId(),
+		};
+	}
+
+	it("should process payments announced through script hash notifications", async () => {
+		const { intentId, scriptHash, txid } = await assignedIntent();
+		await watcher.start();
+		expect(mock.state.methods).toContain("blockchain.scripthash.subscribe");
+
+		mock.state.history.set(scriptHash, [{ tx_hash: txid, height: 0 }]);
+		mock.notify("blockchain.scripthash.subscribe", [scriptHash, "status-1"]);
+		await vi.waitFor(async () =>
+			expect((await pay.getIntent(intentId))?.status).toBe("processing"),
+		);
+		expect(onProcessing).toHaveBeenCalledWith(
+			expect.objectContaining({ intentId, txid, valueSats: 10_000 }),
+		);
+
+		mock.state.tip = 101;
+		mock.state.history.set(scriptHash, [{ tx_hash: txid, height: 101 }]);
+		mock.notify("blockchain.headers.subscribe", [{ height: 101, hex: "00" }]);
+		await vi.waitFor(async () =>
+			expect((await pay.getIntent(intentId))?.status).toBe("confirmed"),
+		);
+		expect(onConfirmed).toHaveBeenCalledWith(
+			expect.objectContaining({ intentId, txid, confirmations: 1 }),
+		);
+	});
+
+	it("should report transactions the server no longer knows", async () => {
+		const { scriptHash, txid } = await assignedIntent(6);
+		mock.state.history.set(scriptHash, [{ tx_hash: txid, height: 100 }]);
+		await watcher.start();
+
+		expect(await backend.getConfirmations(txid)).toBe(1);
+		expect(await backend.getChain()).toBe("main");
+
+		mock.state.history.set(scriptHash, []);
+		mock.state.txs.clear();
+		mock.notify("blockchain.headers.subscribe", [{ height: 101, hex: "00" }]);
+		await vi.waitFor(async () =>
+			expect(await backend.getConfirmations(txid)).toBeNull(),
+		);
+		expect(await backend.getTransaction(txid)).toBeNull();
+	});
+
+	it("should rethrow server errors other than unknown transactions", async () => {
+		const { txid } = await assignedIntent();
+		await watcher.start();
+		mock.state.txError = { code: -101, message: "excessive resource usage" };
+
+		await expect(backend.getTransaction(txid)).rejects.toThrow(
+			"excessive resource usage",
+		);
+		await expect(backend.getConfirmations(txid)).rejects.toThrow(
+			"excessive resource usage",
+		);
+	});
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinWatcher } from "../../watcher/index.js";
+import { EsploraBackend } from "../../watcher/esplora.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const txid = "d".repeat(64);
+
+/**
+ * Minimal Esplora stand-in serving one transaction to one address
+ */
+function createMockEsplora() {
+	const state = {
+		tip: 100,
+		address: "",
+		script: "",
+		tx: null as null | { blockHeight: number | null },
+		requests: [] as string[],
+	};
+
+	function txJson() {
+		const status =
+			typeof state.tx?.blockHeight === "number"
+				? { confirmed: true, block_height: state.tx.blockHeight }
+				: { confirmed: false };
+		return {
+			txid,
+			vout: [
+				{
+					scriptpubkey: state.script,
+					scriptpubkey_address: state.address,
+					value: 10_000,
+				},
+			],
+			status,
+		};
+	}
+
+	const server = createServer((req, res) => {
+		const url = req.url ?? "";
+		state.requests.push(url);
+		const json = (body: unknown, headers: Record<string, string> = {}) => {
+			res.writeHead(200, { "content-type": "application/json", ...headers });
+			res.end(JSON.stringify(body));
+		};
+
+		if (url === "/blocks/tip/height") {
+			res.end(String(state.tip));
+		} else if (url === `/address/${state.address}/txs`) {
+			const body = state.tx ? [txJson()] : [];
+			const etag = `"${JSON.stringify(body).length}-${state.tx?.blockHeight}"`;
+			if (req.headers["if-none-match"] === etag) {
+				res.writeHead(304);
+				res.end();
+			} else {
+				json(body, { etag });
+			}
+		} else if (url.startsWith("/block-height/")) {
+			res.end(`block-${url.slice("/block-height/".length)}`);
+		} else if (url === `/tx/${txid}` && state.tx) {
+			json(txJson());
+		} else if (url === `/tx/${txid}/status` && state.tx) {
+			json(txJson().status);
+		} else {
+			res.writeHead(404);
+			res.end("Not found");
+		}
+	});
+
+	return { state, server };
+}
+
+describe("Esplora backend", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let mock: ReturnType<typeof createMockEsplora>;
+	let backend: EsploraBackend;
+	let watcher: BitcoinWatcher;
+	const onProcessing = vi.fn();
+	const onConfirmed = vi.fn();
+
+	beforeEach(async () => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+		});
+		mock = createMockEsplora();
+		await new Promise<void>((resolve) =>
+			mock.server.listen(0, "127.0.0.1", resolve),
+		);
+		const { port } = mock.server.address() as AddressInfo;
+		backend = new EsploraBackend({
+			url: `http://127.0.0.1:${port}/`,
+			// Rounds are run by the tests
+			pollIntervalMs: 60_000,
+			maxRequestsPerSecond: 1000,
+		});
+		onProcessing.mockReset();
+		onConfirmed.mockReset();
+		watcher = new BitcoinWatcher(
+			{
+				backend,
+				storage,
+				network: bitcoin.networks.bitcoin,
+				confirmations: 1,
+			},
+			{ onProcessing, onConfirmed },
+		);
+	});
+
+	afterEach(async () => {
+		await watcher.stop();
+		await new Promise((resolve) => mock.server.close(resolve));
+	});
+
+	async function assignedIntent() {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		const { address } = await pay.ensureAssigned(intent.id);
+		const record = await storage.getDepositAddressByAddress(address);
+		mock.state.address = address;
+		mock.state.script = record?.scriptPubKeyHex as string;
+		return intent.id;
+	}
+
+	it("should drive intents from polled address history", async () => {
+		const intentId = await assignedIntent();
+		await watcher.start();
+
+		await backend.poll();
+		expect(onProcessing).not.toHaveBeenCalled();
+
+		mock.state.tx = { blockHeight: null };
+		await backend.poll();
+		expect((await pay.getIntent(intentId))?.status).toBe("processing");
+		expect(onProcessing).toHaveBeenCalledWith(
+			expect.objectContaining({ intentId, txid, valueSats: 10_000 }),
+		);
+
+		mock.state.tip = 101;
+		mock.state.tx = { blockHeight: 101 };
+		await backend.poll();
+		expect((await pay.getIntent(intentId))?.status).toBe("confirmed");
+		expect(onConfirmed).toHaveBeenCalledWith(
+			expect.objectContaining({ intentId, confirmations: 1 }),
+		);
+	});
+
+	it("should skip addresses the server reports unchanged", async () => {
+		await assignedIntent();
+		mock.state.tx = { blockHeight: null };
+		await watcher.start();
+		await backend.poll();
+		const fetched = mock.state.requests.filter((url) => url === `/tx/${txid}`);
+
+		await backend.poll();
+
+		expect(
+			mock.state.requests.filter((url) => url === `/tx/${txid}`),
+		).toHaveLength(fetched.length);
+	});
+
+	it("should find payments when rescanning and report missing transactions", async () => {
+		await assignedIntent();
+		mock.state.tx = { blockHeight: 100 };
+
+		expect(
+			await backend.getScriptHistory({
+				address: mock.state.address,
+				scriptPubKeyHex: mock.state.script,
+			}),
+		).toEqual([txid]);
+		expect(await backend.getConfirmations(txid)).toBe(1);
+
+		mock.state.tx = null;
+		expect(await backend.getConfirmations(txid)).toBeNull();
+		expect(await backend.getTransaction(txid)).toBeNull();
+	});
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinWatcher } from "../../watcher/index.js";
+import {
+	BitcoinRPC,
+	type BlockchainInfo,
+	type Transaction,
+} from "../../watcher/rpc.js";
+import { createBitcoinPay } from "../../pay.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const descriptor =
+	"wpkh([d34db33f/84'/0'/0']xpub6CUGRUonZSQ4TWtTMmzXdrXDtypWKiKrhko4egpiMZbpiaQL2jkwSB1icqYh2cfDfVxdx4df189oLKnC5fSwqPfgyP3hooxujYzAu3fDVmz/0/*)";
+const refundAddress = "bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh";
+const txid = "b".repeat(64);
+
+describe("late payments", () => {
+	let storage: StorageAdapter;
+	let pay: ReturnType<typeof createBitcoinPay>;
+	let onLatePayment: ReturnType<typeof vi.fn>;
+	let watcher: BitcoinWatcher;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+		pay = createBitcoinPay({
+			baseURL: "https://example.com",
+			secret: "test-secret",
+			descriptor,
+			watcher: {},
+			storage,
+			advanced: { latePaymentGraceMinutes: 5 },
+		});
+		onLatePayment = vi.fn();
+		watcher = new BitcoinWatcher(
+			{
+				zmq: {},
+				rpc: { host: "127.0.0.1", port: 8332, username: "u", password: "p" },
+				storage,
+				network: bitcoin.networks.bitcoin,
+				confirmations: 1,
+				latePaymentGraceMinutes: 5,
+			},
+			{ onLatePayment },
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	/**
+	 * Create an assigned intent that expired `minutesAgo` and pay it in full
+	 */
+	async function payAfterExpiry(minutesAgo: number, confirmations = 0) {
+		const intent = await pay.createPaymentIntent({ amountSats: 10_000 });
+		const { address } = await pay.ensureAssigned(intent.id);
+		await storage.updatePaymentIntent(intent.id, {
+			expiresAt: new Date(Date.now() - minutesAgo * 60_000),
+		});
+		await pay.expireStaleIntents();
+		await receive(intent.id, address, confirmations);
+		return intent.id;
+	}
+
+	/**
+	 * Have the node report a 10,000 sat payment to `address` and scan for it
+	 */
+	async function receive(
+		intentId: string,
+		address: string,
+		confirmations = 0,
+	) {
+		vi.spyOn(BitcoinRPC.prototype, "getAddressInfo").mockResolvedValue({
+			address,
+			ismine: false,
+			iswatchonly: true,
+		} as Awaited<ReturnType<BitcoinRPC["getAddressInfo"]>>);
+		vi.spyOn(BitcoinRPC.prototype, "listReceivedByAddress").mockResolvedValue(
+			[{ address, amount: 0.0001, confirmations, label: "", txids: [txid] }],
+		);
+		vi.spyOn(BitcoinRPC.prototype, "getBlockchainInfo").mockResolvedValue({
+			blocks: 100,
+		} as BlockchainInfo);
+		vi.spyOn(BitcoinRPC.prototype, "getRawTransaction").mockResolvedValue({
+			txid,
+			confirmations,
+			blockhash: confirmations > 0 ? "b".repeat(64) : undefined,
+			vout: [
+				{
+					n: 0,
+					value: 0.0001,
+					scriptPubKey: { address, hex: "0014" },
+				},
+			],
+		} as unknown as Transaction);
+
+		await watcher.addAddress(address, intentId);
+		await watcher.scanForPayments(intentId);
+	}
+
+	it("should accept payments inside the grace window normally", async () => {
+		const intentId = await payAfterExpiry(2);
+
+		expect((await pay.getIntent(intentId))?.status).toBe("processing");
+		expect(onLatePayment).not.toHaveBeenCalled();
+	});
+
+	it("should park payments after the grace window as paid_late", async () => {
+		const intentId = await payAfterExpiry(10);
+
+		const intent = await pay.getIntent(intentId);
+		expect(intent?.status).toBe("paid_late");
+		expect(intent?.receivedSats).toBe(10_000);
+		expect(onLatePayment).toHaveBeenCalledWith({
+			intentId,
+			txid,
+			valueSats: 10_000,
+			receivedSats: 10_000,
+		});
+		expect(
+			(await pay.listIntentEvents(intentId)).map((e) => e.toStatus),
+		).toEqual(["pending", "expired", "paid_late"]);
+	});
+
+	it("should confirm an accepted late payment", async () => {
+		const intentId = await payAfterExpiry(10, 1);
+
+		const accepted = await pay.acceptLatePayment(intentId);
+
+		expect(accepted.status).toBe("confirmed");
+		expect(accepted.confirmedAt).toBeInstanceOf(Date);
+	});
+
+	it("should refund a late payment and fail the intent", async () => {
+		const intentId = await payAfterExpiry(10);
+
+		const refund = await pay.refundLatePayment({
+			intentId,
+			refundAddress,
+			feeRate: 2,
+		});
+
+		expect(refund.amountSats).toBe(10_000);
+		expect((await pay.getIntent(intentId))?.status).toBe("failed");
+		await expect(pay.acceptLatePayment(intentId)).rejects.toThrow(
+			"no late payment",
+		);
+	});
+
+	it("should hold intents that expire partially paid for a refund", async () => {
+		const intent = await pay.createPaymentIntent({ amountSats: 20_000 });
+		const { address } = await pay.ensureAssigned(intent.id);
+		await receive(intent.id, address);
+		await storage.updatePaymentIntent(intent.id, {
+			expiresAt: new Date(Date.now() - 10 * 60_000),
+		});
+
+		await expect(pay.expireStaleIntents()).resolves.toBe(0);
+
+		expect((await pay.getIntent(intent.id))?.status).toBe("paid_late");
+		await expect(pay.acceptLatePayment(intent.id)).rejects.toThrow(
+			"does not cover",
+		);
+		const refund = await pay.refundLatePayment({
+			intentId: intent.id,
+			refundAddress,
+			feeRate: 2,
+		});
+		expect(refund.amountSats).toBe(10_000);
+		expect(
+			(await pay.listIntentEvents(intent.id)).map((e) => e.reason),
+		).toContain("expired_underpaid");
+	});
+});
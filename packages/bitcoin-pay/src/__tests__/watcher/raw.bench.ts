@@ -0,0 +1,63 @@
+import { bench, describe } from "vitest";
+import * as bitcoin from "bitcoinjs-lib";
+import { matchRawBlock, matchRawTransaction } from "../../watcher/raw.js";
+
+// A full mempool relays a few thousand transactions per block interval;
+// decode them against a store with many open invoices
+const MEMPOOL_SIZE = 5_000;
+const WATCHED_SCRIPTS = 50_000;
+
+function p2wpkh(seed: number): Buffer {
+	const hash = Buffer.alloc(20);
+	hash.writeUInt32BE(seed);
+	return Buffer.concat([Buffer.from("0014", "hex"), hash]);
+}
+
+function mempoolTx(seed: number): bitcoin.Transaction {
+	const tx = new bitcoin.Transaction();
+	tx.version = 2;
+	const prev = Buffer.alloc(32);
+	prev.writeUInt32BE(seed);
+	tx.addInput(prev, 0);
+	tx.setWitness(0, [Buffer.alloc(72, 1), Buffer.alloc(33, 2)]);
+	// Recipient and change, neither of them watched
+	tx.addOutput(p2wpkh(WATCHED_SCRIPTS + seed * 2), 50_000);
+	tx.addOutput(p2wpkh(WATCHED_SCRIPTS + seed * 2 + 1), 1_234_567);
+	return tx;
+}
+
+const scripts = new Set<string>();
+for (let i = 0; i < WATCHED_SCRIPTS; i++) {
+	scripts.add(p2wpkh(i).toString("hex"));
+}
+
+const mempool: Buffer[] = [];
+for (let i = 0; i < MEMPOOL_SIZE; i++) {
+	mempool.push(mempoolTx(i).toBuffer());
+}
+
+const block = new bitcoin.Block();
+block.version = 0x20000000;
+block.prevHash = Buffer.alloc(32);
+block.merkleRoot = Buffer.alloc(32);
+block.timestamp = 1_700_000_000;
+block.bits = 0x17030ecd;
+block.nonce = 0;
+block.transactions = mempool.map((raw) => bitcoin.Transaction.fromBuffer(raw));
+const rawBlock = block.toBuffer();
+
+const load = `${MEMPOOL_SIZE} transactions against ${WATCHED_SCRIPTS} scripts`;
+
+describe(`rawtx, ${load}`, () => {
+	bench("matchRawTransaction", () => {
+		for (const raw of mempool) {
+			matchRawTransaction(raw, scripts);
+		}
+	});
+});
+
+describe(`rawblock, ${load}`, () => {
+	bench("matchRawBlock", () => {
+		matchRawBlock(rawBlock, scripts);
+	});
+});
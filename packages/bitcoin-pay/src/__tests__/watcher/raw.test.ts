@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as bitcoin from "bitcoinjs-lib";
+import { CoreBackend } from "../../watcher/core.js";
+import { BitcoinRPC } from "../../watcher/rpc.js";
+import { matchRawBlock, matchRawTransaction } from "../../watcher/raw.js";
+import type { ChainBackendEvents } from "../../watcher/backend.js";
+import type { ZMQEventHandlers } from "../../watcher/zmq.js";
+
+const zmq = vi.hoisted(() => ({ handlers: undefined as unknown }));
+
+vi.mock("../../watcher/zmq.js", () => ({
+	ZMQWatcher: class {
+		constructor(_config: unknown, handlers: unknown) {
+			zmq.handlers = handlers;
+		}
+		async start() {}
+		async stop() {}
+	},
+}));
+
+const watched = bitcoin.address.toOutputScript(
+	"bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq",
+	bitcoin.networks.bitcoin,
+);
+
+function payTo(script: Buffer, salt: number): bitcoin.Transaction {
+	const tx = new bitcoin.Transaction();
+	tx.addInput(Buffer.alloc(32, salt), 0);
+	tx.addOutput(script, 10_000);
+	return tx;
+}
+
+function other(salt: number): bitcoin.Transaction {
+	const script = Buffer.concat([
+		Buffer.from("0014", "hex"),
+		Buffer.alloc(20, salt),
+	]);
+	return payTo(script, salt);
+}
+
+function blockOf(transactions: bitcoin.Transaction[]): bitcoin.Block {
+	const block = new bitcoin.Block();
+	block.version = 0x20000000;
+	block.prevHash = Buffer.alloc(32);
+	block.merkleRoot = Buffer.alloc(32);
+	block.timestamp = 1_700_000_000;
+	block.bits = 0x1d00ffff;
+	block.nonce = 0;
+	block.transactions = transactions;
+	return block;
+}
+
+describe("Raw ZMQ payloads", () => {
+	const scripts = new Set([watched.toString("hex")]);
+
+	it("should match transactions paying a watched script", () => {
+		const tx = payTo(watched, 1);
+
+		expect(matchRawTransaction(tx.toBuffer(), scripts)).toEqual({
+			txid: tx.getId(),
+			outputs: [
+				{ n: 0, valueSats: 10_000, scriptPubKeyHex: watched.toString("hex") },
+			],
+		});
+		expect(matchRawTransaction(other(2).toBuffer(), scripts)).toBeNull();
+		expect(matchRawTransaction(tx.toBuffer(), new Set())).toBeNull();
+	});
+
+	it("should keep only the block transactions paying a watched script", () => {
+		const tx = payTo(watched, 1);
+		const block = blockOf([other(2), tx, other(3)]);
+
+		const matched = matchRawBlock(block.toBuffer(), scripts);
+		expect(matched.hash).toBe(block.getId());
+		expect(matched.transactions.map((t) => t.txid)).toEqual([tx.getId()]);
+	});
+
+	describe("Core backend", () => {
+		let backend: CoreBackend;
+		let events: {
+			onTransaction: ReturnType<typeof vi.fn>;
+			onBlock: ReturnType<typeof vi.fn>;
+		};
+		let handlers: ZMQEventHandlers;
+
+		beforeEach(async () => {
+			vi.spyOn(BitcoinRPC.prototype, "getBlockchainInfo").mockResolvedValue({
+				chain: "main",
+				blocks: 101,
+			} as Awaited<ReturnType<BitcoinRPC["getBlockchainInfo"]>>);
+			backend = new CoreBackend({
+				rpc: { host: "127.0.0.1", port: 8332, username: "u", password: "p" },
+				zmq: { host: "127.0.0.1", rawtxPort: 28333, rawblockPort: 28332 },
+			});
+			events = { onTransaction: vi.fn(), onBlock: vi.fn() };
+			await backend.start(events as ChainBackendEvents);
+			handlers = zmq.handlers as ZMQEventHandlers;
+			await backend.subscribe([
+				{
+					address: "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq",
+					scriptPubKeyHex: watched.toString("hex"),
+				},
+			]);
+		});
+
+		afterEach(async () => {
+			await backend.stop();
+			vi.restoreAllMocks();
+		});
+
+		it("should subscribe to raw topics instead of hashes", () => {
+			expect(handlers.onHashTx).toBeUndefined();
+			expect(handlers.onHashBlock).toBeUndefined();
+		});
+
+		it("should report only mempool transactions paying a watched script", async () => {
+			const getRawTransaction = vi.spyOn(
+				BitcoinRPC.prototype,
+				"getRawTransaction",
+			);
+			const tx = payTo(watched, 1);
+			await handlers.onRawTx?.(other(2).toBuffer(), 0);
+			await handlers.onRawTx?.(tx.toBuffer(), 1);
+
+			expect(events.onTransaction).toHaveBeenCalledTimes(1);
+			expect(events.onTransaction).toHaveBeenCalledWith(tx.getId(), {
+				txid: tx.getId(),
+				confirmations: 0,
+				outputs: [
+					{ n: 0, valueSats: 10_000, scriptPubKeyHex: watched.toString("hex") },
+				],
+			});
+			expect(getRawTransaction).not.toHaveBeenCalled();
+
+			await backend.unsubscribe([
+				{ address: "", scriptPubKeyHex: watched.toString("hex") },
+			]);
+			await handlers.onRawTx?.(tx.toBuffer(), 2);
+			expect(events.onTransaction).toHaveBeenCalledTimes(1);
+		});
+
+		it("should report block payments decoded, without fetching them", async () => {
+			const getRawTransaction = vi.spyOn(
+				BitcoinRPC.prototype,
+				"getRawTransaction",
+			);
+			const tx = payTo(watched, 1);
+			const block = blockOf([other(2), tx]);
+			vi.spyOn(BitcoinRPC.prototype, "getBlockHeader").mockResolvedValue({
+				hash: block.getId(),
+				height: 101,
+				confirmations: 1,
+				time: block.timestamp,
+			});
+
+			await handlers.onRawBlock?.(block.toBuffer(), 0);
+
+			expect(events.onTransaction).toHaveBeenCalledWith(tx.getId(), {
+				txid: tx.getId(),
+				confirmations: 1,
+				blockHash: block.getId(),
+				blockHeight: 101,
+				blockTime: 1_700_000_000,
+				outputs: [
+					{ n: 0, valueSats: 10_000, scriptPubKeyHex: watched.toString("hex") },
+				],
+			});
+			expect(events.onBlock).toHaveBeenCalledWith(101);
+			expect(getRawTransaction).not.toHaveBeenCalled();
+		});
+	});
+});
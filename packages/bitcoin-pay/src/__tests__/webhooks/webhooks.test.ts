@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+	signWebhookPayload,
+	verifyWebhookSignature,
+	WEBHOOK_SIGNATURE_HEADER,
+} from "../../crypto/webhook.js";
+import { createWebhookDispatcher } from "../../webhooks/index.js";
+import { memoryStorage } from "../helpers/memory-storage.js";
+import type { StorageAdapter } from "../../types/adapter.js";
+
+const secret = "webhook-secret";
+
+describe("webhook signatures", () => {
+	it("should verify signed payloads", () => {
+		const payload = JSON.stringify({ id: "evt_1" });
+		const header = signWebhookPayload(payload, secret);
+
+		expect(verifyWebhookSignature({ payload, header, secret })).toBe(true);
+		expect(
+			verifyWebhookSignature({ payload: `${payload} `, header, secret }),
+		).toBe(false);
+		expect(
+			verifyWebhookSignature({ payload, header, secret: "other" }),
+		).toBe(false);
+	});
+
+	it("should reject stale timestamps", () => {
+		const payload = "{}";
+		const header = signWebhookPayload(
+			payload,
+			secret,
+			Math.floor(Date.now() / 1000) - 3600,
+		);
+
+		expect(verifyWebhookSignature({ payload, header, secret })).toBe(false);
+	});
+});
+
+describe("webhook dispatcher", () => {
+	let storage: StorageAdapter;
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		storage = memoryStorage();
+		fetchMock = vi.fn();
+		vi.stubGlobal("fetch", fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function dispatcher(maxAttempts = 3) {
+		return createWebhookDispatcher({
+			storage,
+			secret,
+			options: {
+				endpoints: [
+					{ url: "https://merchant.test/all" },
+					{ url: "https://merchant.test/confirmed", events: ["intent.confirmed"] },
+				],
+				maxAttempts,
+			},
+		});
+	}
+
+	it("should persist and send signed deliveries to subscribed endpoints", async () => {
+		fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+
+		const deliveries = await dispatcher().enqueue("onExpired", {
+			intentId: "intent_1",
+		});
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+		expect(deliveries.map((d) => d.url)).toEqual(["https://merchant.test/all"]);
+		const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+		const headers = init.headers as Record<string, string>;
+		expect(
+			verifyWebhookSignature({
+				payload: init.body as string,
+				header: headers[WEBHOOK_SIGNATURE_HEADER],
+				secret,
+			}),
+		).toBe(true);
+		expect(JSON.parse(init.body as string)).toMatchObject({
+			type: "intent.expired",
+			data: { intentId: "intent_1" },
+		});
+		await vi.waitFor(async () =>
+			expect((await storage.getWebhookDelivery?.(deliveries[0].id))?.status).toBe(
+				"delivered",
+			),
+		);
+	});
+
+	it("should back off, retry and give up after maxAttempts", async () => {
+		fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+		const webhooks = dispatcher(2);
+
+		const [delivery] = await webhooks.enqueue("onExpired", {
+			intentId: "intent_1",
+		});
+		await vi.waitFor(async () =>
+			expect((await webhooks.listAttempts(delivery.id)).length).toBe(1),
+		);
+
+		const afterFirst = await webhooks.getDelivery(delivery.id);
+		expect(afterFirst?.status).toBe("pending");
+		expect(afterFirst?.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+		expect(await webhooks.processDue()).toHaveLength(0);
+
+		await storage.updateWebhookDelivery?.(delivery.id, {
+			nextAttemptAt: new Date(Date.now() - 1000),
+		});
+		const [retried] = await webhooks.processDue();
+
+		expect(retried.status).toBe("failed");
+		expect(retried.lastStatusCode).toBe(500);
+		expect(await webhooks.listAttempts(delivery.id)).toHaveLength(2);
+	});
+
+	it("should replay a failed delivery", async () => {
+		fetchMock.mockResolvedValueOnce(new Response(null, { status: 500 }));
+		const webhooks = dispatcher(1);
+
+		const [delivery] = await webhooks.enqueue("onExpired", {
+			intentId: "intent_1",
+		});
+		await vi.waitFor(async () =>
+			expect((await webhooks.getDelivery(delivery.id))?.status).toBe("failed"),
+		);
+
+		fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+		const replayed = await webhooks.replay(delivery.id);
+
+		expect(replayed.status).toBe("delivered");
+		expect((await webhooks.listAttempts(delivery.id)).map((a) => a.attempt)).toEqual([
+			1, 2,
+		]);
+	});
+});
@@ -1,4 +1,4 @@
-import { eq, and, isNull, desc, asc, sql } from "drizzle-orm";
+import { eq, and, isNull, desc, asc, gte, lte, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import type { StorageAdapter } from "../../types/adapter.js";
 import type {
@@ -7,12 +7,28 @@ import type {
   TxObservation,
   MagicLinkToken,
   Customer,
+  Refund,
+  ApiKey,
+  IdempotencyRecord,
+  PaymentIntentEvent,
+  WebhookDelivery,
+  WebhookAttempt,
+  ChainCheckpoint,
 } from "../../types/models.js";
+import { DEFAULT_STORE_ID } from "../../types/models.js";
 import {
   paymentIntents,
+  paymentIntentEvents,
   depositAddresses,
   txObservations,
   magicLinkTokens,
+  refunds,
+  apiKeys,
+  idempotencyKeys,
+  webhookDeliveries,
+  webhookAttempts,
+  schedulerLocks,
+  chainCheckpoints,
   customers,
 } from "./schema.js";
 
@@ -30,7 +46,9 @@ interface DrizzleFromBuilder {
 
 interface DrizzleWhereBuilder {
   limit: (n: number) => Promise<unknown[]>;
-  orderBy: (order: unknown) => Promise<unknown[]>;
+  orderBy: (order: unknown) => Promise<unknown[]> & {
+    limit: (n: number) => Promise<unknown[]>;
+  };
 }
 
 interface DrizzleDB {
@@ -41,15 +59,67 @@ interface DrizzleDB {
       where: (condition: unknown) => Promise<unknown>;
     };
   };
+  delete: (table: unknown) => {
+    where: (condition: unknown) => Promise<unknown>;
+  };
+}
+
+/**
+ * Rows changed by an update as the driver reports them: node-postgres
+ * `rowCount`, postgres.js `count`, mysql2 `affectedRows`, better-sqlite3
+ * `changes` or libsql `rowsAffected`. Null when the driver says nothing.
+ */
+function affectedRows(result: unknown): number | null {
+  const candidates = Array.isArray(result) ? [result, result[0]] : [result];
+  for (const candidate of candidates) {
+    if (!candidate || typeof candidate !== "object") continue;
+    const counts = candidate as Record<string, unknown>;
+    for (const key of [
+      "rowCount",
+      "count",
+      "affectedRows",
+      "changes",
+      "rowsAffected",
+    ]) {
+      if (typeof counts[key] === "number") return counts[key] as number;
+    }
+  }
+  return null;
 }
 
 interface DrizzleResult {
   amountSats?: bigint | number;
+  receivedSats?: bigint | number;
+  overpaidSats?: bigint | number;
   valueSats?: bigint | number;
   metadata?: string | null;
   [key: string]: unknown;
 }
 
+function toPaymentIntent(row: DrizzleResult): PaymentIntent {
+  return {
+    ...row,
+    amountSats: Number(row.amountSats),
+    receivedSats: Number(row.receivedSats ?? 0),
+    overpaidSats: Number(row.overpaidSats ?? 0),
+  } as PaymentIntent;
+}
+
+function toRefund(row: DrizzleResult): Refund {
+  return {
+    ...row,
+    amountSats: Number(row.amountSats),
+    feeSats: row.feeSats == null ? null : Number(row.feeSats),
+  } as Refund;
+}
+
+function toApiKey(row: DrizzleResult): ApiKey {
+  return {
+    ...row,
+    scopes: String(row.scopes).split(",").filter(Boolean),
+  } as ApiKey;
+}
+
 export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
 
   return {
@@ -59,9 +129,17 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
 
       const values = {
         id,
+        storeId: data.storeId ?? DEFAULT_STORE_ID,
         customerId: data.customerId ?? null,
         email: data.email ?? null,
         amountSats: data.amountSats,
+        receivedSats: data.receivedSats ?? 0,
+        overpaidSats: data.overpaidSats ?? 0,
+        amountFiat: data.amountFiat ?? null,
+        currency: data.currency ?? null,
+        exchangeRate: data.exchangeRate ?? null,
+        rateQuotedAt: data.rateQuotedAt ?? null,
+        rateLockExpiresAt: data.rateLockExpiresAt ?? null,
         status: data.status,
         addressId: data.addressId ?? null,
         memo: data.memo ?? null,
@@ -74,11 +152,7 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
 
       await db.insert(paymentIntents).values(values);
 
-      return {
-        ...values,
-        amountSats: Number(values.amountSats),
-        requiredConfs: values.requiredConfs,
-      } as PaymentIntent;
+      return toPaymentIntent(values);
     },
 
     async getPaymentIntent(id): Promise<PaymentIntent | null> {
@@ -90,10 +164,7 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
 
       if (!result[0]) return null;
 
-      return {
-        ...result[0],
-        amountSats: Number(result[0].amountSats),
-      } as PaymentIntent;
+      return toPaymentIntent(result[0]);
     },
 
     async updatePaymentIntent(id, data): Promise<PaymentIntent> {
@@ -113,10 +184,36 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
         .where(eq(paymentIntents.id, id))
         .limit(1) as DrizzleResult[];
 
-      return {
-        ...updated[0],
-        amountSats: Number(updated[0].amountSats),
-      } as PaymentIntent;
+      return toPaymentIntent(updated[0]);
+    },
+
+    async updatePaymentIntentIfStatus(
+      id,
+      status,
+      data,
+    ): Promise<PaymentIntent | null> {
+      const result = await db
+        .update(paymentIntents)
+        .set({ ...data, updatedAt: new Date() })
+        .where(
+          and(eq(paymentIntents.id, id), eq(paymentIntents.status, status)),
+        );
+
+      const updated = await db
+        .select()
+        .from(paymentIntents)
+        .where(eq(paymentIntents.id, id))
+        .limit(1) as DrizzleResult[];
+      if (!updated[0]) return null;
+
+      const intent = toPaymentIntent(updated[0]);
+      const changed = affectedRows(result);
+      if (changed === 0) return null;
+      // Without a row count, the status written is the best evidence
+      if (changed === null && data.status && intent.status !== data.status) {
+        return null;
+      }
+      return intent;
     },
 
     async listPaymentIntentsByStatus(status): Promise<PaymentIntent[]> {
@@ -126,10 +223,48 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
         .where(eq(paymentIntents.status, status))
         .orderBy(desc(paymentIntents.createdAt)) as DrizzleResult[];
 
-      return results.map((r) => ({
-        ...r,
-        amountSats: Number(r.amountSats),
-      })) as PaymentIntent[];
+      return results.map(toPaymentIntent);
+    },
+
+    async listExpiredPaymentIntents(before, limit): Promise<PaymentIntent[]> {
+      const results = await db
+        .select()
+        .from(paymentIntents)
+        .where(
+          and(
+            eq(paymentIntents.status, "pending"),
+            lte(paymentIntents.expiresAt, before)
+          )
+        )
+        .orderBy(asc(paymentIntents.expiresAt))
+        .limit(limit) as DrizzleResult[];
+
+      return results.map(toPaymentIntent);
+    },
+
+    async createPaymentIntentEvent(data): Promise<PaymentIntentEvent> {
+      const values = {
+        id: nanoid(),
+        intentId: data.intentId,
+        fromStatus: data.fromStatus ?? null,
+        toStatus: data.toStatus,
+        reason: data.reason,
+        actor: data.actor,
+        txid: data.txid ?? null,
+        createdAt: new Date(),
+      };
+
+      await db.insert(paymentIntentEvents).values(values);
+
+      return values;
+    },
+
+    async listPaymentIntentEvents(intentId): Promise<PaymentIntentEvent[]> {
+      return await db
+        .select()
+        .from(paymentIntentEvents)
+        .where(eq(paymentIntentEvents.intentId, intentId))
+        .orderBy(asc(paymentIntentEvents.createdAt)) as PaymentIntentEvent[];
     },
 
     async createDepositAddress(data): Promise<DepositAddress> {
@@ -138,9 +273,12 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
 
       const values = {
         id,
+        storeId: data.storeId ?? DEFAULT_STORE_ID,
         address: data.address,
         derivationIndex: data.derivationIndex,
         scriptPubKeyHex: data.scriptPubKeyHex,
+        redeemScriptHex: data.redeemScriptHex ?? null,
+        witnessScriptHex: data.witnessScriptHex ?? null,
         intentId: data.intentId ?? null,
         assignedAt: data.assignedAt ?? null,
         createdAt: now,
@@ -171,11 +309,18 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
       return result[0] || null;
     },
 
-    async getUnassignedAddress(): Promise<DepositAddress | null> {
+    async getUnassignedAddress(
+      storeId = DEFAULT_STORE_ID,
+    ): Promise<DepositAddress | null> {
       const result = await db
         .select()
         .from(depositAddresses)
-        .where(isNull(depositAddresses.intentId))
+        .where(
+          and(
+            eq(depositAddresses.storeId, storeId),
+            isNull(depositAddresses.intentId),
+          ),
+        )
         .orderBy(asc(depositAddresses.derivationIndex)) as DepositAddress[];
 
       return result[0] || null;
@@ -206,10 +351,11 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
       return updated[0] as DepositAddress;
     },
 
-    async getNextDerivationIndex(): Promise<number> {
+    async getNextDerivationIndex(storeId = DEFAULT_STORE_ID): Promise<number> {
       const result = await db
         .select({ maxIndex: sql<number>`MAX(${depositAddresses.derivationIndex})` })
         .from(depositAddresses)
+        .where(eq(depositAddresses.storeId, storeId))
         .limit(1000) as { maxIndex: number | null }[];
 
       const maxIndex = result[0]?.maxIndex;
@@ -226,6 +372,63 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
       return results;
     },
 
+    async getLastUsedDerivationIndex(
+      storeId = DEFAULT_STORE_ID,
+    ): Promise<number | null> {
+      const result = await db
+        .select({ maxIndex: sql<number>`MAX(${depositAddresses.derivationIndex})` })
+        .from(depositAddresses)
+        .where(
+          and(
+            eq(depositAddresses.storeId, storeId),
+            sql`${depositAddresses.id} IN (SELECT ${txObservations.addressId} FROM ${txObservations})`
+          )
+        )
+        .limit(1) as { maxIndex: number | null }[];
+
+      return result[0]?.maxIndex ?? null;
+    },
+
+    async listRecyclableAddresses(
+      expiredBefore,
+      limit,
+    ): Promise<DepositAddress[]> {
+      return await db
+        .select()
+        .from(depositAddresses)
+        .where(
+          and(
+            sql`${depositAddresses.intentId} IN (SELECT ${paymentIntents.id} FROM ${paymentIntents} WHERE ${paymentIntents.status} = 'expired' AND ${paymentIntents.receivedSats} = 0 AND ${paymentIntents.expiresAt} < ${expiredBefore})`,
+            sql`${depositAddresses.id} NOT IN (SELECT ${txObservations.addressId} FROM ${txObservations})`
+          )
+        )
+        .orderBy(asc(depositAddresses.derivationIndex))
+        .limit(limit) as DepositAddress[];
+    },
+
+    async releaseDepositAddress(id): Promise<DepositAddress> {
+      const existing = await db
+        .select()
+        .from(depositAddresses)
+        .where(eq(depositAddresses.id, id))
+        .limit(1) as DepositAddress[];
+
+      await db
+        .update(depositAddresses)
+        .set({ intentId: null, assignedAt: null })
+        .where(eq(depositAddresses.id, id));
+
+      // The old intent keeps no claim on payments to the recycled address
+      if (existing[0]?.intentId) {
+        await db
+          .update(paymentIntents)
+          .set({ addressId: null, updatedAt: new Date() })
+          .where(eq(paymentIntents.id, existing[0].intentId));
+      }
+
+      return { ...existing[0], intentId: null, assignedAt: null };
+    },
+
     async createTxObservation(data): Promise<TxObservation> {
       const id = nanoid();
       const now = new Date();
@@ -376,6 +579,19 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
       })) as TxObservation[];
     },
 
+    async listTxObservationsSinceHeight(height): Promise<TxObservation[]> {
+      const results = await db
+        .select()
+        .from(txObservations)
+        .where(gte(txObservations.blockHeight, height))
+        .orderBy(asc(txObservations.blockHeight)) as DrizzleResult[];
+
+      return results.map((r) => ({
+        ...r,
+        valueSats: Number(r.valueSats),
+      })) as TxObservation[];
+    },
+
     async createMagicLinkToken(data): Promise<MagicLinkToken> {
       const id = nanoid();
       const now = new Date();
@@ -411,6 +627,368 @@ export function drizzleAdapter(db: DrizzleDB): StorageAdapter {
         .where(eq(magicLinkTokens.id, id));
     },
 
+    async deleteExpiredMagicLinkTokens(before): Promise<void> {
+      await db
+        .delete(magicLinkTokens)
+        .where(lte(magicLinkTokens.expiresAt, before));
+    },
+
+    async createRefund(data): Promise<Refund> {
+      const id = nanoid();
+      const now = new Date();
+
+      const values = {
+        id,
+        intentId: data.intentId,
+        status: data.status,
+        amountSats: data.amountSats,
+        refundAddress: data.refundAddress,
+        feeRate: data.feeRate,
+        feePayer: data.feePayer,
+        sourceTxid: data.sourceTxid ?? null,
+        sourceVout: data.sourceVout ?? null,
+        feeSats: data.feeSats ?? null,
+        psbtBase64: data.psbtBase64 ?? null,
+        txHex: data.txHex ?? null,
+        txid: data.txid ?? null,
+        error: data.error ?? null,
+        broadcastAt: data.broadcastAt ?? null,
+        confirmedAt: data.confirmedAt ?? null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await db.insert(refunds).values(values);
+
+      return toRefund(values);
+    },
+
+    async getRefund(id): Promise<Refund | null> {
+      const result = await db
+        .select()
+        .from(refunds)
+        .where(eq(refunds.id, id))
+        .limit(1) as DrizzleResult[];
+
+      if (!result[0]) return null;
+
+      return toRefund(result[0]);
+    },
+
+    async updateRefund(id, data): Promise<Refund> {
+      await db
+        .update(refunds)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(refunds.id, id));
+
+      const updated = await db
+        .select()
+        .from(refunds)
+        .where(eq(refunds.id, id))
+        .limit(1) as DrizzleResult[];
+
+      return toRefund(updated[0]);
+    },
+
+    async listRefundsByIntent(intentId): Promise<Refund[]> {
+      const results = await db
+        .select()
+        .from(refunds)
+        .where(eq(refunds.intentId, intentId))
+        .orderBy(desc(refunds.createdAt)) as DrizzleResult[];
+
+      return results.map(toRefund);
+    },
+
+    async createApiKey(data): Promise<ApiKey> {
+      const id = nanoid();
+      const now = new Date();
+
+      const values = {
+        id,
+        name: data.name,
+        prefix: data.prefix,
+        keyHash: data.keyHash,
+        scopes: data.scopes.join(","),
+        storeId: data.storeId ?? null,
+        lastUsedAt: data.lastUsedAt ?? null,
+        revokedAt: data.revokedAt ?? null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await db.insert(apiKeys).values(values);
+
+      return toApiKey(values);
+    },
+
+    async getApiKeyByHash(keyHash): Promise<ApiKey | null> {
+      const result = await db
+        .select()
+        .from(apiKeys)
+        .where(eq(apiKeys.keyHash, keyHash))
+        .limit(1) as DrizzleResult[];
+
+      if (!result[0]) return null;
+
+      return toApiKey(result[0]);
+    },
+
+    async updateApiKey(id, data): Promise<ApiKey> {
+      const { scopes, ...rest } = data;
+      await db
+        .update(apiKeys)
+        .set({
+          ...rest,
+          ...(scopes ? { scopes: scopes.join(",") } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(apiKeys.id, id));
+
+      const updated = await db
+        .select()
+        .from(apiKeys)
+        .where(eq(apiKeys.id, id))
+        .limit(1) as DrizzleResult[];
+
+      return toApiKey(updated[0]);
+    },
+
+    async listApiKeys(): Promise<ApiKey[]> {
+      const results = await db
+        .select()
+        .from(apiKeys)
+        .orderBy(desc(apiKeys.createdAt)) as DrizzleResult[];
+
+      return results.map(toApiKey);
+    },
+
+    async createIdempotencyRecord(data): Promise<IdempotencyRecord> {
+      const id = nanoid();
+      const now = new Date();
+
+      const values = {
+        id,
+        scope: data.scope,
+        key: data.key,
+        requestHash: data.requestHash,
+        response: data.response ?? null,
+        expiresAt: data.expiresAt,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await db.insert(idempotencyKeys).values(values);
+
+      return values;
+    },
+
+    async getIdempotencyRecord(scope, key): Promise<IdempotencyRecord | null> {
+      const result = await db
+        .select()
+        .from(idempotencyKeys)
+        .where(
+          and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key))
+        )
+        .limit(1) as IdempotencyRecord[];
+
+      return result[0] ?? null;
+    },
+
+    async updateIdempotencyRecord(id, data): Promise<IdempotencyRecord> {
+      await db
+        .update(idempotencyKeys)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(idempotencyKeys.id, id));
+
+      const updated = await db
+        .select()
+        .from(idempotencyKeys)
+        .where(eq(idempotencyKeys.id, id))
+        .limit(1) as IdempotencyRecord[];
+
+      return updated[0];
+    },
+
+    async deleteIdempotencyRecord(id): Promise<void> {
+      await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+    },
+
+    async createWebhookDelivery(data): Promise<WebhookDelivery> {
+      const id = nanoid();
+      const now = new Date();
+
+      const values = {
+        id,
+        eventId: data.eventId,
+        eventType: data.eventType,
+        url: data.url,
+        payload: data.payload,
+        status: data.status,
+        attempts: data.attempts,
+        nextAttemptAt: data.nextAttemptAt,
+        lastStatusCode: data.lastStatusCode ?? null,
+        lastError: data.lastError ?? null,
+        deliveredAt: data.deliveredAt ?? null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await db.insert(webhookDeliveries).values(values);
+
+      return values;
+    },
+
+    async getWebhookDelivery(id): Promise<WebhookDelivery | null> {
+      const result = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.id, id))
+        .limit(1) as WebhookDelivery[];
+
+      return result[0] ?? null;
+    },
+
+    async updateWebhookDelivery(id, data): Promise<WebhookDelivery> {
+      await db
+        .update(webhookDeliveries)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(webhookDeliveries.id, id));
+
+      const updated = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.id, id))
+        .limit(1) as WebhookDelivery[];
+
+      return updated[0];
+    },
+
+    async listDueWebhookDeliveries(before, limit): Promise<WebhookDelivery[]> {
+      return await db
+        .select()
+        .from(webhookDeliveries)
+        .where(
+          and(
+            eq(webhookDeliveries.status, "pending"),
+            lte(webhookDeliveries.nextAttemptAt, before)
+          )
+        )
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(limit) as WebhookDelivery[];
+    },
+
+    async createWebhookAttempt(data): Promise<WebhookAttempt> {
+      const values = {
+        id: nanoid(),
+        deliveryId: data.deliveryId,
+        attempt: data.attempt,
+        statusCode: data.statusCode ?? null,
+        error: data.error ?? null,
+        durationMs: data.durationMs,
+        createdAt: new Date(),
+      };
+
+      await db.insert(webhookAttempts).values(values);
+
+      return values;
+    },
+
+    async listWebhookAttempts(deliveryId): Promise<WebhookAttempt[]> {
+      return await db
+        .select()
+        .from(webhookAttempts)
+        .where(eq(webhookAttempts.deliveryId, deliveryId))
+        .orderBy(asc(webhookAttempts.createdAt)) as WebhookAttempt[];
+    },
+
+    async acquireSchedulerLock(name, owner, expiresAt): Promise<boolean> {
+      // Clear a lock left behind by a crashed or stalled holder
+      await db
+        .delete(schedulerLocks)
+        .where(
+          and(
+            eq(schedulerLocks.name, name),
+            lte(schedulerLocks.expiresAt, new Date())
+          )
+        );
+
+      try {
+        await db
+          .insert(schedulerLocks)
+          .values({ name, owner, expiresAt, createdAt: new Date() });
+        return true;
+      } catch (err) {
+        // The primary key rejects a second holder
+        const held = await db
+          .select()
+          .from(schedulerLocks)
+          .where(eq(schedulerLocks.name, name))
+          .limit(1);
+        if (held.length > 0) return false;
+        throw err;
+      }
+    },
+
+    async renewSchedulerLock(name, owner, expiresAt): Promise<boolean> {
+      const result = await db
+        .update(schedulerLocks)
+        .set({ expiresAt })
+        .where(
+          and(eq(schedulerLocks.name, name), eq(schedulerLocks.owner, owner))
+        );
+      const count = affectedRows(result);
+      if (count !== null) return count > 0;
+
+      // Drivers that do not report affected rows: check the holder instead
+      const held = await db
+        .select()
+        .from(schedulerLocks)
+        .where(
+          and(eq(schedulerLocks.name, name), eq(schedulerLocks.owner, owner))
+        )
+        .limit(1);
+      return held.length > 0;
+    },
+
+    async releaseSchedulerLock(name, owner): Promise<void> {
+      await db
+        .delete(schedulerLocks)
+        .where(
+          and(eq(schedulerLocks.name, name), eq(schedulerLocks.owner, owner))
+        );
+    },
+
+    async getChainCheckpoint(name): Promise<ChainCheckpoint | null> {
+      const result = await db
+        .select()
+        .from(chainCheckpoints)
+        .where(eq(chainCheckpoints.name, name))
+        .limit(1);
+
+      return (result[0] as ChainCheckpoint) || null;
+    },
+
+    async saveChainCheckpoint(data): Promise<ChainCheckpoint> {
+      const checkpoint = { ...data, updatedAt: new Date() };
+      const existing = await db
+        .select()
+        .from(chainCheckpoints)
+        .where(eq(chainCheckpoints.name, data.name))
+        .limit(1);
+
+      if (existing[0]) {
+        await db
+          .update(chainCheckpoints)
+          .set(checkpoint)
+          .where(eq(chainCheckpoints.name, data.name));
+      } else {
+        await db.insert(chainCheckpoints).values(checkpoint);
+      }
+
+      return checkpoint;
+    },
+
     async createCustomer(data): Promise<Customer> {
       const id = nanoid();
       const now = new Date();
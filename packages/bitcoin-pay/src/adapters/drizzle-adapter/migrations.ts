@@ -28,9 +28,17 @@ async function runPgMigrations(db: DrizzleDB): Promise<void> {
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_payment_intents (
       id TEXT PRIMARY KEY,
+      store_id TEXT NOT NULL DEFAULT 'default',
       customer_id TEXT,
       email TEXT,
       amount_sats BIGINT NOT NULL,
+      received_sats BIGINT NOT NULL DEFAULT 0,
+      overpaid_sats BIGINT NOT NULL DEFAULT 0,
+      amount_fiat DOUBLE PRECISION,
+      currency TEXT,
+      exchange_rate DOUBLE PRECISION,
+      rate_quoted_at TIMESTAMP,
+      rate_lock_expires_at TIMESTAMP,
       status TEXT NOT NULL,
       address_id TEXT,
       memo TEXT,
@@ -62,12 +70,20 @@ async function runPgMigrations(db: DrizzleDB): Promise<void> {
     ON bitcoin_pay_payment_intents(expires_at);
   `);
 
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_payment_intents_store
+    ON bitcoin_pay_payment_intents(store_id);
+  `);
+
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_deposit_addresses (
       id TEXT PRIMARY KEY,
+      store_id TEXT NOT NULL DEFAULT 'default',
       address TEXT NOT NULL UNIQUE,
       derivation_index INTEGER NOT NULL,
       script_pub_key_hex TEXT NOT NULL,
+      redeem_script_hex TEXT,
+      witness_script_hex TEXT,
       intent_id TEXT,
       assigned_at TIMESTAMP,
       created_at TIMESTAMP NOT NULL DEFAULT NOW()
@@ -89,6 +105,11 @@ async function runPgMigrations(db: DrizzleDB): Promise<void> {
     ON bitcoin_pay_deposit_addresses(derivation_index);
   `);
 
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_deposit_addresses_store_derivation
+    ON bitcoin_pay_deposit_addresses(store_id, derivation_index);
+  `);
+
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_tx_observations (
       id TEXT PRIMARY KEY,
@@ -99,11 +120,18 @@ async function runPgMigrations(db: DrizzleDB): Promise<void> {
       address_id TEXT NOT NULL,
       script_pub_key_hex TEXT NOT NULL,
       status TEXT NOT NULL,
+      block_hash TEXT,
+      block_height INTEGER,
       seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
       updated_at TIMESTAMP NOT NULL DEFAULT NOW()
     );
   `);
 
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_tx_observations_block_height
+    ON bitcoin_pay_tx_observations(block_height);
+  `);
+
   await db.execute(sql`
     CREATE INDEX IF NOT EXISTS idx_tx_observations_txid_vout
     ON bitcoin_pay_tx_observations(txid, vout);
@@ -140,6 +168,158 @@ async function runPgMigrations(db: DrizzleDB): Promise<void> {
     ON bitcoin_pay_magic_link_tokens(intent_id);
   `);
 
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_refunds (
+      id TEXT PRIMARY KEY,
+      intent_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      amount_sats BIGINT NOT NULL,
+      refund_address TEXT NOT NULL,
+      fee_rate DOUBLE PRECISION NOT NULL,
+      fee_payer TEXT NOT NULL,
+      source_txid TEXT,
+      source_vout INTEGER,
+      fee_sats BIGINT,
+      psbt_base64 TEXT,
+      tx_hex TEXT,
+      txid TEXT,
+      error TEXT,
+      broadcast_at TIMESTAMP,
+      confirmed_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_refunds_intent
+    ON bitcoin_pay_refunds(intent_id);
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_refunds_status
+    ON bitcoin_pay_refunds(status);
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_api_keys (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      prefix TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      scopes TEXT NOT NULL,
+      store_id TEXT,
+      last_used_at TIMESTAMP,
+      revoked_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_api_keys_key_hash
+    ON bitcoin_pay_api_keys(key_hash);
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_idempotency_keys (
+      id TEXT PRIMARY KEY,
+      scope TEXT NOT NULL,
+      idempotency_key TEXT NOT NULL,
+      request_hash TEXT NOT NULL,
+      response TEXT,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_idempotency_keys_scope_key
+    ON bitcoin_pay_idempotency_keys(scope, idempotency_key);
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_payment_intent_events (
+      id TEXT PRIMARY KEY,
+      intent_id TEXT NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      txid TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_payment_intent_events_intent
+    ON bitcoin_pay_payment_intent_events(intent_id);
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      url TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP NOT NULL,
+      last_status_code INTEGER,
+      last_error TEXT,
+      delivered_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+    ON bitcoin_pay_webhook_deliveries(status, next_attempt_at);
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event
+    ON bitcoin_pay_webhook_deliveries(event_id);
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_webhook_attempts (
+      id TEXT PRIMARY KEY,
+      delivery_id TEXT NOT NULL,
+      attempt INTEGER NOT NULL,
+      status_code INTEGER,
+      error TEXT,
+      duration_ms INTEGER NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery
+    ON bitcoin_pay_webhook_attempts(delivery_id);
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_scheduler_locks (
+      name TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_chain_checkpoints (
+      name TEXT PRIMARY KEY,
+      height INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_customers (
       id TEXT PRIMARY KEY,
@@ -160,9 +340,17 @@ async function runMySqlMigrations(db: DrizzleDB): Promise<void> {
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_payment_intents (
       id VARCHAR(255) PRIMARY KEY,
+      store_id VARCHAR(255) NOT NULL DEFAULT 'default',
       customer_id VARCHAR(255),
       email VARCHAR(255),
       amount_sats BIGINT NOT NULL,
+      received_sats BIGINT NOT NULL DEFAULT 0,
+      overpaid_sats BIGINT NOT NULL DEFAULT 0,
+      amount_fiat DOUBLE,
+      currency VARCHAR(10),
+      exchange_rate DOUBLE,
+      rate_quoted_at TIMESTAMP NULL,
+      rate_lock_expires_at TIMESTAMP NULL,
       status VARCHAR(50) NOT NULL,
       address_id VARCHAR(255),
       memo TEXT,
@@ -174,22 +362,27 @@ async function runMySqlMigrations(db: DrizzleDB): Promise<void> {
       INDEX idx_payment_intents_status (status),
       INDEX idx_payment_intents_customer (customer_id),
       INDEX idx_payment_intents_email (email),
-      INDEX idx_payment_intents_expires_at (expires_at)
+      INDEX idx_payment_intents_expires_at (expires_at),
+      INDEX idx_payment_intents_store (store_id)
     );
   `);
 
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_deposit_addresses (
       id VARCHAR(255) PRIMARY KEY,
+      store_id VARCHAR(255) NOT NULL DEFAULT 'default',
       address VARCHAR(255) NOT NULL UNIQUE,
       derivation_index INT NOT NULL,
       script_pub_key_hex TEXT NOT NULL,
+      redeem_script_hex TEXT,
+      witness_script_hex TEXT,
       intent_id VARCHAR(255),
       assigned_at TIMESTAMP NULL,
       created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
       INDEX idx_deposit_addresses_address (address),
       INDEX idx_deposit_addresses_intent (intent_id),
-      INDEX idx_deposit_addresses_derivation (derivation_index)
+      INDEX idx_deposit_addresses_derivation (derivation_index),
+      INDEX idx_deposit_addresses_store_derivation (store_id, derivation_index)
     );
   `);
 
@@ -203,11 +396,14 @@ async function runMySqlMigrations(db: DrizzleDB): Promise<void> {
       address_id VARCHAR(255) NOT NULL,
       script_pub_key_hex TEXT NOT NULL,
       status VARCHAR(50) NOT NULL,
+      block_hash VARCHAR(64),
+      block_height INT,
       seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
       INDEX idx_tx_observations_txid_vout (txid, vout),
       INDEX idx_tx_observations_address (address_id),
-      INDEX idx_tx_observations_status (status)
+      INDEX idx_tx_observations_status (status),
+      INDEX idx_tx_observations_block_height (block_height)
     );
   `);
 
@@ -224,6 +420,126 @@ async function runMySqlMigrations(db: DrizzleDB): Promise<void> {
     );
   `);
 
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_refunds (
+      id VARCHAR(255) PRIMARY KEY,
+      intent_id VARCHAR(255) NOT NULL,
+      status VARCHAR(50) NOT NULL,
+      amount_sats BIGINT NOT NULL,
+      refund_address VARCHAR(255) NOT NULL,
+      fee_rate DOUBLE NOT NULL,
+      fee_payer VARCHAR(50) NOT NULL,
+      source_txid VARCHAR(255),
+      source_vout INT,
+      fee_sats BIGINT,
+      psbt_base64 TEXT,
+      tx_hex TEXT,
+      txid VARCHAR(255),
+      error TEXT,
+      broadcast_at TIMESTAMP NULL,
+      confirmed_at TIMESTAMP NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_refunds_intent (intent_id),
+      INDEX idx_refunds_status (status)
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_api_keys (
+      id VARCHAR(255) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      prefix VARCHAR(50) NOT NULL,
+      key_hash VARCHAR(64) NOT NULL UNIQUE,
+      scopes VARCHAR(255) NOT NULL,
+      store_id VARCHAR(255),
+      last_used_at TIMESTAMP NULL,
+      revoked_at TIMESTAMP NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_api_keys_key_hash (key_hash)
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_idempotency_keys (
+      id VARCHAR(255) PRIMARY KEY,
+      scope VARCHAR(100) NOT NULL,
+      idempotency_key VARCHAR(255) NOT NULL,
+      request_hash VARCHAR(64) NOT NULL,
+      response TEXT,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE INDEX idx_idempotency_keys_scope_key (scope, idempotency_key)
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_payment_intent_events (
+      id VARCHAR(255) PRIMARY KEY,
+      intent_id VARCHAR(255) NOT NULL,
+      from_status VARCHAR(50),
+      to_status VARCHAR(50) NOT NULL,
+      reason VARCHAR(255) NOT NULL,
+      actor VARCHAR(50) NOT NULL,
+      txid VARCHAR(255),
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_payment_intent_events_intent (intent_id)
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_webhook_deliveries (
+      id VARCHAR(255) PRIMARY KEY,
+      event_id VARCHAR(255) NOT NULL,
+      event_type VARCHAR(100) NOT NULL,
+      url TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status VARCHAR(50) NOT NULL,
+      attempts INT NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP NOT NULL,
+      last_status_code INT,
+      last_error TEXT,
+      delivered_at TIMESTAMP NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_webhook_deliveries_due (status, next_attempt_at),
+      INDEX idx_webhook_deliveries_event (event_id)
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_webhook_attempts (
+      id VARCHAR(255) PRIMARY KEY,
+      delivery_id VARCHAR(255) NOT NULL,
+      attempt INT NOT NULL,
+      status_code INT,
+      error TEXT,
+      duration_ms INT NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_webhook_attempts_delivery (delivery_id)
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_scheduler_locks (
+      name VARCHAR(255) PRIMARY KEY,
+      owner VARCHAR(255) NOT NULL,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_chain_checkpoints (
+      name VARCHAR(255) PRIMARY KEY,
+      height INT NOT NULL,
+      block_hash VARCHAR(64) NOT NULL,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_customers (
       id VARCHAR(255) PRIMARY KEY,
@@ -244,9 +560,17 @@ async function runSqliteMigrations(db: DrizzleDB): Promise<void> {
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_payment_intents (
       id TEXT PRIMARY KEY,
+      store_id TEXT NOT NULL DEFAULT 'default',
       customer_id TEXT,
       email TEXT,
       amount_sats INTEGER NOT NULL,
+      received_sats INTEGER NOT NULL DEFAULT 0,
+      overpaid_sats INTEGER NOT NULL DEFAULT 0,
+      amount_fiat REAL,
+      currency TEXT,
+      exchange_rate REAL,
+      rate_quoted_at INTEGER,
+      rate_lock_expires_at INTEGER,
       status TEXT NOT NULL,
       address_id TEXT,
       memo TEXT,
@@ -278,12 +602,20 @@ async function runSqliteMigrations(db: DrizzleDB): Promise<void> {
     ON bitcoin_pay_payment_intents(expires_at);
   `);
 
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_payment_intents_store
+    ON bitcoin_pay_payment_intents(store_id);
+  `);
+
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_deposit_addresses (
       id TEXT PRIMARY KEY,
+      store_id TEXT NOT NULL DEFAULT 'default',
       address TEXT NOT NULL UNIQUE,
       derivation_index INTEGER NOT NULL,
       script_pub_key_hex TEXT NOT NULL,
+      redeem_script_hex TEXT,
+      witness_script_hex TEXT,
       intent_id TEXT,
       assigned_at INTEGER,
       created_at INTEGER NOT NULL
@@ -305,6 +637,11 @@ async function runSqliteMigrations(db: DrizzleDB): Promise<void> {
     ON bitcoin_pay_deposit_addresses(derivation_index);
   `);
 
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_deposit_addresses_store_derivation
+    ON bitcoin_pay_deposit_addresses(store_id, derivation_index);
+  `);
+
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_tx_observations (
       id TEXT PRIMARY KEY,
@@ -315,11 +652,18 @@ async function runSqliteMigrations(db: DrizzleDB): Promise<void> {
       address_id TEXT NOT NULL,
       script_pub_key_hex TEXT NOT NULL,
       status TEXT NOT NULL,
+      block_hash TEXT,
+      block_height INTEGER,
       seen_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     );
   `);
 
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_tx_observations_block_height
+    ON bitcoin_pay_tx_observations(block_height);
+  `);
+
   await db.run(sql`
     CREATE INDEX IF NOT EXISTS idx_tx_observations_txid_vout
     ON bitcoin_pay_tx_observations(txid, vout);
@@ -356,6 +700,158 @@ async function runSqliteMigrations(db: DrizzleDB): Promise<void> {
     ON bitcoin_pay_magic_link_tokens(intent_id);
   `);
 
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_refunds (
+      id TEXT PRIMARY KEY,
+      intent_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      amount_sats INTEGER NOT NULL,
+      refund_address TEXT NOT NULL,
+      fee_rate REAL NOT NULL,
+      fee_payer TEXT NOT NULL,
+      source_txid TEXT,
+      source_vout INTEGER,
+      fee_sats INTEGER,
+      psbt_base64 TEXT,
+      tx_hex TEXT,
+      txid TEXT,
+      error TEXT,
+      broadcast_at INTEGER,
+      confirmed_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_refunds_intent
+    ON bitcoin_pay_refunds(intent_id);
+  `);
+
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_refunds_status
+    ON bitcoin_pay_refunds(status);
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_api_keys (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      prefix TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      scopes TEXT NOT NULL,
+      store_id TEXT,
+      last_used_at INTEGER,
+      revoked_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_api_keys_key_hash
+    ON bitcoin_pay_api_keys(key_hash);
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_idempotency_keys (
+      id TEXT PRIMARY KEY,
+      scope TEXT NOT NULL,
+      idempotency_key TEXT NOT NULL,
+      request_hash TEXT NOT NULL,
+      response TEXT,
+      expires_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  await db.run(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_idempotency_keys_scope_key
+    ON bitcoin_pay_idempotency_keys(scope, idempotency_key);
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_payment_intent_events (
+      id TEXT PRIMARY KEY,
+      intent_id TEXT NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      txid TEXT,
+      created_at INTEGER NOT NULL
+    );
+  `);
+
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_payment_intent_events_intent
+    ON bitcoin_pay_payment_intent_events(intent_id);
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      url TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER NOT NULL,
+      last_status_code INTEGER,
+      last_error TEXT,
+      delivered_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+    ON bitcoin_pay_webhook_deliveries(status, next_attempt_at);
+  `);
+
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event
+    ON bitcoin_pay_webhook_deliveries(event_id);
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_webhook_attempts (
+      id TEXT PRIMARY KEY,
+      delivery_id TEXT NOT NULL,
+      attempt INTEGER NOT NULL,
+      status_code INTEGER,
+      error TEXT,
+      duration_ms INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `);
+
+  await db.run(sql`
+    CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery
+    ON bitcoin_pay_webhook_attempts(delivery_id);
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_scheduler_locks (
+      name TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS bitcoin_pay_chain_checkpoints (
+      name TEXT PRIMARY KEY,
+      height INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS bitcoin_pay_customers (
       id TEXT PRIMARY KEY,
@@ -1,12 +1,29 @@
-import { pgTable, text, integer, timestamp, bigint, index } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  integer,
+  timestamp,
+  bigint,
+  doublePrecision,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
 
 export const paymentIntents = pgTable(
   "bitcoin_pay_payment_intents",
   {
     id: text("id").primaryKey(),
+    storeId: text("store_id").notNull().default("default"),
     customerId: text("customer_id"),
     email: text("email"),
     amountSats: bigint("amount_sats", { mode: "number" }).notNull(),
+    receivedSats: bigint("received_sats", { mode: "number" }).notNull().default(0),
+    overpaidSats: bigint("overpaid_sats", { mode: "number" }).notNull().default(0),
+    amountFiat: doublePrecision("amount_fiat"),
+    currency: text("currency"),
+    exchangeRate: doublePrecision("exchange_rate"),
+    rateQuotedAt: timestamp("rate_quoted_at"),
+    rateLockExpiresAt: timestamp("rate_lock_expires_at"),
     status: text("status").notNull(),
     addressId: text("address_id"),
     memo: text("memo"),
@@ -21,6 +38,24 @@ export const paymentIntents = pgTable(
     customerIdx: index("idx_payment_intents_customer").on(table.customerId),
     emailIdx: index("idx_payment_intents_email").on(table.email),
     expiresAtIdx: index("idx_payment_intents_expires_at").on(table.expiresAt),
+    storeIdx: index("idx_payment_intents_store").on(table.storeId),
+  }),
+);
+
+export const paymentIntentEvents = pgTable(
+  "bitcoin_pay_payment_intent_events",
+  {
+    id: text("id").primaryKey(),
+    intentId: text("intent_id").notNull(),
+    fromStatus: text("from_status"),
+    toStatus: text("to_status").notNull(),
+    reason: text("reason").notNull(),
+    actor: text("actor").notNull(),
+    txid: text("txid"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    intentIdx: index("idx_payment_intent_events_intent").on(table.intentId),
   }),
 );
 
@@ -28,9 +63,12 @@ export const depositAddresses = pgTable(
   "bitcoin_pay_deposit_addresses",
   {
     id: text("id").primaryKey(),
+    storeId: text("store_id").notNull().default("default"),
     address: text("address").notNull().unique(),
     derivationIndex: integer("derivation_index").notNull(),
     scriptPubKeyHex: text("script_pub_key_hex").notNull(),
+    redeemScriptHex: text("redeem_script_hex"),
+    witnessScriptHex: text("witness_script_hex"),
     intentId: text("intent_id"),
     assignedAt: timestamp("assigned_at"),
     createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -39,6 +77,10 @@ export const depositAddresses = pgTable(
     addressIdx: index("idx_deposit_addresses_address").on(table.address),
     intentIdx: index("idx_deposit_addresses_intent").on(table.intentId),
     derivationIdx: index("idx_deposit_addresses_derivation").on(table.derivationIndex),
+    storeDerivationIdx: index("idx_deposit_addresses_store_derivation").on(
+      table.storeId,
+      table.derivationIndex,
+    ),
   }),
 );
 
@@ -53,6 +95,8 @@ export const txObservations = pgTable(
     addressId: text("address_id").notNull(),
     scriptPubKeyHex: text("script_pub_key_hex").notNull(),
     status: text("status").notNull(),
+    blockHash: text("block_hash"),
+    blockHeight: integer("block_height"),
     seenAt: timestamp("seen_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
   },
@@ -60,6 +104,9 @@ export const txObservations = pgTable(
     txidVoutIdx: index("idx_tx_observations_txid_vout").on(table.txid, table.vout),
     addressIdx: index("idx_tx_observations_address").on(table.addressId),
     statusIdx: index("idx_tx_observations_status").on(table.status),
+    blockHeightIdx: index("idx_tx_observations_block_height").on(
+      table.blockHeight,
+    ),
   }),
 );
 
@@ -79,6 +126,132 @@ export const magicLinkTokens = pgTable(
   }),
 );
 
+export const refunds = pgTable(
+  "bitcoin_pay_refunds",
+  {
+    id: text("id").primaryKey(),
+    intentId: text("intent_id").notNull(),
+    status: text("status").notNull(),
+    amountSats: bigint("amount_sats", { mode: "number" }).notNull(),
+    refundAddress: text("refund_address").notNull(),
+    feeRate: doublePrecision("fee_rate").notNull(),
+    feePayer: text("fee_payer").notNull(),
+    sourceTxid: text("source_txid"),
+    sourceVout: integer("source_vout"),
+    feeSats: bigint("fee_sats", { mode: "number" }),
+    psbtBase64: text("psbt_base64"),
+    txHex: text("tx_hex"),
+    txid: text("txid"),
+    error: text("error"),
+    broadcastAt: timestamp("broadcast_at"),
+    confirmedAt: timestamp("confirmed_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    intentIdx: index("idx_refunds_intent").on(table.intentId),
+    statusIdx: index("idx_refunds_status").on(table.status),
+  }),
+);
+
+export const apiKeys = pgTable(
+  "bitcoin_pay_api_keys",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    prefix: text("prefix").notNull(),
+    keyHash: text("key_hash").notNull().unique(),
+    scopes: text("scopes").notNull(),
+    storeId: text("store_id"),
+    lastUsedAt: timestamp("last_used_at"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    keyHashIdx: index("idx_api_keys_key_hash").on(table.keyHash),
+  }),
+);
+
+export const idempotencyKeys = pgTable(
+  "bitcoin_pay_idempotency_keys",
+  {
+    id: text("id").primaryKey(),
+    scope: text("scope").notNull(),
+    key: text("idempotency_key").notNull(),
+    requestHash: text("request_hash").notNull(),
+    response: text("response"),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    scopeKeyIdx: uniqueIndex("idx_idempotency_keys_scope_key").on(
+      table.scope,
+      table.key,
+    ),
+  }),
+);
+
+export const webhookDeliveries = pgTable(
+  "bitcoin_pay_webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    eventId: text("event_id").notNull(),
+    eventType: text("event_type").notNull(),
+    url: text("url").notNull(),
+    payload: text("payload").notNull(),
+    status: text("status").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").notNull(),
+    lastStatusCode: integer("last_status_code"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    dueIdx: index("idx_webhook_deliveries_due").on(
+      table.status,
+      table.nextAttemptAt,
+    ),
+    eventIdx: index("idx_webhook_deliveries_event").on(table.eventId),
+  }),
+);
+
+export const webhookAttempts = pgTable(
+  "bitcoin_pay_webhook_attempts",
+  {
+    id: text("id").primaryKey(),
+    deliveryId: text("delivery_id").notNull(),
+    attempt: integer("attempt").notNull(),
+    statusCode: integer("status_code"),
+    error: text("error"),
+    durationMs: integer("duration_ms").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    deliveryIdx: index("idx_webhook_attempts_delivery").on(table.deliveryId),
+  }),
+);
+
+export const schedulerLocks = pgTable(
+  "bitcoin_pay_scheduler_locks",
+  {
+    name: text("name").primaryKey(),
+    owner: text("owner").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+);
+
+export const chainCheckpoints = pgTable("bitcoin_pay_chain_checkpoints", {
+  name: text("name").primaryKey(),
+  height: integer("height").notNull(),
+  blockHash: text("block_hash").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 export const customers = pgTable(
   "bitcoin_pay_customers",
   {
@@ -6,13 +6,26 @@ import type {
   TxObservation,
   MagicLinkToken,
   Customer,
+  Refund,
+  ApiKey,
+  IdempotencyRecord,
+  PaymentIntentEvent,
+  WebhookDelivery,
+  WebhookAttempt,
+  ChainCheckpoint,
 } from "../../types/models.js";
+import { DEFAULT_STORE_ID } from "../../types/models.js";
 
 interface PrismaClient {
   bitcoinPayPaymentIntent: {
     create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
     findUnique: (args: { where: { id: string } }) => Promise<unknown>;
     update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
+    updateMany: (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => Promise<{ count: number }>;
+    findMany: (args: { where: Record<string, unknown>; orderBy: Record<string, string>; take?: number }) => Promise<unknown[]>;
+  };
+  bitcoinPayPaymentIntentEvent: {
+    create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
     findMany: (args: { where: Record<string, unknown>; orderBy: Record<string, string> }) => Promise<unknown[]>;
   };
   bitcoinPayDepositAddress: {
@@ -20,20 +33,58 @@ interface PrismaClient {
     findUnique: (args: { where: { id?: string; address?: string } }) => Promise<unknown>;
     findFirst: (args: { where: Record<string, unknown>; orderBy?: Record<string, string> }) => Promise<unknown>;
     update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
-    findMany: (args: { where: Record<string, unknown> }) => Promise<unknown[]>;
-    aggregate: (args: { _max: { derivationIndex: boolean } }) => Promise<{ _max: { derivationIndex: number | null } }>;
+    findMany: (args: { where: Record<string, unknown>; orderBy?: Record<string, string>; take?: number }) => Promise<unknown[]>;
+    aggregate: (args: { where?: Record<string, unknown>; _max: { derivationIndex: boolean } }) => Promise<{ _max: { derivationIndex: number | null } }>;
   };
   bitcoinPayTxObservation: {
     create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
     findFirst: (args: { where: Record<string, unknown> }) => Promise<unknown>;
     findUnique: (args: { where: { id: string } }) => Promise<unknown>;
-    findMany: (args: { where: Record<string, unknown>; orderBy: Record<string, string> }) => Promise<unknown[]>;
+    findMany: (args: { where: Record<string, unknown>; orderBy?: Record<string, string>; distinct?: string[]; select?: Record<string, boolean> }) => Promise<unknown[]>;
     update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
   };
   bitcoinPayMagicLinkToken: {
     create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
     findUnique: (args: { where: { token: string } }) => Promise<unknown>;
     update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
+    deleteMany: (args: { where: Record<string, unknown> }) => Promise<unknown>;
+  };
+  bitcoinPayRefund: {
+    create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
+    findUnique: (args: { where: { id: string } }) => Promise<unknown>;
+    update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
+    findMany: (args: { where: Record<string, unknown>; orderBy: Record<string, string> }) => Promise<unknown[]>;
+  };
+  bitcoinPayApiKey: {
+    create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
+    findUnique: (args: { where: { id?: string; keyHash?: string } }) => Promise<unknown>;
+    update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
+    findMany: (args: { where?: Record<string, unknown>; orderBy: Record<string, string> }) => Promise<unknown[]>;
+  };
+  bitcoinPayIdempotencyKey: {
+    create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
+    findUnique: (args: { where: { scope_key: { scope: string; key: string } } }) => Promise<unknown>;
+    update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
+    delete: (args: { where: { id: string } }) => Promise<unknown>;
+  };
+  bitcoinPayWebhookDelivery: {
+    create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
+    findUnique: (args: { where: { id: string } }) => Promise<unknown>;
+    update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
+    findMany: (args: { where: Record<string, unknown>; orderBy: Record<string, string>; take?: number }) => Promise<unknown[]>;
+  };
+  bitcoinPayWebhookAttempt: {
+    create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
+    findMany: (args: { where: Record<string, unknown>; orderBy: Record<string, string> }) => Promise<unknown[]>;
+  };
+  bitcoinPaySchedulerLock: {
+    create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
+    updateMany: (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => Promise<{ count: number }>;
+    deleteMany: (args: { where: Record<string, unknown> }) => Promise<unknown>;
+  };
+  bitcoinPayChainCheckpoint: {
+    findUnique: (args: { where: { name: string } }) => Promise<unknown>;
+    upsert: (args: { where: { name: string }; create: Record<string, unknown>; update: Record<string, unknown> }) => Promise<unknown>;
   };
   bitcoinPayCustomer: {
     create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
@@ -45,11 +96,37 @@ interface PrismaClient {
 
 interface PrismaResult {
   amountSats?: bigint | number;
+  receivedSats?: bigint | number;
+  overpaidSats?: bigint | number;
   valueSats?: bigint | number;
   metadata?: string | null;
   [key: string]: unknown;
 }
 
+function toPaymentIntent(row: PrismaResult): PaymentIntent {
+  return {
+    ...row,
+    amountSats: Number(row.amountSats),
+    receivedSats: Number(row.receivedSats ?? 0),
+    overpaidSats: Number(row.overpaidSats ?? 0),
+  } as PaymentIntent;
+}
+
+function toRefund(row: PrismaResult): Refund {
+  return {
+    ...row,
+    amountSats: Number(row.amountSats),
+    feeSats: row.feeSats == null ? null : Number(row.feeSats),
+  } as Refund;
+}
+
+function toApiKey(row: PrismaResult): ApiKey {
+  return {
+    ...row,
+    scopes: String(row.scopes).split(",").filter(Boolean),
+  } as ApiKey;
+}
+
 export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
   return {
     async createPaymentIntent(data): Promise<PaymentIntent> {
@@ -59,9 +136,17 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
       const created = await prisma.bitcoinPayPaymentIntent.create({
         data: {
           id,
+          storeId: data.storeId ?? DEFAULT_STORE_ID,
           customerId: data.customerId ?? null,
           email: data.email ?? null,
           amountSats: BigInt(data.amountSats),
+          receivedSats: BigInt(data.receivedSats ?? 0),
+          overpaidSats: BigInt(data.overpaidSats ?? 0),
+          amountFiat: data.amountFiat ?? null,
+          currency: data.currency ?? null,
+          exchangeRate: data.exchangeRate ?? null,
+          rateQuotedAt: data.rateQuotedAt ?? null,
+          rateLockExpiresAt: data.rateLockExpiresAt ?? null,
           status: data.status,
           addressId: data.addressId ?? null,
           memo: data.memo ?? null,
@@ -73,10 +158,7 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
         },
       }) as PrismaResult;
 
-      return {
-        ...created,
-        amountSats: Number(created.amountSats),
-      } as PaymentIntent;
+      return toPaymentIntent(created);
     },
 
     async getPaymentIntent(id): Promise<PaymentIntent | null> {
@@ -86,10 +168,7 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
 
       if (!result) return null;
 
-      return {
-        ...result,
-        amountSats: Number(result.amountSats),
-      } as PaymentIntent;
+      return toPaymentIntent(result);
     },
 
     async updatePaymentIntent(id, data): Promise<PaymentIntent> {
@@ -101,10 +180,28 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
         },
       }) as PrismaResult;
 
-      return {
-        ...updated,
-        amountSats: Number(updated.amountSats),
-      } as PaymentIntent;
+      return toPaymentIntent(updated);
+    },
+
+    async updatePaymentIntentIfStatus(
+      id,
+      status,
+      data
+    ): Promise<PaymentIntent | null> {
+      const { count } = await prisma.bitcoinPayPaymentIntent.updateMany({
+        where: { id, status },
+        data: {
+          ...data,
+          updatedAt: new Date(),
+        },
+      });
+      if (count === 0) return null;
+
+      const updated = await prisma.bitcoinPayPaymentIntent.findUnique({
+        where: { id },
+      }) as PrismaResult | null;
+
+      return updated ? toPaymentIntent(updated) : null;
     },
 
     async listPaymentIntentsByStatus(status): Promise<PaymentIntent[]> {
@@ -113,10 +210,43 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
         orderBy: { createdAt: "desc" },
       }) as PrismaResult[];
 
-      return results.map((r) => ({
-        ...r,
-        amountSats: Number(r.amountSats),
-      })) as PaymentIntent[];
+      return results.map(toPaymentIntent);
+    },
+
+    async listExpiredPaymentIntents(before, limit): Promise<PaymentIntent[]> {
+      const results = await prisma.bitcoinPayPaymentIntent.findMany({
+        where: { status: "pending", expiresAt: { lte: before } },
+        orderBy: { expiresAt: "asc" },
+        take: limit,
+      }) as PrismaResult[];
+
+      return results.map(toPaymentIntent);
+    },
+
+    async createPaymentIntentEvent(data): Promise<PaymentIntentEvent> {
+      const created = await prisma.bitcoinPayPaymentIntentEvent.create({
+        data: {
+          id: nanoid(),
+          intentId: data.intentId,
+          fromStatus: data.fromStatus ?? null,
+          toStatus: data.toStatus,
+          reason: data.reason,
+          actor: data.actor,
+          txid: data.txid ?? null,
+          createdAt: new Date(),
+        },
+      });
+
+      return created as PaymentIntentEvent;
+    },
+
+    async listPaymentIntentEvents(intentId): Promise<PaymentIntentEvent[]> {
+      const results = await prisma.bitcoinPayPaymentIntentEvent.findMany({
+        where: { intentId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return results as PaymentIntentEvent[];
     },
 
     async createDepositAddress(data): Promise<DepositAddress> {
@@ -126,9 +256,12 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
       const created = await prisma.bitcoinPayDepositAddress.create({
         data: {
           id,
+          storeId: data.storeId ?? DEFAULT_STORE_ID,
           address: data.address,
           derivationIndex: data.derivationIndex,
           scriptPubKeyHex: data.scriptPubKeyHex,
+          redeemScriptHex: data.redeemScriptHex ?? null,
+          witnessScriptHex: data.witnessScriptHex ?? null,
           intentId: data.intentId ?? null,
           assignedAt: data.assignedAt ?? null,
           createdAt: now,
@@ -154,9 +287,11 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
       return (result as DepositAddress) || null;
     },
 
-    async getUnassignedAddress(): Promise<DepositAddress | null> {
+    async getUnassignedAddress(
+      storeId = DEFAULT_STORE_ID
+    ): Promise<DepositAddress | null> {
       const result = await prisma.bitcoinPayDepositAddress.findFirst({
-        where: { intentId: null },
+        where: { storeId, intentId: null },
         orderBy: { derivationIndex: "asc" },
       });
 
@@ -180,8 +315,9 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
       return result[0] as DepositAddress;
     },
 
-    async getNextDerivationIndex(): Promise<number> {
+    async getNextDerivationIndex(storeId = DEFAULT_STORE_ID): Promise<number> {
       const result = await prisma.bitcoinPayDepositAddress.aggregate({
+        where: { storeId },
         _max: { derivationIndex: true },
       });
 
@@ -197,6 +333,83 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
       return results as DepositAddress[];
     },
 
+    async getLastUsedDerivationIndex(
+      storeId = DEFAULT_STORE_ID
+    ): Promise<number | null> {
+      const used = await prisma.bitcoinPayTxObservation.findMany({
+        where: {},
+        distinct: ["addressId"],
+        select: { addressId: true },
+      }) as { addressId: string }[];
+      if (used.length === 0) return null;
+
+      const result = await prisma.bitcoinPayDepositAddress.aggregate({
+        where: { storeId, id: { in: used.map((obs) => obs.addressId) } },
+        _max: { derivationIndex: true },
+      });
+
+      return result._max.derivationIndex;
+    },
+
+    async listRecyclableAddresses(
+      expiredBefore,
+      limit
+    ): Promise<DepositAddress[]> {
+      const intents = await prisma.bitcoinPayPaymentIntent.findMany({
+        where: {
+          status: "expired",
+          receivedSats: 0,
+          expiresAt: { lt: expiredBefore },
+          addressId: { not: null },
+        },
+        orderBy: { expiresAt: "asc" },
+        take: limit,
+      }) as { addressId: string }[];
+      const addressIds = intents.map((intent) => intent.addressId);
+
+      const used = await prisma.bitcoinPayTxObservation.findMany({
+        where: { addressId: { in: addressIds } },
+        distinct: ["addressId"],
+        select: { addressId: true },
+      }) as { addressId: string }[];
+      const usedIds = new Set(used.map((obs) => obs.addressId));
+
+      const results = await prisma.bitcoinPayDepositAddress.findMany({
+        where: {
+          id: { in: addressIds.filter((id) => !usedIds.has(id)) },
+          intentId: { not: null },
+        },
+        orderBy: { derivationIndex: "asc" },
+      });
+
+      return results as DepositAddress[];
+    },
+
+    async releaseDepositAddress(id): Promise<DepositAddress> {
+      const existing = await prisma.bitcoinPayDepositAddress.findUnique({
+        where: { id },
+      }) as DepositAddress;
+
+      const updates: unknown[] = [
+        prisma.bitcoinPayDepositAddress.update({
+          where: { id },
+          data: { intentId: null, assignedAt: null },
+        }),
+      ];
+      // The old intent keeps no claim on payments to the recycled address
+      if (existing.intentId) {
+        updates.push(
+          prisma.bitcoinPayPaymentIntent.update({
+            where: { id: existing.intentId },
+            data: { addressId: null, updatedAt: new Date() },
+          })
+        );
+      }
+
+      const result = await prisma.$transaction(updates);
+      return result[0] as DepositAddress;
+    },
+
     async createTxObservation(data): Promise<TxObservation> {
       const id = nanoid();
       const now = new Date();
@@ -322,6 +535,18 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
       })) as TxObservation[];
     },
 
+    async listTxObservationsSinceHeight(height): Promise<TxObservation[]> {
+      const results = await prisma.bitcoinPayTxObservation.findMany({
+        where: { blockHeight: { gte: height } },
+        orderBy: { blockHeight: "asc" },
+      }) as PrismaResult[];
+
+      return results.map((r) => ({
+        ...r,
+        valueSats: Number(r.valueSats),
+      })) as TxObservation[];
+    },
+
     async createMagicLinkToken(data): Promise<MagicLinkToken> {
       const id = nanoid();
       const now = new Date();
@@ -355,6 +580,302 @@ export function prismaAdapter(prisma: PrismaClient): StorageAdapter {
       });
     },
 
+    async deleteExpiredMagicLinkTokens(before): Promise<void> {
+      await prisma.bitcoinPayMagicLinkToken.deleteMany({
+        where: { expiresAt: { lte: before } },
+      });
+    },
+
+    async createRefund(data): Promise<Refund> {
+      const id = nanoid();
+      const now = new Date();
+
+      const created = await prisma.bitcoinPayRefund.create({
+        data: {
+          id,
+          intentId: data.intentId,
+          status: data.status,
+          amountSats: BigInt(data.amountSats),
+          refundAddress: data.refundAddress,
+          feeRate: data.feeRate,
+          feePayer: data.feePayer,
+          sourceTxid: data.sourceTxid ?? null,
+          sourceVout: data.sourceVout ?? null,
+          feeSats: data.feeSats == null ? null : BigInt(data.feeSats),
+          psbtBase64: data.psbtBase64 ?? null,
+          txHex: data.txHex ?? null,
+          txid: data.txid ?? null,
+          error: data.error ?? null,
+          broadcastAt: data.broadcastAt ?? null,
+          confirmedAt: data.confirmedAt ?? null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      }) as PrismaResult;
+
+      return toRefund(created);
+    },
+
+    async getRefund(id): Promise<Refund | null> {
+      const result = await prisma.bitcoinPayRefund.findUnique({
+        where: { id },
+      }) as PrismaResult | null;
+
+      if (!result) return null;
+
+      return toRefund(result);
+    },
+
+    async updateRefund(id, data): Promise<Refund> {
+      const updated = await prisma.bitcoinPayRefund.update({
+        where: { id },
+        data: {
+          ...data,
+          updatedAt: new Date(),
+        },
+      }) as PrismaResult;
+
+      return toRefund(updated);
+    },
+
+    async listRefundsByIntent(intentId): Promise<Refund[]> {
+      const results = await prisma.bitcoinPayRefund.findMany({
+        where: { intentId },
+        orderBy: { createdAt: "desc" },
+      }) as PrismaResult[];
+
+      return results.map(toRefund);
+    },
+
+    async createApiKey(data): Promise<ApiKey> {
+      const id = nanoid();
+      const now = new Date();
+
+      const created = await prisma.bitcoinPayApiKey.create({
+        data: {
+          id,
+          name: data.name,
+          prefix: data.prefix,
+          keyHash: data.keyHash,
+          scopes: data.scopes.join(","),
+          storeId: data.storeId ?? null,
+          lastUsedAt: data.lastUsedAt ?? null,
+          revokedAt: data.revokedAt ?? null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      }) as PrismaResult;
+
+      return toApiKey(created);
+    },
+
+    async getApiKeyByHash(keyHash): Promise<ApiKey | null> {
+      const result = await prisma.bitcoinPayApiKey.findUnique({
+        where: { keyHash },
+      }) as PrismaResult | null;
+
+      if (!result) return null;
+
+      return toApiKey(result);
+    },
+
+    async updateApiKey(id, data): Promise<ApiKey> {
+      const { scopes, ...rest } = data;
+      const updated = await prisma.bitcoinPayApiKey.update({
+        where: { id },
+        data: {
+          ...rest,
+          ...(scopes ? { scopes: scopes.join(",") } : {}),
+          updatedAt: new Date(),
+        },
+      }) as PrismaResult;
+
+      return toApiKey(updated);
+    },
+
+    async listApiKeys(): Promise<ApiKey[]> {
+      const results = await prisma.bitcoinPayApiKey.findMany({
+        orderBy: { createdAt: "desc" },
+      }) as PrismaResult[];
+
+      return results.map(toApiKey);
+    },
+
+    async createIdempotencyRecord(data): Promise<IdempotencyRecord> {
+      const id = nanoid();
+      const now = new Date();
+
+      const created = await prisma.bitcoinPayIdempotencyKey.create({
+        data: {
+          id,
+          scope: data.scope,
+          key: data.key,
+          requestHash: data.requestHash,
+          response: data.response ?? null,
+          expiresAt: data.expiresAt,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      return created as IdempotencyRecord;
+    },
+
+    async getIdempotencyRecord(scope, key): Promise<IdempotencyRecord | null> {
+      const result = await prisma.bitcoinPayIdempotencyKey.findUnique({
+        where: { scope_key: { scope, key } },
+      });
+
+      return (result as IdempotencyRecord | null) ?? null;
+    },
+
+    async updateIdempotencyRecord(id, data): Promise<IdempotencyRecord> {
+      const updated = await prisma.bitcoinPayIdempotencyKey.update({
+        where: { id },
+        data: {
+          ...data,
+          updatedAt: new Date(),
+        },
+      });
+
+      return updated as IdempotencyRecord;
+    },
+
+    async deleteIdempotencyRecord(id): Promise<void> {
+      await prisma.bitcoinPayIdempotencyKey.delete({ where: { id } });
+    },
+
+    async createWebhookDelivery(data): Promise<WebhookDelivery> {
+      const id = nanoid();
+      const now = new Date();
+
+      const created = await prisma.bitcoinPayWebhookDelivery.create({
+        data: {
+          id,
+          eventId: data.eventId,
+          eventType: data.eventType,
+          url: data.url,
+          payload: data.payload,
+          status: data.status,
+          attempts: data.attempts,
+          nextAttemptAt: data.nextAttemptAt,
+          lastStatusCode: data.lastStatusCode ?? null,
+          lastError: data.lastError ?? null,
+          deliveredAt: data.deliveredAt ?? null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      return created as WebhookDelivery;
+    },
+
+    async getWebhookDelivery(id): Promise<WebhookDelivery | null> {
+      const result = await prisma.bitcoinPayWebhookDelivery.findUnique({
+        where: { id },
+      });
+
+      return (result as WebhookDelivery | null) ?? null;
+    },
+
+    async updateWebhookDelivery(id, data): Promise<WebhookDelivery> {
+      const updated = await prisma.bitcoinPayWebhookDelivery.update({
+        where: { id },
+        data: {
+          ...data,
+          updatedAt: new Date(),
+        },
+      });
+
+      return updated as WebhookDelivery;
+    },
+
+    async listDueWebhookDeliveries(before, limit): Promise<WebhookDelivery[]> {
+      const results = await prisma.bitcoinPayWebhookDelivery.findMany({
+        where: { status: "pending", nextAttemptAt: { lte: before } },
+        orderBy: { nextAttemptAt: "asc" },
+        take: limit,
+      });
+
+      return results as WebhookDelivery[];
+    },
+
+    async createWebhookAttempt(data): Promise<WebhookAttempt> {
+      const created = await prisma.bitcoinPayWebhookAttempt.create({
+        data: {
+          id: nanoid(),
+          deliveryId: data.deliveryId,
+          attempt: data.attempt,
+          statusCode: data.statusCode ?? null,
+          error: data.error ?? null,
+          durationMs: data.durationMs,
+          createdAt: new Date(),
+        },
+      });
+
+      return created as WebhookAttempt;
+    },
+
+    async listWebhookAttempts(deliveryId): Promise<WebhookAttempt[]> {
+      const results = await prisma.bitcoinPayWebhookAttempt.findMany({
+        where: { deliveryId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return results as WebhookAttempt[];
+    },
+
+    async acquireSchedulerLock(name, owner, expiresAt): Promise<boolean> {
+      // Clear a lock left behind by a crashed or stalled holder
+      await prisma.bitcoinPaySchedulerLock.deleteMany({
+        where: { name, expiresAt: { lte: new Date() } },
+      });
+
+      try {
+        await prisma.bitcoinPaySchedulerLock.create({
+          data: { name, owner, expiresAt, createdAt: new Date() },
+        });
+        return true;
+      } catch (err) {
+        // Unique constraint violation: another owner holds the lock
+        if ((err as { code?: string }).code === "P2002") return false;
+        throw err;
+      }
+    },
+
+    async renewSchedulerLock(name, owner, expiresAt): Promise<boolean> {
+      const { count } = await prisma.bitcoinPaySchedulerLock.updateMany({
+        where: { name, owner },
+        data: { expiresAt },
+      });
+      return count > 0;
+    },
+
+    async releaseSchedulerLock(name, owner): Promise<void> {
+      await prisma.bitcoinPaySchedulerLock.deleteMany({
+        where: { name, owner },
+      });
+    },
+
+    async getChainCheckpoint(name): Promise<ChainCheckpoint | null> {
+      const result = await prisma.bitcoinPayChainCheckpoint.findUnique({
+        where: { name },
+      });
+
+      return (result as ChainCheckpoint) || null;
+    },
+
+    async saveChainCheckpoint(data): Promise<ChainCheckpoint> {
+      const checkpoint = { ...data, updatedAt: new Date() };
+      const result = await prisma.bitcoinPayChainCheckpoint.upsert({
+        where: { name: data.name },
+        create: checkpoint,
+        update: checkpoint,
+      });
+
+      return result as ChainCheckpoint;
+    },
+
     async createCustomer(data): Promise<Customer> {
       const id = nanoid();
       const now = new Date();
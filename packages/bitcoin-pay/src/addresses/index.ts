@@ -0,0 +1,395 @@
+import {
+  deriveAddress,
+  derivationPaths,
+  type KeyPath,
+} from "../crypto/descriptor.js";
+import type { StoreRegistry } from "../stores/index.js";
+import type { StorageAdapter } from "../types/adapter.js";
+import { DEFAULT_STORE_ID, type DepositAddress } from "../types/models.js";
+import type { AddressRecyclingOptions } from "../types/options.js";
+
+export class GapLimitError extends Error {
+  status = 503;
+
+  constructor(public gapLimit: number) {
+    super(
+      `Gap limit of ${gapLimit} unused addresses reached; wait for pending intents to be paid or expire`
+    );
+    this.name = "GapLimitError";
+  }
+}
+
+export class AddressRangeError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AddressRangeError";
+  }
+}
+
+// Upper bound on addresses derived by one export or verification
+export const MAX_ADDRESS_RANGE = 1000;
+
+export interface AddressManagerConfig {
+  storage: StorageAdapter;
+  stores: StoreRegistry;
+  gapLimit: number;
+  gapLimitPolicy: "warn" | "error";
+  recycling?: AddressRecyclingOptions;
+}
+
+export interface GapStatus {
+  storeId: string;
+  gapLimit: number;
+  lastUsedIndex: number | null;
+  nextIndex: number;
+  /**
+   * Derived addresses after the last paid one
+   */
+  unusedCount: number;
+}
+
+export interface ExportedAddress {
+  storeId: string;
+  index: number;
+  branch: number;
+  address: string;
+  /**
+   * Derivation path of each key, e.g. one per cosigner for multisig
+   */
+  paths: KeyPath[];
+  scriptPubKeyHex: string;
+  redeemScriptHex: string | null;
+  witnessScriptHex: string | null;
+  /**
+   * Whether the address has been handed out and recorded in storage
+   */
+  issued: boolean;
+}
+
+export interface AddressVerification {
+  address: string;
+  storeId: string;
+  /**
+   * Whether the store's descriptor derives `address` within the window
+   */
+  valid: boolean;
+  index: number | null;
+  branch: number | null;
+  paths: KeyPath[];
+  /**
+   * Derivation index recorded in storage, when the address was issued
+   */
+  storedIndex: number | null;
+}
+
+type RecyclingStorage = Required<
+  Pick<StorageAdapter, "listRecyclableAddresses" | "releaseDepositAddress">
+>;
+
+function requireRecyclingStorage(storage: StorageAdapter): RecyclingStorage {
+  if (!storage.listRecyclableAddresses || !storage.releaseDepositAddress) {
+    throw new Error("Storage adapter does not support address recycling");
+  }
+  return storage as RecyclingStorage;
+}
+
+export function createAddressManager(config: AddressManagerConfig) {
+  const { storage } = config;
+
+  async function getGapStatus(
+    storeId: string = DEFAULT_STORE_ID
+  ): Promise<GapStatus> {
+    const nextIndex = await storage.getNextDerivationIndex(storeId);
+    const lastUsedIndex = storage.getLastUsedDerivationIndex
+      ? await storage.getLastUsedDerivationIndex(storeId)
+      : null;
+
+    return {
+      storeId,
+      gapLimit: config.gapLimit,
+      lastUsedIndex,
+      nextIndex,
+      unusedCount: nextIndex - (lastUsedIndex ?? -1) - 1,
+    };
+  }
+
+  /**
+   * Enforce the gap limit before deriving the address at `nextIndex`.
+   * Adapters that cannot report used addresses are not checked.
+   */
+  async function checkGap(storeId: string): Promise<number> {
+    const gap = await getGapStatus(storeId);
+    if (!storage.getLastUsedDerivationIndex || gap.unusedCount < gap.gapLimit) {
+      return gap.nextIndex;
+    }
+
+    if (config.gapLimitPolicy === "error") {
+      throw new GapLimitError(gap.gapLimit);
+    }
+    console.warn(
+      `Deriving address ${gap.nextIndex} of store "${storeId}" exceeds the gap limit of ${gap.gapLimit}; wallets may not find payments to it during recovery`
+    );
+    return gap.nextIndex;
+  }
+
+  /**
+   * Assign an address of the intent's store, preferring unassigned
+   * (including recycled) addresses over deriving a new one
+   */
+  async function assignAddress(
+    intentId: string,
+    storeId: string = DEFAULT_STORE_ID
+  ): Promise<DepositAddress> {
+    const store = config.stores.get(storeId);
+    let address = await storage.getUnassignedAddress(store.id);
+
+    if (!address) {
+      const nextIndex = await checkGap(store.id);
+      const derived = deriveAddress(store.descriptor, nextIndex);
+
+      address = await storage.createDepositAddress({
+        storeId: store.id,
+        address: derived.address,
+        derivationIndex: nextIndex,
+        scriptPubKeyHex: derived.scriptPubKey.toString("hex"),
+        redeemScriptHex: derived.redeemScript?.toString("hex") ?? null,
+        witnessScriptHex: derived.witnessScript?.toString("hex") ?? null,
+        intentId: null,
+        assignedAt: null,
+      });
+    }
+
+    return storage.assignAddressToIntent(address.id, intentId);
+  }
+
+  function checkRange(start: number, count: number): void {
+    if (!Number.isInteger(start) || start < 0) {
+      throw new AddressRangeError(`Invalid start index ${start}`);
+    }
+    if (!Number.isInteger(count) || count < 1 || count > MAX_ADDRESS_RANGE) {
+      throw new AddressRangeError(
+        `Address count must be between 1 and ${MAX_ADDRESS_RANGE}, got ${count}`
+      );
+    }
+  }
+
+  /**
+   * Derive `count` addresses of a store from `start` with their paths and
+   * scripts, to compare against what the hardware wallet shows
+   */
+  async function exportAddresses(
+    options: {
+      storeId?: string;
+      start?: number;
+      count?: number;
+      branch?: number;
+    } = {}
+  ): Promise<ExportedAddress[]> {
+    const store = config.stores.get(options.storeId ?? DEFAULT_STORE_ID);
+    const start = options.start ?? 0;
+    const count = options.count ?? config.gapLimit;
+    const branch = options.branch ?? 0;
+    checkRange(start, count);
+    if (
+      !Number.isInteger(branch) ||
+      branch < 0 ||
+      branch >= store.descriptor.branches
+    ) {
+      throw new AddressRangeError(
+        `Store "${store.id}" has no multipath branch ${branch}`
+      );
+    }
+
+    const exported: ExportedAddress[] = [];
+    for (let index = start; index < start + count; index++) {
+      const derived = deriveAddress(store.descriptor, index, branch);
+      const stored = await storage.getDepositAddressByAddress(derived.address);
+      exported.push({
+        storeId: store.id,
+        index,
+        branch,
+        address: derived.address,
+        paths: derivationPaths(store.descriptor, index, branch),
+        scriptPubKeyHex: derived.scriptPubKey.toString("hex"),
+        redeemScriptHex: derived.redeemScript?.toString("hex") ?? null,
+        witnessScriptHex: derived.witnessScript?.toString("hex") ?? null,
+        issued: stored?.storeId === store.id,
+      });
+    }
+    return exported;
+  }
+
+  /**
+   * Check that `address` is derived from a store's descriptor. The index
+   * recorded in storage is tried first, then every index below `window`
+   * on every branch. By default the window ends at the next index plus
+   * the gap limit and covers at most `MAX_ADDRESS_RANGE` indices. The
+   * store defaults to the one the address was issued for.
+   */
+  async function verifyAddress(
+    address: string,
+    options: { storeId?: string; window?: number } = {}
+  ): Promise<AddressVerification> {
+    const stored = await storage.getDepositAddressByAddress(address);
+    const store = config.stores.get(
+      options.storeId ?? stored?.storeId ?? DEFAULT_STORE_ID
+    );
+    const storedIndex =
+      stored?.storeId === store.id ? stored.derivationIndex : null;
+
+    const findAt = (index: number): AddressVerification | null => {
+      for (let branch = 0; branch < store.descriptor.branches; branch++) {
+        const derived = deriveAddress(store.descriptor, index, branch);
+        if (derived.address === address) {
+          return {
+            address,
+            storeId: store.id,
+            valid: true,
+            index,
+            branch,
+            paths: derivationPaths(store.descriptor, index, branch),
+            storedIndex,
+          };
+        }
+      }
+      return null;
+    };
+
+    if (storedIndex !== null) {
+      const found = findAt(storedIndex);
+      if (found) return found;
+    }
+
+    let start = 0;
+    let end: number;
+    if (options.window === undefined) {
+      end = (await storage.getNextDerivationIndex(store.id)) + config.gapLimit;
+      // Long-lived stores only get their newest indices searched
+      start = Math.max(0, end - MAX_ADDRESS_RANGE);
+    } else {
+      end = options.window;
+      checkRange(0, end);
+    }
+
+    for (let index = start; index < end; index++) {
+      const found = findAt(index);
+      if (found) return found;
+    }
+
+    return {
+      address,
+      storeId: store.id,
+      valid: false,
+      index: null,
+      branch: null,
+      paths: [],
+      storedIndex,
+    };
+  }
+
+  /**
+   * Release addresses of intents that expired unpaid more than
+   * `quarantineHours` ago, after `getHistory` shows they never received
+   * anything. Addresses that did receive funds are passed to `onReceived`
+   * so the missed payment can be picked up. A failed chain check aborts
+   * the run before anything is released.
+   */
+  async function recycleAddresses(options: {
+    /**
+     * Txids that ever paid the address, from the chain backend
+     */
+    getHistory: (address: DepositAddress) => Promise<string[]>;
+    limit?: number;
+    onReceived?: (address: DepositAddress) => Promise<void>;
+  }): Promise<DepositAddress[]> {
+    if (!config.recycling?.enabled) {
+      throw new Error("Address recycling is not enabled");
+    }
+
+    const recyclingStorage = requireRecyclingStorage(storage);
+    const quarantineMs = (config.recycling.quarantineHours ?? 72) * 3_600_000;
+    const candidates = await recyclingStorage.listRecyclableAddresses(
+      new Date(Date.now() - quarantineMs),
+      options.limit ?? 100
+    );
+
+    const unused: DepositAddress[] = [];
+    for (const address of candidates) {
+      let history: string[];
+      try {
+        history = await options.getHistory(address);
+      } catch (err) {
+        throw new Error(
+          `Cannot recycle addresses: chain check for ${address.address} failed: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+
+      if (history.length > 0) {
+        await options.onReceived?.(address);
+      } else {
+        unused.push(address);
+      }
+    }
+
+    const released: DepositAddress[] = [];
+    for (const address of unused) {
+      released.push(await recyclingStorage.releaseDepositAddress(address.id));
+    }
+    return released;
+  }
+
+  return {
+    assignAddress,
+    getGapStatus,
+    recycleAddresses,
+    exportAddresses,
+    verifyAddress,
+  };
+}
+
+export type AddressManager = ReturnType<typeof createAddressManager>;
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format exported addresses as CSV, one row per address. Key paths are
+ * written like key origins, `[fingerprint/84'/0'/0'/0/5]`, joined with
+ * spaces.
+ */
+export function formatAddressesCsv(addresses: ExportedAddress[]): string {
+  const header = [
+    "store_id",
+    "index",
+    "branch",
+    "address",
+    "paths",
+    "script_pubkey",
+    "redeem_script",
+    "witness_script",
+    "issued",
+  ];
+  const rows = addresses.map((entry) =>
+    [
+      entry.storeId,
+      String(entry.index),
+      String(entry.branch),
+      entry.address,
+      entry.paths
+        .map(({ fingerprint, path }) =>
+          fingerprint ? `[${fingerprint}${path.slice(1)}]` : path
+        )
+        .join(" "),
+      entry.scriptPubKeyHex,
+      entry.redeemScriptHex ?? "",
+      entry.witnessScriptHex ?? "",
+      String(entry.issued),
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return `${[header.join(","), ...rows].join("\n")}\n`;
+}
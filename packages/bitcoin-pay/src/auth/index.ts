@@ -0,0 +1,150 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, randomBytes } from "@noble/hashes/utils";
+import type { StorageAdapter } from "../types/adapter.js";
+import { apiKeyScopeSchema } from "../types/models.js";
+import type { ApiKey, ApiKeyScope } from "../types/models.js";
+
+const API_KEY_PREFIX = "bpk_";
+
+/**
+ * Authentication failure carrying the HTTP status the handler should return
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+type ApiKeyStorage = Required<
+  Pick<
+    StorageAdapter,
+    "createApiKey" | "getApiKeyByHash" | "updateApiKey" | "listApiKeys"
+  >
+>;
+
+function requireApiKeyStorage(storage: StorageAdapter): ApiKeyStorage {
+  if (
+    !storage.createApiKey ||
+    !storage.getApiKeyByHash ||
+    !storage.updateApiKey ||
+    !storage.listApiKeys
+  ) {
+    throw new Error("Storage adapter does not support API keys");
+  }
+  return storage as ApiKeyStorage;
+}
+
+export function hashApiKey(key: string): string {
+  return bytesToHex(sha256(key));
+}
+
+/**
+ * Read the key from `Authorization: Bearer <key>` or `x-api-key`
+ */
+function extractApiKey(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || null;
+  }
+  return request.headers.get("x-api-key");
+}
+
+/**
+ * Store a request made with `apiKey` acts on. Keys bound to a store can't
+ * name another one and default to their own.
+ */
+export function resolveKeyStore(
+  apiKey: ApiKey,
+  storeId: string | undefined
+): string | undefined {
+  if (!apiKey.storeId) {
+    return storeId;
+  }
+  if (storeId && storeId !== apiKey.storeId) {
+    throw new AuthError(
+      `API key is bound to store "${apiKey.storeId}"`,
+      403
+    );
+  }
+  return apiKey.storeId;
+}
+
+export function createApiKeyManager(config: { storage: StorageAdapter }) {
+  const { storage } = config;
+
+  /**
+   * Create a key. The plaintext key is only returned here; store it
+   * somewhere safe, only its hash is persisted. With `storeId` the key
+   * only reaches that store's intents and addresses.
+   */
+  async function createApiKey(data: {
+    name: string;
+    scopes: ApiKeyScope[];
+    storeId?: string;
+  }): Promise<{ apiKey: ApiKey; key: string }> {
+    const scopes = data.scopes.map((scope) => apiKeyScopeSchema.parse(scope));
+    if (scopes.length === 0) {
+      throw new Error("At least one scope is required");
+    }
+
+    const key = `${API_KEY_PREFIX}${Buffer.from(randomBytes(24)).toString(
+      "base64url"
+    )}`;
+    const apiKey = await requireApiKeyStorage(storage).createApiKey({
+      name: data.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      keyHash: hashApiKey(key),
+      scopes,
+      storeId: data.storeId ?? null,
+      lastUsedAt: null,
+      revokedAt: null,
+    });
+
+    return { apiKey, key };
+  }
+
+  async function revokeApiKey(id: string): Promise<ApiKey> {
+    return requireApiKeyStorage(storage).updateApiKey(id, {
+      revokedAt: new Date(),
+    });
+  }
+
+  /**
+   * Resolve the key presented with a request and check it grants `scope`
+   */
+  async function authenticate(
+    request: Request,
+    scope: ApiKeyScope
+  ): Promise<ApiKey> {
+    const keyStorage = requireApiKeyStorage(storage);
+    const key = extractApiKey(request);
+    if (!key) {
+      throw new AuthError("Missing API key", 401);
+    }
+
+    const apiKey = await keyStorage.getApiKeyByHash(hashApiKey(key));
+    if (!apiKey || apiKey.revokedAt) {
+      throw new AuthError("Invalid API key", 401);
+    }
+    if (!apiKey.scopes.includes(scope)) {
+      throw new AuthError(`API key lacks the "${scope}" scope`, 403);
+    }
+
+    await keyStorage.updateApiKey(apiKey.id, { lastUsedAt: new Date() });
+
+    return apiKey;
+  }
+
+  return {
+    createApiKey,
+    revokeApiKey,
+    listApiKeys: () => requireApiKeyStorage(storage).listApiKeys(),
+    authenticate,
+  };
+}
+
+export type ApiKeyManager = ReturnType<typeof createApiKeyManager>;
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import type {
   BitcoinPayClientOptions,
   PaymentInitData,
@@ -49,7 +49,8 @@ export function usePaymentInit(token: string, client?: BitcoinPayClient) {
 }
 
 /**
- * Hook: Get and poll payment status
+ * Hook: Get payment status and follow live updates (SSE, or polling when
+ * streaming is unavailable)
  */
 export function usePaymentStatus(
   intentId: string | null | undefined,
@@ -60,17 +61,28 @@ export function usePaymentStatus(
     client ?? (clientInstance || (clientInstance = new BitcoinPayClient()))
   );
   const payClient = payClientRef.current;
+  const queryClient = useQueryClient();
 
   const query = useQuery<PaymentStatusData, Error>({
     queryKey: ["bitcoin-pay", "status", intentId],
     enabled: Boolean(intentId),
-    refetchInterval: intervalMs,
-    refetchIntervalInBackground: true,
     queryFn: async () => {
       return await payClient.getStatus(intentId as string);
     },
   });
 
+  useEffect(() => {
+    if (!intentId) return;
+
+    return payClient.streamStatus(
+      intentId,
+      (data) => {
+        queryClient.setQueryData(["bitcoin-pay", "status", intentId], data);
+      },
+      intervalMs
+    );
+  }, [intentId, intervalMs, payClient, queryClient]);
+
   return {
     status: query.data?.status,
     confs: query.data?.confs || 0,
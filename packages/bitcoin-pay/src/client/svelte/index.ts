@@ -61,7 +61,7 @@ export function createPaymentInit(
 }
 
 /**
- * Svelte store for polling payment status
+ * Svelte store for live payment status (SSE, falling back to polling)
  *
  * @example
  * ```svelte
@@ -93,8 +93,8 @@ export function createPaymentStatus(
 
 	let cleanup: (() => void) | null = null;
 
-	// Start polling
-	cleanup = payClient.pollStatus(
+	// Stream updates, polling if SSE is unavailable
+	cleanup = payClient.streamStatus(
 		intentId,
 		(data) => {
 			set({ data });
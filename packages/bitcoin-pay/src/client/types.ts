@@ -25,10 +25,24 @@ export interface PaymentInitData {
   address: string;
   bip21: string;
   amountSats: number;
+  remainingSats: number;
+  amountFiat: number | null;
+  currency: string | null;
+  rateLockExpiresAt: Date | null;
   expiresAt: Date;
   status: string;
 }
 
+/**
+ * A single output paid to the deposit address
+ */
+export interface PaymentObservation {
+  txid: string;
+  vout: number;
+  valueSats: number;
+  confirmations: number;
+}
+
 /**
  * Payment status response
  */
@@ -36,4 +50,6 @@ export interface PaymentStatusData extends PaymentIntent {
   txid?: string;
   confs?: number;
   valueSats?: number;
+  remainingSats?: number;
+  payments?: PaymentObservation[];
 }
@@ -45,6 +45,12 @@ export class BitcoinPayClient {
       address: String(anyData.address),
       bip21: String(anyData.bip21),
       amountSats: Number(anyData.amountSats),
+      remainingSats: Number(anyData.remainingSats ?? anyData.amountSats),
+      amountFiat: anyData.amountFiat != null ? Number(anyData.amountFiat) : null,
+      currency: anyData.currency ? String(anyData.currency) : null,
+      rateLockExpiresAt: anyData.rateLockExpiresAt
+        ? new Date(anyData.rateLockExpiresAt)
+        : null,
       expiresAt: new Date(anyData.expiresAt),
       status: String(anyData.status),
     };
@@ -60,15 +66,21 @@ export class BitcoinPayClient {
     if (!response.ok) {
       throw new Error(`Get status failed: ${response.statusText}`);
     }
-    const data: unknown = await response.json();
+    return this.parseStatus(await response.json(), intentId);
+  }
+
+  private parseStatus(data: unknown, intentId: string): PaymentStatusData {
     // biome-ignore lint/suspicious/noExplicitAny: <explanation>
     const anyData = data as any;
     const status = String(anyData.status) as PaymentStatusData["status"];
     return {
       id: String(anyData.id ?? intentId),
+      storeId: anyData.storeId ? String(anyData.storeId) : "default",
       customerId: anyData.customerId ? String(anyData.customerId) : null,
       email: anyData.email ? String(anyData.email) : null,
       amountSats: Number(anyData.amountSats),
+      receivedSats: Number(anyData.receivedSats ?? 0),
+      overpaidSats: Number(anyData.overpaidSats ?? 0),
       status,
       addressId: anyData.addressId ? String(anyData.addressId) : null,
       memo: anyData.memo ? String(anyData.memo) : null,
@@ -81,6 +93,19 @@ export class BitcoinPayClient {
       confs: anyData.confs !== undefined ? Number(anyData.confs) : undefined,
       valueSats:
         anyData.valueSats !== undefined ? Number(anyData.valueSats) : undefined,
+      remainingSats:
+        anyData.remainingSats !== undefined
+          ? Number(anyData.remainingSats)
+          : undefined,
+      payments: Array.isArray(anyData.payments)
+        ? // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+          anyData.payments.map((p: any) => ({
+            txid: String(p.txid),
+            vout: Number(p.vout),
+            valueSats: Number(p.valueSats),
+            confirmations: Number(p.confirmations),
+          }))
+        : undefined,
     };
   }
 
@@ -115,6 +140,64 @@ export class BitcoinPayClient {
 
     return () => clearInterval(intervalId);
   }
+
+  /**
+   * Stream payment status over Server-Sent Events (returns a cleanup
+   * function). Falls back to `pollStatus` when EventSource is missing or
+   * the stream cannot be opened.
+   */
+  streamStatus(
+    intentId: string,
+    callback: (data: PaymentStatusData) => void,
+    intervalMs = 3000,
+  ): () => void {
+    if (typeof EventSource === "undefined") {
+      return this.pollStatus(intentId, callback, intervalMs);
+    }
+
+    let received = false;
+    let stopPolling: (() => void) | null = null;
+    const source = new EventSource(
+      this.getURL(`/status/stream?intentId=${encodeURIComponent(intentId)}`),
+    );
+
+    source.addEventListener("status", (event) => {
+      received = true;
+      const data = this.parseStatus(
+        JSON.parse((event as MessageEvent).data as string),
+        intentId,
+      );
+      callback(data);
+
+      // Close before the server ends the stream so it isn't reopened
+      if (
+        data.status === "confirmed" ||
+        data.status === "expired" ||
+        data.status === "failed"
+      ) {
+        source.close();
+      }
+    });
+
+    source.onerror = () => {
+      // After the first message EventSource reconnects by itself and
+      // resumes with Last-Event-ID; only give up on streams that never
+      // opened or that the browser will not retry
+      if (
+        stopPolling ||
+        (received && source.readyState !== EventSource.CLOSED)
+      ) {
+        return;
+      }
+      source.close();
+      stopPolling = this.pollStatus(intentId, callback, intervalMs);
+    };
+
+    return () => {
+      source.close();
+      stopPolling?.();
+    };
+  }
 }
 
 /**
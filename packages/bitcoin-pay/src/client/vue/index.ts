@@ -47,7 +47,7 @@ export function usePaymentInit(
 }
 
 /**
- * Vue composable for polling payment status
+ * Vue composable for live payment status (SSE, falling back to polling)
  *
  * @example
  * ```vue
@@ -74,7 +74,7 @@ export function usePaymentStatus(
 	const startPolling = () => {
 		if (!intentIdRef.value) return;
 
-		cleanup = payClient.pollStatus(
+		cleanup = payClient.streamStatus(
 			intentIdRef.value,
 			(newData) => {
 				data.value = newData;
@@ -1,103 +1,647 @@
 import * as bitcoin from "bitcoinjs-lib";
 import BIP32Factory from "bip32";
 import * as ecc from "tiny-secp256k1";
+import type { Network } from "../types/options.js";
+import { getBitcoinNetwork } from "./networks.js";
+import { toStandardExtendedKey } from "./slip132.js";
 
 const bip32 = BIP32Factory(ecc);
 
+/**
+ * A derivation step after the extended key: a child number, the `*`
+ * address index, or the alternatives of a `<a;b>` multipath step
+ */
+export type DerivationStep = number | "*" | number[];
+
+export interface KeyOrigin {
+  /**
+   * Master key fingerprint as 8 lowercase hex characters
+   */
+  fingerprint: string;
+  /**
+   * Path from the master key, e.g. "84'/0'/0'"
+   */
+  path: string;
+}
+
+export interface DescriptorKey {
+  origin: KeyOrigin | null;
+  xpub: string;
+  steps: DerivationStep[];
+}
+
+export type DescriptorScript =
+  | { type: "pkh" | "wpkh" | "tr"; key: DescriptorKey }
+  | { type: "sh" | "wsh"; script: DescriptorScript }
+  | {
+      type: "multi" | "sortedmulti";
+      threshold: number;
+      keys: DescriptorKey[];
+    };
+
+/**
+ * Script types that produce an address at the top level
+ */
+export type AddressScriptType = "tr" | "wpkh" | "sh" | "wsh" | "pkh";
+
 export interface ParsedDescriptor {
-  type: "tr" | "wpkh" | "sh" | "pkh";
+  /**
+   * Outermost script type; see `script` for what `sh()`/`wsh()` wrap
+   */
+  type: AddressScriptType;
+  script: DescriptorScript;
+  keys: DescriptorKey[];
+  /**
+   * Extended key of the first key, e.g. for display. Multisig descriptors
+   * list every key in `keys`.
+   */
   xpub: string;
+  /**
+   * Steps after the first key, e.g. "0/*" or "<0;1>/*"
+   */
   derivationPath: string;
+  /**
+   * Number of `<a;b>` multipath alternatives, 1 without one
+   */
+  branches: number;
+  /**
+   * The descriptor with its `#checksum` appended and SLIP-132 keys
+   * converted to xpub/tpub
+   */
+  descriptor: string;
+  checksum: string;
   network: bitcoin.Network;
 }
 
+const INPUT_CHARSET =
+  "0123456789()[],'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#\"\\ ";
+const CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATOR = [
+  0xf5dee51989n,
+  0xa9fdca3312n,
+  0x1bab10e32dn,
+  0x3706b1677an,
+  0x644d626ffdn,
+];
+const HARDENED_OFFSET = 0x80000000;
+// Standardness limits on the number of multisig keys
+const MAX_MULTISIG_KEYS = { sh: 15, wsh: 20 };
+
+function polymod(symbols: number[]): bigint {
+  let chk = 1n;
+  for (const value of symbols) {
+    const top = chk >> 35n;
+    chk = ((chk & 0x7ffffffffn) << 5n) ^ BigInt(value);
+    for (let i = 0; i < GENERATOR.length; i++) {
+      if ((top >> BigInt(i)) & 1n) {
+        chk ^= GENERATOR[i];
+      }
+    }
+  }
+  return chk;
+}
+
+/**
+ * BIP380 checksum of a descriptor without its `#` suffix
+ */
+export function descriptorChecksum(descriptor: string): string {
+  const symbols: number[] = [];
+  let groups: number[] = [];
+
+  for (const char of descriptor) {
+    const value = INPUT_CHARSET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid character "${char}" in descriptor`);
+    }
+    symbols.push(value & 31);
+    groups.push(value >> 5);
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2]);
+      groups = [];
+    }
+  }
+  if (groups.length === 1) {
+    symbols.push(groups[0]);
+  } else if (groups.length === 2) {
+    symbols.push(groups[0] * 3 + groups[1]);
+  }
+
+  const checksum = polymod([...symbols, 0, 0, 0, 0, 0, 0, 0, 0]) ^ 1n;
+  let result = "";
+  for (let i = 0; i < 8; i++) {
+    result += CHECKSUM_CHARSET[Number((checksum >> BigInt(5 * (7 - i))) & 31n)];
+  }
+  return result;
+}
+
+function parseChildNumber(step: string, allowHardened: boolean): number {
+  const match = step.match(/^(\d+)(['hH]?)$/);
+  if (!match) {
+    throw new Error(`Invalid derivation step "${step}"`);
+  }
+  const index = Number(match[1]);
+  if (index >= HARDENED_OFFSET) {
+    throw new Error(`Derivation step "${step}" is out of range`);
+  }
+  if (match[2] && !allowHardened) {
+    throw new Error(
+      `Hardened step "${step}" cannot be derived from an extended public key`
+    );
+  }
+  return match[2] ? index + HARDENED_OFFSET : index;
+}
+
+function parseOrigin(origin: string): KeyOrigin {
+  const [fingerprint, ...path] = origin.split("/");
+  if (!/^[0-9a-fA-F]{8}$/.test(fingerprint)) {
+    throw new Error(
+      `Key origin fingerprint must be 8 hex characters, got "${fingerprint}"`
+    );
+  }
+  for (const step of path) {
+    parseChildNumber(step, true);
+  }
+
+  return {
+    fingerprint: fingerprint.toLowerCase(),
+    path: path.map((step) => step.replace(/[hH]$/, "'")).join("/"),
+  };
+}
+
+function parseSteps(parts: string[]): DerivationStep[] {
+  const steps: DerivationStep[] = [];
+
+  for (const [i, part] of parts.entries()) {
+    if (part === "*") {
+      if (i !== parts.length - 1) {
+        throw new Error("The * wildcard must be the last derivation step");
+      }
+      steps.push("*");
+      continue;
+    }
+    if (/^\*['hH]$/.test(part)) {
+      throw new Error(
+        "Hardened wildcards cannot be derived from an extended public key"
+      );
+    }
+
+    const multipath = part.match(/^<(.*)>$/);
+    if (multipath) {
+      if (steps.some((step) => Array.isArray(step))) {
+        throw new Error("Only one <a;b> multipath step is allowed per key");
+      }
+      const alternatives = multipath[1]
+        .split(";")
+        .map((step) => parseChildNumber(step, false));
+      if (alternatives.length < 2) {
+        throw new Error(`Multipath step "${part}" needs at least two paths`);
+      }
+      if (new Set(alternatives).size !== alternatives.length) {
+        throw new Error(`Multipath step "${part}" repeats a path`);
+      }
+      steps.push(alternatives);
+      continue;
+    }
+
+    steps.push(parseChildNumber(part, false));
+  }
+
+  if (steps[steps.length - 1] !== "*") {
+    throw new Error(
+      "Descriptor keys must end in a /* wildcard to derive deposit addresses"
+    );
+  }
+  return steps;
+}
+
+/**
+ * Parse a key expression used in `context`, the script around it such as
+ * "sh(wpkh)". SLIP-132 keys are converted to xpub/tpub after checking
+ * their version agrees with `context`.
+ */
+function parseKey(expression: string, context: string): DescriptorKey {
+  let origin: KeyOrigin | null = null;
+  let rest = expression;
+
+  if (rest.startsWith("[")) {
+    const end = rest.indexOf("]");
+    if (end === -1) {
+      throw new Error("Key origin is missing its closing ]");
+    }
+    origin = parseOrigin(rest.slice(1, end));
+    rest = rest.slice(end + 1);
+  }
+
+  const [key, ...path] = rest.split("/");
+  if (/^[xtyzuvYZUV]prv/.test(key)) {
+    throw new Error(
+      "Descriptors must not contain private keys; use the extended public key"
+    );
+  }
+  if (!/^[xtyzuvYZUV]pub[1-9A-HJ-NP-Za-km-z]+$/.test(key)) {
+    throw new Error(
+      `Unsupported key "${key.slice(0, 12)}"; only extended public keys are supported`
+    );
+  }
+
+  const { xpub, script } = toStandardExtendedKey(key);
+  if (script && script !== context) {
+    throw new Error(
+      `${key.slice(0, 4)} keys are for ${script}() scripts but this key is used in ${context}()`
+    );
+  }
+
+  return { origin, xpub, steps: parseSteps(path) };
+}
+
+function parseMulti(
+  name: "multi" | "sortedmulti",
+  args: string,
+  parents: Array<"sh" | "wsh">
+): DescriptorScript {
+  const parent = parents[parents.length - 1];
+  const [threshold, ...keys] = args.split(",");
+  if (!/^\d+$/.test(threshold)) {
+    throw new Error(`${name}() threshold must be a number, got "${threshold}"`);
+  }
+  const k = Number(threshold);
+  if (k < 1 || k > keys.length) {
+    throw new Error(
+      `${name}() threshold ${k} must be between 1 and the ${keys.length} keys`
+    );
+  }
+  if (keys.length > MAX_MULTISIG_KEYS[parent]) {
+    throw new Error(
+      `${parent}(${name}()) allows at most ${MAX_MULTISIG_KEYS[parent]} keys`
+    );
+  }
+
+  const context = describeContext(parents, "multi");
+  return {
+    type: name,
+    threshold: k,
+    keys: keys.map((key) => parseKey(key, context)),
+  };
+}
+
+/**
+ * Write the wrappers around a script as in SLIP-132, e.g. "sh(wsh(multi))"
+ */
+function describeContext(parents: Array<"sh" | "wsh">, name: string): string {
+  return [...parents, name].reduceRight((inner, outer) => `${outer}(${inner})`);
+}
+
+function parseScript(
+  expression: string,
+  parents: Array<"sh" | "wsh">
+): DescriptorScript {
+  const match = expression.match(/^([a-z]+)\((.*)\)$/);
+  if (!match) {
+    throw new Error(`Invalid descriptor expression "${expression}"`);
+  }
+  const [, name, args] = match;
+  const parent = parents.length ? parents[parents.length - 1] : null;
+
+  switch (name) {
+    case "pkh":
+      if (parent === "wsh") {
+        throw new Error("wsh(pkh()) is not supported");
+      }
+      return {
+        type: name,
+        key: parseKey(args, describeContext(parents, name)),
+      };
+    case "wpkh":
+      if (parent === "wsh") {
+        throw new Error("wpkh() cannot be nested inside wsh()");
+      }
+      return {
+        type: name,
+        key: parseKey(args, describeContext(parents, name)),
+      };
+    case "tr":
+      if (parent) {
+        throw new Error("tr() is only allowed at the top level");
+      }
+      if (args.includes(",")) {
+        throw new Error("Taproot script trees are not supported");
+      }
+      return { type: "tr", key: parseKey(args, "tr") };
+    case "sh":
+      if (parent) {
+        throw new Error("sh() is only allowed at the top level");
+      }
+      return { type: "sh", script: parseScript(args, ["sh"]) };
+    case "wsh":
+      if (parent === "wsh") {
+        throw new Error("wsh() cannot be nested inside wsh()");
+      }
+      return { type: "wsh", script: parseScript(args, [...parents, "wsh"]) };
+    case "multi":
+    case "sortedmulti":
+      if (!parent) {
+        throw new Error(
+          `Bare ${name}() has no address; wrap it in wsh() or sh(wsh())`
+        );
+      }
+      return parseMulti(name, args, parents);
+    default:
+      throw new Error(`${name}() descriptors are not supported`);
+  }
+}
+
+function collectKeys(script: DescriptorScript): DescriptorKey[] {
+  switch (script.type) {
+    case "sh":
+    case "wsh":
+      return collectKeys(script.script);
+    case "multi":
+    case "sortedmulti":
+      return script.keys;
+    default:
+      return [script.key];
+  }
+}
+
+/**
+ * Number of `<a;b>` alternatives shared by every multipath key
+ */
+function countBranches(keys: DescriptorKey[]): number {
+  const counts = new Set<number>();
+  for (const key of keys) {
+    const multipath = key.steps.find((step) => Array.isArray(step));
+    if (Array.isArray(multipath)) {
+      counts.add(multipath.length);
+    }
+  }
+  if (counts.size > 1) {
+    throw new Error(
+      "All multipath keys must have the same number of <a;b> alternatives"
+    );
+  }
+  return counts.size ? [...counts][0] : 1;
+}
+
+function formatSteps(steps: DerivationStep[]): string {
+  return steps
+    .map((step) => (Array.isArray(step) ? `<${step.join(";")}>` : `${step}`))
+    .join("/");
+}
+
+/**
+ * Wrap a bare SLIP-132 key, such as a zpub exported by a wallet, in the
+ * descriptor its version implies. Without steps after the key, receive
+ * addresses are derived from `/0/*`.
+ */
+function descriptorFromKey(expression: string): string {
+  const rest = expression.replace(/^\[[^\]]*\]/, "");
+  const [key] = rest.split("/");
+  const { script } = toStandardExtendedKey(key);
+  if (script === null) {
+    throw new Error(
+      `A bare ${key.slice(0, 4)} key does not say which addresses to derive; use a descriptor such as wpkh(${key.slice(0, 4)}.../0/*)`
+    );
+  }
+  if (script.includes("multi")) {
+    throw new Error(
+      `${key.slice(0, 4)} keys are for multisig; use them in a ${script.replace(
+        "multi",
+        "sortedmulti(...)"
+      )} descriptor`
+    );
+  }
+
+  const steps = rest.includes("/") ? "" : "/0/*";
+  return script.replace("wpkh", `wpkh(${expression}${steps})`);
+}
+
+/**
+ * Parse a BIP380 output descriptor. A `#checksum` suffix is verified when
+ * present. Keys must be extended public keys ending in a `/*` wildcard;
+ * SLIP-132 keys (ypub, zpub, ...) are converted to xpub/tpub, and a bare
+ * ypub/zpub/upub/vpub is accepted in place of a descriptor.
+ */
 export function parseDescriptor(
   descriptor: string,
-  network: "mainnet" | "testnet" | "regtest" | "signet" = "mainnet"
+  network: Network = "mainnet"
 ): ParsedDescriptor {
-  const btcNetwork =
-    network === "mainnet" ? bitcoin.networks.bitcoin : bitcoin.networks.testnet;
+  const btcNetwork = getBitcoinNetwork(network);
 
-  const typeMatch = descriptor.match(/^(tr|wpkh|sh|pkh)\(/);
-  if (!typeMatch) {
-    throw new Error("Unsupported descriptor type");
+  const input = descriptor.trim();
+  const [body, checksum, ...extra] = (
+    input.includes("(") ? input : descriptorFromKey(input)
+  ).split("#");
+  if (extra.length > 0) {
+    throw new Error("Descriptor contains more than one #");
+  }
+  const expected = descriptorChecksum(body);
+  if (checksum !== undefined && checksum !== expected) {
+    throw new Error(
+      `Descriptor checksum "${checksum}" does not match the computed checksum "${expected}"`
+    );
   }
-  const type = typeMatch[1] as "tr" | "wpkh" | "sh" | "pkh";
 
-  const xpubMatch = descriptor.match(/(xpub[a-zA-Z0-9]+|tpub[a-zA-Z0-9]+)/);
-  if (!xpubMatch) {
-    throw new Error("No xpub found in descriptor");
+  const script = parseScript(body, []);
+  const keys = collectKeys(script);
+  for (const key of keys) {
+    const mainnetKey = key.xpub.startsWith("xpub");
+    if (mainnetKey !== (network === "mainnet")) {
+      throw new Error(
+        `Key "${key.xpub.slice(0, 12)}..." is a ${
+          mainnetKey ? "mainnet" : "test network"
+        } key but network is "${network}"`
+      );
+    }
+    try {
+      bip32.fromBase58(key.xpub, btcNetwork);
+    } catch (err) {
+      throw new Error(
+        `Invalid extended key "${key.xpub.slice(0, 12)}...": ${
+          err instanceof Error ? err.message : err
+        }`
+      );
+    }
   }
-  const xpub = xpubMatch[1];
 
-  const pathMatch = descriptor.match(/xpub[a-zA-Z0-9]+\/([0-9\/*h']+)/);
-  const derivationPath = pathMatch ? pathMatch[1] : "0/*";
+  // Bitcoin Core only imports xpub/tpub keys
+  const standard = body.replace(
+    /(^|[(,\]])([yzuvYZUV]pub[1-9A-HJ-NP-Za-km-z]+)/g,
+    (_, before: string, key: string) => before + toStandardExtendedKey(key).xpub
+  );
+  const standardChecksum =
+    standard === body ? expected : descriptorChecksum(standard);
 
   return {
-    type,
-    xpub,
-    derivationPath,
+    // parseScript rejects bare multi() at the top level
+    type: script.type as AddressScriptType,
+    script,
+    keys,
+    xpub: keys[0].xpub,
+    derivationPath: formatSteps(keys[0].steps),
+    branches: countBranches(keys),
+    descriptor: `${standard}#${standardChecksum}`,
+    checksum: standardChecksum,
     network: btcNetwork,
   };
 }
 
-export function deriveAddress(
-  descriptor: ParsedDescriptor,
-  index: number
-): { address: string; scriptPubKey: Buffer } {
-  const node = bip32.fromBase58(descriptor.xpub, descriptor.network);
-
-  const childNode = node.derive(0).derive(index);
+function deriveKey(
+  key: DescriptorKey,
+  index: number,
+  branch: number,
+  network: bitcoin.Network
+): Buffer {
+  let node = bip32.fromBase58(key.xpub, network);
+  for (const step of key.steps) {
+    if (step === "*") {
+      node = node.derive(index);
+    } else if (Array.isArray(step)) {
+      node = node.derive(step[branch]);
+    } else {
+      node = node.derive(step);
+    }
+  }
+  return Buffer.from(node.publicKey);
+}
 
-  let payment: bitcoin.Payment;
-  switch (descriptor.type) {
+function createPayment(
+  script: DescriptorScript,
+  index: number,
+  branch: number,
+  network: bitcoin.Network
+): bitcoin.Payment {
+  switch (script.type) {
     case "tr": {
-      const internalPubkey = Buffer.from(childNode.publicKey.subarray(1, 33));
-      payment = bitcoin.payments.p2tr({
-        internalPubkey,
-        network: descriptor.network,
+      const pubkey = deriveKey(script.key, index, branch, network);
+      return bitcoin.payments.p2tr({
+        internalPubkey: pubkey.subarray(1, 33),
+        network,
       });
-      break;
     }
-    case "wpkh": {
-      payment = bitcoin.payments.p2wpkh({
-        pubkey: Buffer.from(childNode.publicKey),
-        network: descriptor.network,
+    case "wpkh":
+      return bitcoin.payments.p2wpkh({
+        pubkey: deriveKey(script.key, index, branch, network),
+        network,
       });
-      break;
-    }
-    case "sh": {
-      const p2wpkh = bitcoin.payments.p2wpkh({
-        pubkey: Buffer.from(childNode.publicKey),
-        network: descriptor.network,
+    case "pkh":
+      return bitcoin.payments.p2pkh({
+        pubkey: deriveKey(script.key, index, branch, network),
+        network,
       });
-      payment = bitcoin.payments.p2sh({
-        redeem: p2wpkh,
-        network: descriptor.network,
+    case "sh":
+      return bitcoin.payments.p2sh({
+        redeem: createPayment(script.script, index, branch, network),
+        network,
       });
-      break;
-    }
-    case "pkh": {
-      payment = bitcoin.payments.p2pkh({
-        pubkey: Buffer.from(childNode.publicKey),
-        network: descriptor.network,
+    case "wsh":
+      return bitcoin.payments.p2wsh({
+        redeem: createPayment(script.script, index, branch, network),
+        network,
       });
-      break;
+    case "multi":
+    case "sortedmulti": {
+      const pubkeys = script.keys.map((key) =>
+        deriveKey(key, index, branch, network)
+      );
+      // BIP67: sortedmulti orders keys lexicographically
+      if (script.type === "sortedmulti") {
+        pubkeys.sort(Buffer.compare);
+      }
+      return bitcoin.payments.p2ms({ m: script.threshold, pubkeys, network });
     }
-    default:
-      throw new Error(`Unsupported descriptor type: ${descriptor.type}`);
+  }
+}
+
+export interface DerivedAddress {
+  address: string;
+  scriptPubKey: Buffer;
+  /**
+   * Script committed to by a P2SH output, needed to spend it
+   */
+  redeemScript?: Buffer;
+  /**
+   * Script committed to by a P2WSH output (directly or nested in P2SH),
+   * needed by the cosigners to spend it
+   */
+  witnessScript?: Buffer;
+}
+
+/**
+ * Derive the address at `index`. `branch` selects the path of a `<a;b>`
+ * multipath step, e.g. 0 for receive and 1 for change with `<0;1>/*`.
+ */
+export function deriveAddress(
+  descriptor: ParsedDescriptor,
+  index: number,
+  branch = 0
+): DerivedAddress {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Invalid address index ${index}`);
+  }
+  if (!Number.isInteger(branch) || branch < 0 || branch >= descriptor.branches) {
+    throw new Error(`Descriptor has no multipath branch ${branch}`);
   }
 
+  const payment = createPayment(
+    descriptor.script,
+    index,
+    branch,
+    descriptor.network
+  );
   if (!payment.address || !payment.output) {
     throw new Error("Failed to derive address");
   }
 
+  const { script } = descriptor;
+  const nested = script.type === "sh" ? payment.redeem : undefined;
+  const witness =
+    script.type === "wsh"
+      ? payment.redeem
+      : script.type === "sh" && script.script.type === "wsh"
+        ? nested?.redeem
+        : undefined;
+
   return {
     address: payment.address,
     scriptPubKey: payment.output,
+    redeemScript: nested?.output,
+    witnessScript: witness?.output,
   };
 }
 
+export interface KeyPath {
+  /**
+   * Master key fingerprint, when the key has an origin
+   */
+  fingerprint: string | null;
+  /**
+   * Path from the master key, e.g. "m/84'/0'/0'/0/5". Without a key origin
+   * the path starts at the extended key instead.
+   */
+  path: string;
+}
+
+/**
+ * Full derivation path of each key behind the address at `index`, in
+ * descriptor order, as shown by hardware wallets when verifying it
+ */
+export function derivationPaths(
+  descriptor: ParsedDescriptor,
+  index: number,
+  branch = 0
+): KeyPath[] {
+  return descriptor.keys.map((key) => {
+    const steps = key.steps.map((step) =>
+      step === "*" ? index : Array.isArray(step) ? step[branch] : step
+    );
+    const origin = key.origin?.path ? [key.origin.path] : [];
+    return {
+      fingerprint: key.origin?.fingerprint ?? null,
+      path: ["m", ...origin, ...steps].join("/"),
+    };
+  });
+}
+
 export function createBIP21URI(
   address: string,
   amountSats: number,
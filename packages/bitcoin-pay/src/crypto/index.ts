@@ -1,2 +1,5 @@
 export * from "./magic-link";
 export * from "./descriptor";
+export * from "./networks";
+export * from "./slip132";
+export * from "./webhook";
@@ -0,0 +1,67 @@
+import * as bitcoin from "bitcoinjs-lib";
+import type { Network } from "../types/options.js";
+
+/**
+ * Chain names reported by Bitcoin Core's `getblockchaininfo`
+ */
+export const NETWORK_CHAINS: Record<Network, string> = {
+  mainnet: "main",
+  testnet: "test",
+  testnet4: "testnet4",
+  signet: "signet",
+  regtest: "regtest",
+};
+
+/**
+ * Genesis block hash of each chain, keyed by the `getblockchaininfo` chain
+ * name, for backends that can only report the genesis block
+ */
+export const GENESIS_BLOCK_HASHES: Record<string, string> = {
+  main: "000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f",
+  test: "000000000933ea01ad0ee984209779baaec3ced90fa3f408719526f8d77f4943",
+  testnet4: "00000000da84f2bafbbc53dee25a72ae507ff4914b867c565be350b0da8bf043",
+  signet: "00000008819873e925422c1ff0f99f7cc9bbb232af63a077a480a3633bee1ef6",
+  regtest: "0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206",
+};
+
+/**
+ * Chain name of a genesis block hash; the hash itself when unknown, e.g.
+ * for a custom signet, so a mismatch error still shows it
+ */
+export function chainFromGenesisHash(hash: string): string {
+  for (const [chain, genesis] of Object.entries(GENESIS_BLOCK_HASHES)) {
+    if (genesis === hash) return chain;
+  }
+  return hash;
+}
+
+/**
+ * Address and key encoding parameters of a network. Signet and testnet4
+ * share testnet's `tb` addresses and tpub keys; regtest uses `bcrt`.
+ */
+export function getBitcoinNetwork(network: Network): bitcoin.Network {
+  switch (network) {
+    case "mainnet":
+      return bitcoin.networks.bitcoin;
+    case "regtest":
+      return bitcoin.networks.regtest;
+    case "testnet":
+    case "testnet4":
+    case "signet":
+      return bitcoin.networks.testnet;
+    default:
+      throw new Error(`Unknown network "${network}"`);
+  }
+}
+
+/**
+ * Throw unless a node reporting `chain` serves `network`, so addresses are
+ * never handed out for a chain the watcher cannot see
+ */
+export function assertChainMatches(network: Network, chain: string): void {
+  if (NETWORK_CHAINS[network] !== chain) {
+    throw new Error(
+      `Bitcoin node is on chain "${chain}" but network is "${network}" (expected chain "${NETWORK_CHAINS[network]}")`
+    );
+  }
+}
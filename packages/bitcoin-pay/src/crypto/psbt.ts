@@ -11,6 +11,8 @@ export interface RefundPSBTInput {
   valueSats: number;
   scriptPubKeyHex: string;
   address: string;
+  redeemScriptHex?: string | null;
+  witnessScriptHex?: string | null;
 
   // Refund details
   refundAddress: string;
@@ -55,6 +57,13 @@ export function createRefundPSBT(input: RefundPSBTInput): RefundPSBTOutput {
       script: Buffer.from(input.scriptPubKeyHex, "hex"),
       value: input.valueSats,
     },
+    // Nested and multisig outputs cannot be signed without their scripts
+    ...(input.redeemScriptHex && {
+      redeemScript: Buffer.from(input.redeemScriptHex, "hex"),
+    }),
+    ...(input.witnessScriptHex && {
+      witnessScript: Buffer.from(input.witnessScriptHex, "hex"),
+    }),
   });
 
   // Estimate transaction size
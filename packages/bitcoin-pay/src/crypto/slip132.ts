@@ -0,0 +1,131 @@
+import { sha256 } from "@noble/hashes/sha256";
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Script a SLIP-132 key version commits to, written as the descriptor
+ * wrappers around its key; `null` for plain xpub/tpub keys
+ */
+export type Slip132Script =
+  | "wpkh"
+  | "sh(wpkh)"
+  | "wsh(multi)"
+  | "sh(wsh(multi))"
+  | null;
+
+interface KeyVersion {
+  version: number;
+  standard: "xpub" | "tpub";
+  script: Slip132Script;
+}
+
+/**
+ * Extended public key versions from SLIP-0132
+ */
+export const SLIP132_VERSIONS: Record<string, KeyVersion> = {
+  xpub: { version: 0x0488b21e, standard: "xpub", script: null },
+  ypub: { version: 0x049d7cb2, standard: "xpub", script: "sh(wpkh)" },
+  zpub: { version: 0x04b24746, standard: "xpub", script: "wpkh" },
+  Ypub: { version: 0x0295b43f, standard: "xpub", script: "sh(wsh(multi))" },
+  Zpub: { version: 0x02aa7ed3, standard: "xpub", script: "wsh(multi)" },
+  tpub: { version: 0x043587cf, standard: "tpub", script: null },
+  upub: { version: 0x044a5262, standard: "tpub", script: "sh(wpkh)" },
+  vpub: { version: 0x045f1cf6, standard: "tpub", script: "wpkh" },
+  Upub: { version: 0x024289ef, standard: "tpub", script: "sh(wsh(multi))" },
+  Vpub: { version: 0x02575483, standard: "tpub", script: "wsh(multi)" },
+};
+
+function checksum(payload: Uint8Array): Uint8Array {
+  return sha256(sha256(payload)).subarray(0, 4);
+}
+
+function base58CheckDecode(encoded: string): Uint8Array {
+  let value = 0n;
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid base58 character "${char}"`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  for (const char of encoded) {
+    if (char !== "1") break;
+    bytes.unshift(0);
+  }
+
+  const data = Uint8Array.from(bytes);
+  const payload = data.subarray(0, -4);
+  const expected = checksum(payload);
+  if (
+    data.length < 4 ||
+    !expected.every((byte, i) => byte === data[data.length - 4 + i])
+  ) {
+    throw new Error("Invalid base58 checksum");
+  }
+  return payload;
+}
+
+function base58CheckEncode(payload: Uint8Array): string {
+  const data = new Uint8Array(payload.length + 4);
+  data.set(payload);
+  data.set(checksum(payload), payload.length);
+
+  let value = 0n;
+  for (const byte of data) {
+    value = (value << 8n) + BigInt(byte);
+  }
+  let encoded = "";
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of data) {
+    if (byte !== 0) break;
+    encoded = `1${encoded}`;
+  }
+  return encoded;
+}
+
+/**
+ * Re-encode a SLIP-132 extended public key (ypub, zpub, vpub, ...) with
+ * the standard xpub/tpub version, returning the script its version implied
+ */
+export function toStandardExtendedKey(key: string): {
+  xpub: string;
+  script: Slip132Script;
+} {
+  const prefix = key.slice(0, 4);
+  const known = SLIP132_VERSIONS[prefix];
+  if (!known) {
+    throw new Error(
+      `Unsupported key "${key.slice(0, 12)}"; expected an extended public key such as xpub, ypub or zpub`
+    );
+  }
+  if (known.script === null) {
+    return { xpub: key, script: null };
+  }
+
+  const payload = base58CheckDecode(key);
+  const version = new DataView(
+    payload.buffer,
+    payload.byteOffset,
+    payload.byteLength
+  ).getUint32(0);
+  if (payload.length !== 78 || version !== known.version) {
+    throw new Error(`Invalid extended key "${key.slice(0, 12)}..."`);
+  }
+
+  const standard = Uint8Array.from(payload);
+  new DataView(standard.buffer).setUint32(
+    0,
+    SLIP132_VERSIONS[known.standard].version
+  );
+  return { xpub: base58CheckEncode(standard), script: known.script };
+}
@@ -0,0 +1,64 @@
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex } from "@noble/hashes/utils";
+import { timingSafeEqual } from "./magic-link";
+
+export const WEBHOOK_SIGNATURE_HEADER = "bitcoin-pay-signature";
+
+/**
+ * Sign a webhook body. The header value is `t=<unix seconds>,v1=<hex>`,
+ * where the HMAC-SHA256 covers `${t}.${payload}` so a captured request
+ * cannot be replayed with a new timestamp.
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = hmac(
+    sha256,
+    Buffer.from(secret),
+    Buffer.from(`${timestamp}.${payload}`)
+  );
+  return `t=${timestamp},v1=${bytesToHex(signature)}`;
+}
+
+/**
+ * Verify a received webhook. `payload` must be the raw request body, not
+ * re-serialized JSON.
+ */
+export function verifyWebhookSignature(data: {
+  payload: string;
+  header: string | null | undefined;
+  secret: string;
+  toleranceSeconds?: number;
+}): boolean {
+  if (!data.header) {
+    return false;
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of data.header.split(",")) {
+    const [key, value] = part.split("=", 2);
+    if (key && value) {
+      parts.set(key.trim(), value.trim());
+    }
+  }
+
+  const timestamp = Number(parts.get("t"));
+  const provided = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !provided) {
+    return false;
+  }
+
+  const tolerance = data.toleranceSeconds ?? 300;
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > tolerance) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(data.payload, data.secret, timestamp);
+  return timingSafeEqual(
+    Buffer.from(expected.split("v1=")[1]),
+    Buffer.from(provided)
+  );
+}
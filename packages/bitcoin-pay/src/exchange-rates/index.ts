@@ -0,0 +1,191 @@
+export interface ExchangeRateQuote {
+  /**
+   * ISO 4217 currency code, upper-case
+   */
+  currency: string;
+  /**
+   * Price of one BTC in `currency`
+   */
+  rate: number;
+  /**
+   * When the source produced this price
+   */
+  timestamp: Date;
+  source: string;
+}
+
+export interface ExchangeRateProvider {
+  id: string;
+  getRate(currency: string): Promise<ExchangeRateQuote>;
+}
+
+export interface ExchangeRateServiceOptions {
+  providers: ExchangeRateProvider[];
+  /**
+   * How long an aggregated rate is reused before querying providers again
+   * @default 60
+   */
+  cacheTTLSeconds?: number;
+  /**
+   * Quotes older than this are ignored
+   * @default 600
+   */
+  maxAgeSeconds?: number;
+  /**
+   * Minimum number of fresh quotes required to produce a rate
+   * @default 1
+   */
+  minSources?: number;
+}
+
+/**
+ * Convert a fiat amount to sats at `rate` (fiat per BTC)
+ */
+export function fiatToSats(amountFiat: number, rate: number): number {
+  return Math.round((amountFiat / rate) * 100_000_000);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+/**
+ * Aggregate several providers into a single cached rate. The median of all
+ * fresh quotes is used so a single bad source cannot skew the price.
+ */
+export function createExchangeRateService(
+  options: ExchangeRateServiceOptions
+) {
+  if (options.providers.length === 0) {
+    throw new Error("At least one exchange rate provider is required");
+  }
+
+  const cacheTTLMs = (options.cacheTTLSeconds ?? 60) * 1000;
+  const maxAgeMs = (options.maxAgeSeconds ?? 600) * 1000;
+  const minSources = options.minSources ?? 1;
+  const cache = new Map<
+    string,
+    { quote: ExchangeRateQuote; cachedAt: number }
+  >();
+
+  async function getRate(currency: string): Promise<ExchangeRateQuote> {
+    const code = currency.toUpperCase();
+    const cached = cache.get(code);
+    if (cached && Date.now() - cached.cachedAt < cacheTTLMs) {
+      return cached.quote;
+    }
+
+    const results = await Promise.allSettled(
+      options.providers.map((provider) => provider.getRate(code))
+    );
+
+    const now = Date.now();
+    const fresh: ExchangeRateQuote[] = [];
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === "rejected") {
+        console.warn(
+          `Exchange rate provider "${options.providers[i].id}" failed:`,
+          result.reason
+        );
+        continue;
+      }
+      const quote = result.value;
+      if (!(quote.rate > 0) || now - quote.timestamp.getTime() > maxAgeMs) {
+        continue;
+      }
+      fresh.push(quote);
+    }
+
+    if (fresh.length < minSources) {
+      throw new Error(
+        `Not enough fresh exchange rates for ${code}: got ${fresh.length}, need ${minSources}`
+      );
+    }
+
+    const quote: ExchangeRateQuote = {
+      currency: code,
+      rate: median(fresh.map((q) => q.rate)),
+      timestamp: new Date(
+        Math.min(...fresh.map((q) => q.timestamp.getTime()))
+      ),
+      source: fresh.map((q) => q.source).join(","),
+    };
+    cache.set(code, { quote, cachedAt: now });
+
+    return quote;
+  }
+
+  return {
+    getRate,
+    clearCache: () => cache.clear(),
+  };
+}
+
+export type ExchangeRateService = ReturnType<
+  typeof createExchangeRateService
+>;
+
+/**
+ * Fixed rates, e.g. for tests or manually managed prices
+ */
+export function staticRateProvider(
+  rates: Record<string, number>,
+  options: { id?: string } = {}
+): ExchangeRateProvider {
+  const id = options.id ?? "static";
+  return {
+    id,
+    async getRate(currency) {
+      const code = currency.toUpperCase();
+      const rate = rates[code];
+      if (rate === undefined) {
+        throw new Error(`No ${code} rate configured`);
+      }
+      return { currency: code, rate, timestamp: new Date(), source: id };
+    },
+  };
+}
+
+/**
+ * Read rates from a JSON file shaped as `{ "USD": 65000 }` or
+ * `{ "timestamp": "...", "rates": { "USD": 65000 } }`. The file is re-read
+ * on every request, so it can be updated by an external job. Node only;
+ * `node:fs` is imported on first use so edge runtimes can still load the
+ * package.
+ */
+export function fileRateProvider(
+  path: string,
+  options: { id?: string } = {}
+): ExchangeRateProvider {
+  const id = options.id ?? "file";
+  return {
+    id,
+    async getRate(currency) {
+      const code = currency.toUpperCase();
+      const { readFile } = await import("node:fs/promises");
+      const json = JSON.parse(await readFile(path, "utf8")) as
+        | Record<string, number>
+        | { timestamp?: string; rates: Record<string, number> };
+
+      const rates = (
+        "rates" in json && typeof json.rates === "object" ? json.rates : json
+      ) as Record<string, number>;
+      const rate = rates[code];
+      if (typeof rate !== "number") {
+        throw new Error(`No ${code} rate in ${path}`);
+      }
+
+      const timestamp =
+        "timestamp" in json && typeof json.timestamp === "string"
+          ? new Date(json.timestamp)
+          : new Date();
+
+      return { currency: code, rate, timestamp, source: id };
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex } from "@noble/hashes/utils";
+import type { StorageAdapter } from "../types/adapter.js";
+import type { IdempotencyRecord } from "../types/models.js";
+
+/**
+ * A reused idempotency key that cannot be replayed
+ */
+export class IdempotencyConflictError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+type IdempotencyStorage = Required<
+  Pick<
+    StorageAdapter,
+    | "createIdempotencyRecord"
+    | "getIdempotencyRecord"
+    | "updateIdempotencyRecord"
+    | "deleteIdempotencyRecord"
+  >
+>;
+
+function requireIdempotencyStorage(
+  storage: StorageAdapter
+): IdempotencyStorage {
+  if (
+    !storage.createIdempotencyRecord ||
+    !storage.getIdempotencyRecord ||
+    !storage.updateIdempotencyRecord ||
+    !storage.deleteIdempotencyRecord
+  ) {
+    throw new Error("Storage adapter does not support idempotency keys");
+  }
+  return storage as IdempotencyStorage;
+}
+
+/**
+ * JSON with sorted keys so the hash does not depend on property order
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Stored result of an earlier request with the same key
+ */
+function replay<T>(record: IdempotencyRecord, requestHash: string): T {
+  if (record.requestHash !== requestHash) {
+    throw new IdempotencyConflictError(
+      "Idempotency key was already used with different parameters"
+    );
+  }
+  if (record.response == null) {
+    throw new IdempotencyConflictError(
+      "A request with this idempotency key is still in progress"
+    );
+  }
+  return JSON.parse(record.response) as T;
+}
+
+export function createIdempotencyStore(config: {
+  storage: StorageAdapter;
+  ttlSeconds: number;
+}) {
+  const { storage, ttlSeconds } = config;
+
+  /**
+   * Run `execute` once per (scope, key). Repeats with the same parameters
+   * get the stored result back; different parameters or a repeat while
+   * the first call is still running raise an IdempotencyConflictError.
+   */
+  async function run<T>(
+    request: { scope: string; key: string; params: unknown },
+    execute: () => Promise<T>
+  ): Promise<T> {
+    const records = requireIdempotencyStorage(storage);
+    const requestHash = bytesToHex(sha256(canonicalJSON(request.params)));
+
+    let existing = await records.getIdempotencyRecord(
+      request.scope,
+      request.key
+    );
+    if (existing && existing.expiresAt < new Date()) {
+      await records.deleteIdempotencyRecord(existing.id);
+      existing = null;
+    }
+
+    if (existing) {
+      return replay<T>(existing, requestHash);
+    }
+
+    // Claim the key before running so concurrent retries cannot both execute
+    let record: IdempotencyRecord;
+    try {
+      record = await records.createIdempotencyRecord({
+        scope: request.scope,
+        key: request.key,
+        requestHash,
+        response: null,
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+      });
+    } catch (err) {
+      // Only a record claimed meanwhile means a conflict; anything else is
+      // a storage failure
+      const claimed = await records.getIdempotencyRecord(
+        request.scope,
+        request.key
+      );
+      if (!claimed) throw err;
+      return replay<T>(claimed, requestHash);
+    }
+
+    let result: T;
+    try {
+      result = await execute();
+    } catch (err) {
+      // Release the key so the request can be retried
+      await records.deleteIdempotencyRecord(record.id);
+      throw err;
+    }
+
+    try {
+      await records.updateIdempotencyRecord(record.id, {
+        response: JSON.stringify(result),
+      });
+    } catch (err) {
+      // Don't leave the key in progress until it expires
+      await records.deleteIdempotencyRecord(record.id);
+      throw err;
+    }
+
+    return result;
+  }
+
+  return { run };
+}
+
+export type IdempotencyStore = ReturnType<typeof createIdempotencyStore>;
@@ -1,3 +1,11 @@
 export * from "./pay";
 export * from "./types";
 export * from "./crypto";
+export * from "./exchange-rates";
+export * from "./auth";
+export * from "./idempotency";
+export * from "./state-machine";
+export * from "./webhooks";
+export * from "./addresses";
+export * from "./stores";
+export * from "./watcher/backend";
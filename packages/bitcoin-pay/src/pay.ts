@@ -1,84 +1,369 @@
-import type { BitcoinPayOptions } from "./types";
-import type { PaymentIntent, DepositAddress } from "./types/models";
+import type {
+  BitcoinPayOptions,
+  EventHandlers,
+  StoreOptions,
+} from "./types";
 import {
-  parseDescriptor,
-  deriveAddress,
-  createBIP21URI,
-} from "./crypto/descriptor";
+  DEFAULT_STORE_ID,
+  type ApiKey,
+  type ApiKeyScope,
+  type PaymentIntent,
+  type DepositAddress,
+} from "./types/models";
+import { type parseDescriptor, createBIP21URI } from "./crypto/descriptor";
 import {
   createMagicLinkToken,
   verifyMagicLinkToken,
 } from "./crypto/magic-link";
 import { nanoid } from "nanoid";
-import type { BitcoinWatcher } from "./watcher/index.js";
+import { summarizePayments } from "./utils/payments";
+import type {
+  BitcoinWatcher,
+  CoreWalletDescriptor,
+} from "./watcher/index.js";
+import { createPluginRunner, type PluginRunner } from "./plugins/index.js";
+import { createRefundManager } from "./refunds/index.js";
+import {
+  createAddressManager,
+  formatAddressesCsv,
+} from "./addresses/index.js";
+import { createStoreRegistry, type StoreRegistry } from "./stores/index.js";
+import { createApiKeyManager, resolveKeyStore } from "./auth/index.js";
+import { createIdempotencyStore } from "./idempotency/index.js";
+import {
+  createIntentStateMachine,
+  IntentStatusChangedError,
+} from "./state-machine/index.js";
+import {
+  createWebhookDispatcher,
+  WEBHOOK_EVENT_TYPES,
+} from "./webhooks/index.js";
+import { createScheduler, type Scheduler } from "./scheduler/index.js";
+import {
+  createStatusBus,
+  createStatusStreamResponse,
+} from "./stream/index.js";
+import {
+  createExchangeRateService,
+  fiatToSats,
+} from "./exchange-rates/index.js";
 
 export interface BitcoinPayContext {
   options: Required<BitcoinPayOptions>;
   parsedDescriptor: ReturnType<typeof parseDescriptor>;
+  stores: StoreRegistry;
   watcherStarted: boolean;
   watcher?: BitcoinWatcher;
+  scheduler?: Scheduler;
+  plugins: PluginRunner;
 }
 
+type EventName = keyof EventHandlers;
+type EventData<K extends EventName> = Parameters<
+  NonNullable<EventHandlers[K]>
+>[0];
+type EventHandler<K extends EventName> = (
+  data: EventData<K>
+) => Promise<void> | void;
+
+type CreatePaymentIntentParams = {
+  /**
+   * @default "default"
+   */
+  storeId?: string;
+  email?: string;
+  customerId?: string;
+  amountSats?: number;
+  amountFiat?: number;
+  currency?: string;
+  memo?: string;
+  expiresInMinutes?: number;
+  requiredConfs?: number;
+};
+
 export const createBitcoinPay = (options: BitcoinPayOptions) => {
   const fullOptions: Required<BitcoinPayOptions> = {
     network: options.network || "mainnet",
     baseURL: options.baseURL,
     secret: options.secret,
     descriptor: options.descriptor,
+    stores: options.stores || [],
     watcher: options.watcher,
     storage: options.storage,
     confirmations: options.confirmations || 1,
     basePath: options.basePath || "/api/pay",
     events: options.events || {},
+    webhooks: options.webhooks || { endpoints: [] },
+    scheduler: options.scheduler || {},
+    exchangeRates: options.exchangeRates || { providers: [] },
     plugins: options.plugins || [],
     advanced: {
       gapLimit: options.advanced?.gapLimit || 20,
+      gapLimitPolicy: options.advanced?.gapLimitPolicy || "warn",
+      addressRecycling: options.advanced?.addressRecycling || {
+        enabled: false,
+      },
       magicLinkTTL: options.advanced?.magicLinkTTL || 86400,
       intentExpiryMinutes: options.advanced?.intentExpiryMinutes || 60,
+      latePaymentGraceMinutes: options.advanced?.latePaymentGraceMinutes || 0,
+      idempotencyKeyTTL: options.advanced?.idempotencyKeyTTL || 86400,
+      statusStreamHeartbeat: options.advanced?.statusStreamHeartbeat || 15,
     },
   };
 
-  const parsedDescriptor = parseDescriptor(
-    fullOptions.descriptor,
-    fullOptions.network
-  );
+  const stores = createStoreRegistry({
+    network: fullOptions.network,
+    descriptor: fullOptions.descriptor,
+    confirmations: fullOptions.confirmations,
+    intentExpiryMinutes: fullOptions.advanced.intentExpiryMinutes as number,
+    stores: fullOptions.stores,
+  });
+  const parsedDescriptor = stores.get(DEFAULT_STORE_ID).descriptor;
+
+  const apiKeys = createApiKeyManager({ storage: fullOptions.storage });
 
   const context: BitcoinPayContext = {
     options: fullOptions,
     parsedDescriptor,
+    stores,
     watcherStarted: false,
+    plugins: createPluginRunner(
+      fullOptions.plugins,
+      { storage: fullOptions.storage, options: fullOptions },
+      { authenticate: apiKeys.authenticate }
+    ),
   };
 
-  async function createPaymentIntent(data: {
-    email?: string;
-    customerId?: string;
-    amountSats: number;
-    memo?: string;
-    expiresInMinutes?: number;
-    requiredConfs?: number;
-  }): Promise<PaymentIntent> {
-    const expiryMins: number = (data.expiresInMinutes ??
-      fullOptions.advanced.intentExpiryMinutes) as number;
+  const refunds = createRefundManager({
+    storage: fullOptions.storage,
+    network: parsedDescriptor.network,
+    rpc: fullOptions.watcher?.rpc,
+  });
+
+  const addresses = createAddressManager({
+    storage: fullOptions.storage,
+    stores,
+    gapLimit: fullOptions.advanced.gapLimit as number,
+    gapLimitPolicy: fullOptions.advanced.gapLimitPolicy as "warn" | "error",
+    recycling: fullOptions.advanced.addressRecycling,
+  });
+
+  const intents = createIntentStateMachine(fullOptions.storage);
+
+  const webhooks = fullOptions.webhooks.endpoints.length
+    ? createWebhookDispatcher({
+        storage: fullOptions.storage,
+        secret: fullOptions.secret,
+        options: fullOptions.webhooks,
+      })
+    : null;
+
+  const statusBus = createStatusBus();
+
+  function requireWebhooks() {
+    if (!webhooks) {
+      throw new Error("Webhooks are not configured");
+    }
+    return webhooks;
+  }
+
+  const idempotency = createIdempotencyStore({
+    storage: fullOptions.storage,
+    ttlSeconds: fullOptions.advanced.idempotencyKeyTTL as number,
+  });
+
+  const exchangeRates = fullOptions.exchangeRates.providers.length
+    ? createExchangeRateService(fullOptions.exchangeRates)
+    : null;
+  const rateLockMinutes = fullOptions.exchangeRates.rateLockMinutes ?? 15;
+
+  /**
+   * Deliver an event to webhooks, open status streams, the configured
+   * handler, the handler of the intent's store and every plugin hook. A
+   * failing handler is logged and does not keep the others from running.
+   */
+  async function emit<K extends EventName>(
+    event: K,
+    payload: Omit<EventData<K>, "storeId">
+  ): Promise<void> {
+    // The watcher serves every store, so route events by their intent
+    const intent = await fullOptions.storage.getPaymentIntent(
+      payload.intentId
+    );
+    const storeId = intent?.storeId ?? DEFAULT_STORE_ID;
+    const data = { ...payload, storeId } as EventData<K>;
+
+    // Persist webhooks first so they survive a crash in the handlers below
+    await webhooks?.enqueue(event, data);
+    statusBus.publish(data.intentId, WEBHOOK_EVENT_TYPES[event]);
+
+    const handlers = [
+      fullOptions.events[event],
+      stores.find(storeId)?.events[event],
+    ] as Array<EventHandler<K> | undefined>;
+    for (const handler of handlers) {
+      try {
+        await handler?.(data);
+      } catch (err) {
+        console.error(`${event} handler failed:`, err);
+      }
+    }
+    await context.plugins.runHook(event, data);
+  }
+
+  async function quoteFiat(amountFiat: number, currency: string) {
+    if (!exchangeRates) {
+      throw new Error("Exchange rate providers are not configured");
+    }
+    if (!(amountFiat > 0)) {
+      throw new Error("amountFiat must be positive");
+    }
+
+    const quote = await exchangeRates.getRate(currency);
+    const now = Date.now();
+
+    return {
+      amountSats: fiatToSats(amountFiat, quote.rate),
+      amountFiat,
+      currency: quote.currency,
+      exchangeRate: quote.rate,
+      rateQuotedAt: new Date(now),
+      rateLockExpiresAt: new Date(now + rateLockMinutes * 60 * 1000),
+    };
+  }
+
+  async function insertPaymentIntent(
+    data: CreatePaymentIntentParams
+  ): Promise<PaymentIntent> {
+    const store = stores.get(data.storeId ?? DEFAULT_STORE_ID);
+    const expiryMins = data.expiresInMinutes ?? store.intentExpiryMinutes;
     const expiresAt = new Date(Date.now() + expiryMins * 60 * 1000);
 
+    if (data.amountFiat !== undefined && data.amountSats !== undefined) {
+      throw new Error("Provide either amountSats or amountFiat, not both");
+    }
+
+    let pricing: Awaited<ReturnType<typeof quoteFiat>> | null = null;
+    if (data.amountFiat !== undefined) {
+      if (!data.currency) {
+        throw new Error("currency is required with amountFiat");
+      }
+      pricing = await quoteFiat(data.amountFiat, data.currency);
+    } else if (!data.amountSats) {
+      throw new Error("amountSats or amountFiat is required");
+    }
+
     const intent = await fullOptions.storage.createPaymentIntent({
+      storeId: store.id,
       customerId: data.customerId ?? null,
       email: data.email ?? null,
-      amountSats: data.amountSats,
+      amountSats: pricing?.amountSats ?? (data.amountSats as number),
+      receivedSats: 0,
+      overpaidSats: 0,
+      amountFiat: pricing?.amountFiat ?? null,
+      currency: pricing?.currency ?? null,
+      exchangeRate: pricing?.exchangeRate ?? null,
+      rateQuotedAt: pricing?.rateQuotedAt ?? null,
+      rateLockExpiresAt: pricing?.rateLockExpiresAt ?? null,
       status: "pending",
       addressId: null,
       memo: data.memo ?? null,
-      requiredConfs: data.requiredConfs || fullOptions.confirmations,
+      requiredConfs: data.requiredConfs || store.confirmations,
       expiresAt,
       confirmedAt: null,
     });
 
+    await intents.recordCreated(intent);
+    await emit("onIntentCreated", { intentId: intent.id });
+
+    return intent;
+  }
+
+  /**
+   * Create a payment intent. With `idempotencyKey`, retries carrying the
+   * same key and parameters return the intent created by the first call.
+   * Keys are scoped to the store, so stores never share cached responses.
+   */
+  async function createPaymentIntent(
+    data: CreatePaymentIntentParams & { idempotencyKey?: string }
+  ): Promise<PaymentIntent> {
+    const { idempotencyKey, ...params } = data;
+    if (!idempotencyKey) {
+      return insertPaymentIntent(params);
+    }
+
+    const { id } = await idempotency.run(
+      {
+        scope: `createPaymentIntent:${params.storeId ?? DEFAULT_STORE_ID}`,
+        key: idempotencyKey,
+        params,
+      },
+      async () => {
+        const intent = await insertPaymentIntent(params);
+        return { id: intent.id };
+      }
+    );
+
+    const intent = await fullOptions.storage.getPaymentIntent(id);
+    if (!intent) {
+      throw new Error("Payment intent not found");
+    }
     return intent;
   }
 
+  /**
+   * Re-price a fiat-denominated intent at the current rate. Intents that
+   * already received funds keep their original quote.
+   */
+  async function requoteIntent(intentId: string): Promise<PaymentIntent> {
+    const intent = await fullOptions.storage.getPaymentIntent(intentId);
+    if (!intent) {
+      throw new Error("Payment intent not found");
+    }
+    if (!intent.amountFiat || !intent.currency) {
+      throw new Error("Payment intent is not fiat-denominated");
+    }
+    if (intent.status !== "pending" || intent.receivedSats > 0) {
+      return intent;
+    }
+
+    const pricing = await quoteFiat(intent.amountFiat, intent.currency);
+    return fullOptions.storage.updatePaymentIntent(intentId, {
+      amountSats: pricing.amountSats,
+      exchangeRate: pricing.exchangeRate,
+      rateQuotedAt: pricing.rateQuotedAt,
+      rateLockExpiresAt: pricing.rateLockExpiresAt,
+    });
+  }
+
   async function createMagicLink(data: {
     intentId: string;
     ttlHours?: number;
+    idempotencyKey?: string;
+  }): Promise<{ url: string; token: string }> {
+    const { idempotencyKey, ...params } = data;
+    if (idempotencyKey) {
+      const intent = await fullOptions.storage.getPaymentIntent(
+        params.intentId
+      );
+      if (!intent) {
+        throw new Error("Payment intent not found");
+      }
+      return idempotency.run(
+        {
+          scope: `createMagicLink:${intent.storeId}`,
+          key: idempotencyKey,
+          params,
+        },
+        () => issueMagicLink(params)
+      );
+    }
+    return issueMagicLink(params);
+  }
+
+  async function issueMagicLink(data: {
+    intentId: string;
+    ttlHours?: number;
   }): Promise<{ url: string; token: string }> {
     const ttlSeconds = (data.ttlHours || 24) * 3600;
     const nonce = nanoid();
@@ -130,14 +415,28 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
     address: string;
     bip21: string;
     amountSats: number;
+    remainingSats: number;
+    amountFiat: number | null;
+    currency: string | null;
+    rateLockExpiresAt: Date | null;
     expiresAt: Date;
     status: string;
   }> {
-    const intent = await fullOptions.storage.getPaymentIntent(intentId);
+    let intent = await fullOptions.storage.getPaymentIntent(intentId);
     if (!intent) {
       throw new Error("Payment intent not found");
     }
 
+    // Refresh the price when the customer opens the page after the lock lapsed
+    if (
+      intent.rateLockExpiresAt &&
+      intent.rateLockExpiresAt < new Date() &&
+      intent.status === "pending" &&
+      intent.receivedSats === 0
+    ) {
+      intent = await requoteIntent(intent.id);
+    }
+
     let depositAddress: DepositAddress | null = null;
 
     if (intent.addressId) {
@@ -147,33 +446,17 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
     }
 
     if (!depositAddress) {
-      depositAddress = await fullOptions.storage.getUnassignedAddress();
-
-      if (!depositAddress) {
-        const nextIndex = await fullOptions.storage.getNextDerivationIndex();
-        const derived = deriveAddress(parsedDescriptor, nextIndex);
-
-        depositAddress = await fullOptions.storage.createDepositAddress({
-          address: derived.address,
-          derivationIndex: nextIndex,
-          scriptPubKeyHex: derived.scriptPubKey.toString("hex"),
-          intentId: null,
-          assignedAt: null,
-        });
-      }
-
-      depositAddress = await fullOptions.storage.assignAddressToIntent(
-        depositAddress.id,
-        intentId
-      );
+      depositAddress = await addresses.assignAddress(intentId, intent.storeId);
       await fullOptions.storage.updatePaymentIntent(intentId, {
         addressId: depositAddress.id,
       });
     }
 
+    // After a partial payment, request only the outstanding balance
+    const remainingSats = Math.max(0, intent.amountSats - intent.receivedSats);
     const bip21 = createBIP21URI(
       depositAddress.address,
-      intent.amountSats,
+      remainingSats > 0 ? remainingSats : intent.amountSats,
       intent.memo || undefined
     );
 
@@ -182,6 +465,10 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
       address: depositAddress.address,
       bip21,
       amountSats: intent.amountSats,
+      remainingSats,
+      amountFiat: intent.amountFiat ?? null,
+      currency: intent.currency ?? null,
+      rateLockExpiresAt: intent.rateLockExpiresAt ?? null,
       expiresAt: intent.expiresAt,
       status: intent.status,
     };
@@ -191,78 +478,388 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
     return fullOptions.storage.getPaymentIntent(intentId);
   }
 
-  async function expireStaleIntents(): Promise<void> {
-    const pending = await fullOptions.storage.listPaymentIntentsByStatus(
-      "pending"
-    );
-    const now = new Date();
+  /**
+   * Create an API key, optionally bound to a registered store
+   */
+  async function createApiKey(data: {
+    name: string;
+    scopes: ApiKeyScope[];
+    storeId?: string;
+  }) {
+    if (data.storeId) {
+      stores.get(data.storeId);
+    }
+    return apiKeys.createApiKey(data);
+  }
 
-    for (const intent of pending) {
-      if (intent.expiresAt < now) {
-        await fullOptions.storage.updatePaymentIntent(intent.id, {
-          status: "expired",
-        });
+  /**
+   * Load an intent for a merchant route. Intents of other stores look
+   * missing to keys bound to a store.
+   */
+  async function getIntentForKey(
+    apiKey: ApiKey,
+    intentId: string
+  ): Promise<PaymentIntent | null> {
+    const intent = await getIntent(intentId);
+    if (intent && apiKey.storeId && intent.storeId !== apiKey.storeId) {
+      return null;
+    }
+    return intent;
+  }
 
-        if (fullOptions.events.onExpired) {
-          await fullOptions.events.onExpired({ intentId: intent.id });
+  /**
+   * Expire pending intents past their `expiresAt` and grace window.
+   * Adapters with `listExpiredPaymentIntents` are queried in batches;
+   * others fall back to scanning every pending intent. Partially paid
+   * intents move to `paid_late` instead, so their funds can be refunded.
+   */
+  async function expireStaleIntents(batchSize = 100): Promise<number> {
+    const storage = fullOptions.storage;
+    const graceMinutes = fullOptions.advanced.latePaymentGraceMinutes as number;
+    const now = new Date(Date.now() - graceMinutes * 60_000);
+    let expired = 0;
+    let batch: PaymentIntent[];
+
+    do {
+      batch = storage.listExpiredPaymentIntents
+        ? await storage.listExpiredPaymentIntents(now, batchSize)
+        : (await storage.listPaymentIntentsByStatus("pending")).filter(
+            (intent) => intent.expiresAt < now
+          );
+
+      for (const intent of batch) {
+        if (intent.receivedSats > 0) {
+          await holdPartialPayment(intent);
+          continue;
+        }
+
+        try {
+          await intents.transition(intent, "expired", {
+            reason: "expired",
+            actor: "system",
+          });
+        } catch (err) {
+          // Paid or failed since the batch was listed: leave it be
+          if (err instanceof IntentStatusChangedError) continue;
+          throw err;
         }
+        expired++;
+
+        await emit("onExpired", { intentId: intent.id });
       }
+    } while (storage.listExpiredPaymentIntents && batch.length === batchSize);
+
+    return expired;
+  }
+
+  /**
+   * Park an intent that expired underpaid in `paid_late`, reported like a
+   * late payment of its most recent transaction
+   */
+  async function holdPartialPayment(intent: PaymentIntent): Promise<void> {
+    try {
+      await intents.transition(intent, "paid_late", {
+        reason: "expired_underpaid",
+        actor: "system",
+      });
+    } catch (err) {
+      if (err instanceof IntentStatusChangedError) return;
+      throw err;
+    }
+
+    const txs = await fullOptions.storage.getTxObservationsByIntent(intent.id);
+    const txid = txs[0]?.txid ?? "";
+    await emit("onLatePayment", {
+      intentId: intent.id,
+      txid,
+      valueSats: txs
+        .filter((tx) => tx.txid === txid)
+        .reduce((sum, tx) => sum + tx.valueSats, 0),
+      receivedSats: intent.receivedSats,
+    });
+  }
+
+  /**
+   * Accept a payment that arrived after expiry. The intent continues like
+   * an on-time payment: confirmed if the funds already have enough
+   * confirmations, otherwise processing until the watcher confirms it.
+   */
+  async function acceptLatePayment(intentId: string): Promise<PaymentIntent> {
+    const intent = await fullOptions.storage.getPaymentIntent(intentId);
+    if (!intent) {
+      throw new Error("Payment intent not found");
+    }
+    if (intent.status !== "paid_late") {
+      throw new Error("Payment intent has no late payment to accept");
+    }
+
+    const txs = await fullOptions.storage.getTxObservationsByIntent(intentId);
+    const totals = summarizePayments(intent, txs);
+    const latest = txs[0];
+    if (!latest || totals.receivedSats < intent.amountSats) {
+      throw new Error("Late payment does not cover the intent amount");
+    }
+
+    const details = {
+      reason: "late_payment_accepted",
+      actor: "merchant" as const,
+      txid: latest.txid,
+    };
+
+    if (totals.confirmedSats >= intent.amountSats) {
+      const confirmed = await intents.transition(intent, "confirmed", {
+        ...details,
+        data: { confirmedAt: new Date() },
+      });
+      await emit("onConfirmed", {
+        intentId,
+        txid: latest.txid,
+        valueSats: totals.receivedSats,
+        confirmations: Math.min(
+          ...txs
+            .filter((tx) => tx.confirmations >= intent.requiredConfs)
+            .map((tx) => tx.confirmations)
+        ),
+      });
+      return confirmed;
+    }
+
+    const processing = await intents.transition(intent, "processing", details);
+    await emit("onProcessing", {
+      intentId,
+      txid: latest.txid,
+      valueSats: totals.receivedSats,
+    });
+    return processing;
+  }
+
+  /**
+   * Refund everything received for a late payment and fail the intent.
+   * Continue with `buildRefund`, `signRefund` and `broadcastRefund`.
+   */
+  async function refundLatePayment(data: {
+    intentId: string;
+    refundAddress: string;
+    feeRate: number;
+    feePayer?: "merchant" | "customer";
+  }) {
+    const intent = await fullOptions.storage.getPaymentIntent(data.intentId);
+    if (!intent) {
+      throw new Error("Payment intent not found");
+    }
+    if (intent.status !== "paid_late") {
+      throw new Error("Payment intent has no late payment to refund");
+    }
+
+    const refund = await refunds.requestRefund({
+      ...data,
+      amountSats: intent.receivedSats,
+    });
+    await intents.transition(intent, "failed", {
+      reason: "late_payment_refunded",
+      actor: "merchant",
+    });
+    return refund;
+  }
+
+  /**
+   * Return quarantined addresses of unpaid expired intents to the pool.
+   * Each address is checked through the watcher's chain backend; funded
+   * ones are rescanned instead, which surfaces the missed payment as a
+   * late payment.
+   */
+  async function recycleAddresses(): Promise<DepositAddress[]> {
+    const watcher = context.watcher;
+    if (!watcher) {
+      throw new Error(
+        "Address recycling checks addresses through the watcher; call startWatcher first"
+      );
+    }
+
+    const released = await addresses.recycleAddresses({
+      getHistory: (address) => watcher.getAddressHistory(address.address),
+      onReceived: async (address) => {
+        if (address.intentId) {
+          await watcher.scanForPayments(address.intentId);
+        }
+      },
+    });
+
+    for (const address of released) {
+      await watcher.removeAddress(address.address);
+    }
+    return released;
+  }
+
+  async function cleanupMagicLinks(): Promise<void> {
+    if (!fullOptions.storage.deleteExpiredMagicLinkTokens) {
+      throw new Error("Storage adapter does not support magic link cleanup");
+    }
+    await fullOptions.storage.deleteExpiredMagicLinkTokens(new Date());
+  }
+
+  function createMaintenanceScheduler(): Scheduler {
+    const { scheduler } = fullOptions;
+    const jobs = [
+      {
+        name: "expire-intents",
+        intervalMs: (scheduler.expireIntentsInterval ?? 60) * 1000,
+        run: async () => {
+          await expireStaleIntents(scheduler.batchSize ?? 100);
+        },
+      },
+      {
+        name: "cleanup-magic-links",
+        intervalMs: (scheduler.cleanupMagicLinksInterval ?? 3600) * 1000,
+        run: cleanupMagicLinks,
+      },
+      {
+        name: "reconcile",
+        intervalMs: (scheduler.reconcileInterval ?? 300) * 1000,
+        run: async () => {
+          await context.watcher?.reconcile();
+        },
+      },
+    ];
+
+    if (fullOptions.advanced.addressRecycling?.enabled) {
+      jobs.push({
+        name: "recycle-addresses",
+        intervalMs: (scheduler.recycleAddressesInterval ?? 3600) * 1000,
+        run: async () => {
+          await recycleAddresses();
+        },
+      });
+    }
+
+    if (webhooks) {
+      jobs.push({
+        name: "retry-webhooks",
+        intervalMs: (scheduler.webhookRetryInterval ?? 30) * 1000,
+        run: async () => {
+          await webhooks.processDue();
+        },
+      });
+    }
+
+    return createScheduler({ storage: fullOptions.storage, jobs });
+  }
+
+  /**
+   * Mark an intent as failed, e.g. when the order was cancelled or could
+   * not be fulfilled. Confirmed intents may still need a refund.
+   */
+  async function failIntent(
+    intentId: string,
+    reason = "merchant_failed"
+  ): Promise<PaymentIntent> {
+    const intent = await fullOptions.storage.getPaymentIntent(intentId);
+    if (!intent) {
+      throw new Error("Payment intent not found");
     }
+    return intents.transition(intent, "failed", { reason, actor: "merchant" });
+  }
+
+  /**
+   * Run one scheduler job now under its lock, e.g. from an external cron
+   * in serverless deployments. Resolves false if another run holds it.
+   */
+  function runScheduledJob(name: string): Promise<boolean> {
+    context.scheduler ??= createMaintenanceScheduler();
+    return context.scheduler.run(name);
+  }
+
+  /**
+   * Every store descriptor, ranged over the indices derived so far plus
+   * the gap limit
+   */
+  async function coreWalletDescriptors(): Promise<CoreWalletDescriptor[]> {
+    const gapLimit = fullOptions.advanced.gapLimit as number;
+    const descriptors: CoreWalletDescriptor[] = [];
+    for (const store of stores.list()) {
+      const next = await fullOptions.storage.getNextDerivationIndex(store.id);
+      descriptors.push({
+        desc: store.descriptor.descriptor,
+        range: next + gapLimit,
+      });
+    }
+    return descriptors;
   }
 
   async function startWatcher(): Promise<void> {
+    if (fullOptions.scheduler.enabled) {
+      context.scheduler ??= createMaintenanceScheduler();
+      context.scheduler.start();
+    }
+
     if (context.watcherStarted) {
       return;
     }
 
-    // Only start watcher if RPC is configured AND at least one ZMQ port is provided.
-    const hasRpc = Boolean(fullOptions.watcher?.rpc?.host);
-    const zmq = fullOptions.watcher?.zmq as
-      | {
-          host?: string;
-          hashtxPort?: number;
-          rawtxPort?: number;
-          hashblockPort?: number;
-          rawblockPort?: number;
-          sequencePort?: number;
-        }
-      | undefined;
-    const hasAnyZmqPort = Boolean(
-      zmq &&
-        (zmq.hashtxPort ||
-          zmq.rawtxPort ||
-          zmq.hashblockPort ||
-          zmq.rawblockPort ||
-          zmq.sequencePort)
+    const { rpc, zmq, esplora, electrum, coreWallet } = fullOptions.watcher;
+    // Bitcoin Core needs ZMQ to hear about new transactions, unless a
+    // watch-only wallet tracks them
+    const hasCore = Boolean(
+      rpc?.host &&
+        (coreWallet ||
+          (zmq &&
+            (zmq.hashtxPort ||
+              zmq.rawtxPort ||
+              zmq.hashblockPort ||
+              zmq.rawblockPort ||
+              zmq.sequencePort)))
     );
 
-    if (!hasRpc || !hasAnyZmqPort) {
-      // Gracefully skip starting the watcher; UI will still work and status can be polled/updated later.
+    if (!fullOptions.watcher.backend && !esplora && !electrum && !hasCore) {
+      // The UI still works and status can be polled/updated later
+      console.warn(
+        "Watcher not started: configure watcher.backend, watcher.esplora, watcher.electrum, watcher.coreWallet, or watcher.rpc with a ZMQ port"
+      );
       return;
     }
 
-    const { BitcoinWatcher } = await import("./watcher/index.js");
+    const {
+      BitcoinWatcher,
+      CoreWalletBackend,
+      EsploraBackend,
+      ElectrumBackend,
+    } = await import("./watcher/index.js");
+    let backend = fullOptions.watcher.backend;
+    if (!backend && esplora) {
+      backend = new EsploraBackend(esplora);
+    } else if (!backend && electrum) {
+      backend = new ElectrumBackend(electrum);
+    } else if (!backend && coreWallet && rpc) {
+      backend = new CoreWalletBackend({
+        ...coreWallet,
+        rpc,
+        zmq,
+        descriptors: await coreWalletDescriptors(),
+      });
+    }
 
     context.watcher = new BitcoinWatcher(
       {
-        // Non-null after guards above
-        // biome-ignore lint/style/noNonNullAssertion: <explanation>
-        zmq: fullOptions.watcher.zmq!,
-        // biome-ignore lint/style/noNonNullAssertion: <explanation>
-        rpc: fullOptions.watcher.rpc!,
+        backend,
+        zmq,
+        rpc,
         storage: fullOptions.storage,
         network: parsedDescriptor.network,
+        chain: fullOptions.network,
         confirmations: fullOptions.confirmations,
+        latePaymentGraceMinutes: fullOptions.advanced
+          .latePaymentGraceMinutes as number,
       },
       {
-        onProcessing: async (data) => {
-          await fullOptions.events.onProcessing?.(data);
-        },
-        onConfirmed: async (data) => {
-          await fullOptions.events.onConfirmed?.(data);
-        },
-        onReorg: async (data) => {
-          await fullOptions.events.onReorg?.(data);
+        onProcessing: (data) => emit("onProcessing", data),
+        onConfirmed: (data) => emit("onConfirmed", data),
+        onPartialPayment: (data) => emit("onPartialPayment", data),
+        onOverpaid: (data) => emit("onOverpaid", data),
+        onLatePayment: (data) => emit("onLatePayment", data),
+        onReorg: (data) => emit("onReorg", data),
+        // Not a merchant event; only open status streams care
+        onConfirmations: (data) => {
+          statusBus.publish(data.intentId, "intent.confirmations");
         },
       }
     );
@@ -272,6 +869,8 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
   }
 
   async function stopWatcher(): Promise<void> {
+    context.scheduler?.stop();
+
     if (!context.watcherStarted || !context.watcher) {
       return;
     }
@@ -286,6 +885,39 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
     );
   }
 
+  /**
+   * Public payment status, as served by `/status` and `/status/stream`
+   */
+  async function getStatusSnapshot(intentId: string) {
+    const intent = await getIntent(intentId);
+    if (!intent) {
+      return null;
+    }
+
+    const txs = await fullOptions.storage.getTxObservationsByIntent(intentId);
+    const totals = summarizePayments(intent, txs);
+
+    return {
+      status: intent.status,
+      amountSats: intent.amountSats,
+      receivedSats: totals.receivedSats,
+      remainingSats: totals.remainingSats,
+      overpaidSats: totals.overpaidSats,
+      expiresAt: intent.expiresAt,
+      confirmedAt: intent.confirmedAt,
+      // Most recent payment; see `payments` for the full list
+      confs: txs[0]?.confirmations || 0,
+      txid: txs[0]?.txid || null,
+      valueSats: txs[0]?.valueSats || null,
+      payments: txs.map((tx) => ({
+        txid: tx.txid,
+        vout: tx.vout,
+        valueSats: tx.valueSats,
+        confirmations: tx.confirmations,
+      })),
+    };
+  }
+
   async function handler(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname.replace(fullOptions.basePath, "");
@@ -309,41 +941,61 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
           return Response.json({ error: "Missing intentId" }, { status: 400 });
         }
 
+        const status = await getStatusSnapshot(intentId);
+        if (!status) {
+          return Response.json({ error: "Intent not found" }, { status: 404 });
+        }
+
+        return Response.json(status);
+      }
+
+      if (path === "/status/stream" && request.method === "GET") {
+        const intentId = url.searchParams.get("intentId");
+        if (!intentId) {
+          return Response.json({ error: "Missing intentId" }, { status: 400 });
+        }
+
         const intent = await getIntent(intentId);
         if (!intent) {
           return Response.json({ error: "Intent not found" }, { status: 404 });
         }
 
-        const txs = await fullOptions.storage.getTxObservationsByIntent(
-          intentId
-        );
-
-        return Response.json({
-          status: intent.status,
-          amountSats: intent.amountSats,
-          expiresAt: intent.expiresAt,
-          confirmedAt: intent.confirmedAt,
-          confs: txs[0]?.confirmations || 0,
-          txid: txs[0]?.txid || null,
-          valueSats: txs[0]?.valueSats || null,
+        // Sent by EventSource when it reconnects
+        const lastEventIdHeader = request.headers.get("last-event-id");
+        const lastEventId = lastEventIdHeader
+          ? Number(lastEventIdHeader)
+          : Number.NaN;
+        return createStatusStreamResponse({
+          intentId,
+          bus: statusBus,
+          getSnapshot: () => getStatusSnapshot(intentId),
+          lastEventId: Number.isInteger(lastEventId) ? lastEventId : null,
+          signal: request.signal,
+          heartbeatMs:
+            (fullOptions.advanced.statusStreamHeartbeat as number) * 1000,
         });
       }
 
+      // Merchant routes below require an API key with the matching scope
       if (path === "/intents" && request.method === "POST") {
+        const apiKey = await apiKeys.authenticate(request, "write");
         const body: unknown = await request.json();
         const data = body as {
+          storeId?: string;
           email?: string;
           customerId?: string;
-          amountSats: number;
+          amountSats?: number;
+          amountFiat?: number;
+          currency?: string;
           memo?: string;
           expiresInMinutes?: number;
           requiredConfs?: number;
         };
-        const intent = await createPaymentIntent(data);
-
-        if (fullOptions.events.onIntentCreated) {
-          await fullOptions.events.onIntentCreated({ intentId: intent.id });
-        }
+        const intent = await createPaymentIntent({
+          ...data,
+          storeId: resolveKeyStore(apiKey, data.storeId),
+          idempotencyKey: request.headers.get("idempotency-key") ?? undefined,
+        });
 
         return Response.json(intent, { status: 201 });
       }
@@ -352,27 +1004,48 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
         path.match(/^\/intents\/[^/]+\/magic-link$/) &&
         request.method === "POST"
       ) {
+        const apiKey = await apiKeys.authenticate(request, "write");
         const intentId = path.split("/")[2];
         if (!intentId) {
           return Response.json({ error: "Invalid intent ID" }, { status: 400 });
         }
+        if (!(await getIntentForKey(apiKey, intentId))) {
+          return Response.json({ error: "Intent not found" }, { status: 404 });
+        }
 
         const body = (await request.json()) as { ttlHours?: number };
         const { url, token } = await createMagicLink({
           intentId,
           ttlHours: body.ttlHours,
+          idempotencyKey: request.headers.get("idempotency-key") ?? undefined,
         });
 
         return Response.json({ url, token });
       }
 
+      if (
+        path.match(/^\/intents\/[^/]+\/events$/) &&
+        request.method === "GET"
+      ) {
+        const apiKey = await apiKeys.authenticate(request, "read");
+        const intentId = path.split("/")[2];
+
+        const intent = await getIntentForKey(apiKey, intentId);
+        if (!intent) {
+          return Response.json({ error: "Intent not found" }, { status: 404 });
+        }
+
+        return Response.json(await intents.listEvents(intentId));
+      }
+
       if (path.match(/^\/intents\/[^/]+$/) && request.method === "GET") {
+        const apiKey = await apiKeys.authenticate(request, "read");
         const intentId = path.split("/")[2];
         if (!intentId) {
           return Response.json({ error: "Invalid intent ID" }, { status: 400 });
         }
 
-        const intent = await getIntent(intentId);
+        const intent = await getIntentForKey(apiKey, intentId);
 
         if (!intent) {
           return Response.json({ error: "Intent not found" }, { status: 404 });
@@ -382,7 +1055,11 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
       }
 
       if (path.startsWith("/scan/") && request.method === "POST") {
+        const apiKey = await apiKeys.authenticate(request, "scan");
         const intentId = path.replace("/scan/", "");
+        if (!(await getIntentForKey(apiKey, intentId))) {
+          return Response.json({ error: "Intent not found" }, { status: 404 });
+        }
 
         if (context.watcher) {
           await context.watcher.scanForPayments(intentId);
@@ -392,13 +1069,67 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
         return Response.json({ error: "Watcher not started" }, { status: 503 });
       }
 
+      if (path === "/addresses/export" && request.method === "GET") {
+        const apiKey = await apiKeys.authenticate(request, "admin");
+        const param = (name: string) => {
+          const value = url.searchParams.get(name);
+          return value === null ? undefined : Number(value);
+        };
+        const exported = await addresses.exportAddresses({
+          storeId: resolveKeyStore(
+            apiKey,
+            url.searchParams.get("storeId") ?? undefined
+          ),
+          start: param("start"),
+          count: param("count"),
+          branch: param("branch"),
+        });
+
+        if (url.searchParams.get("format") === "csv") {
+          return new Response(formatAddressesCsv(exported), {
+            headers: {
+              "content-type": "text/csv; charset=utf-8",
+              "content-disposition": 'attachment; filename="addresses.csv"',
+            },
+          });
+        }
+        return Response.json(exported);
+      }
+
+      if (path === "/addresses/verify" && request.method === "GET") {
+        const apiKey = await apiKeys.authenticate(request, "admin");
+        const address = url.searchParams.get("address");
+        if (!address) {
+          return Response.json({ error: "Missing address" }, { status: 400 });
+        }
+
+        const window = url.searchParams.get("window");
+        return Response.json(
+          await addresses.verifyAddress(address, {
+            storeId: resolveKeyStore(
+              apiKey,
+              url.searchParams.get("storeId") ?? undefined
+            ),
+            window: window === null ? undefined : Number(window),
+          })
+        );
+      }
+
+      const pluginResponse = await context.plugins.handleRequest(request, path);
+      if (pluginResponse) {
+        return pluginResponse;
+      }
+
       return Response.json({ error: "Not found" }, { status: 404 });
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Internal server error";
       const errorStatus = (error as { status?: number }).status || 500;
 
-      console.error("Handler error:", error);
+      // Client errors (auth, conflicts) are expected and not worth logging
+      if (errorStatus >= 500) {
+        console.error("Handler error:", error);
+      }
       return Response.json({ error: errorMessage }, { status: errorStatus });
     }
   }
@@ -406,11 +1137,42 @@ export const createBitcoinPay = (options: BitcoinPayOptions) => {
   return {
     handler,
     createPaymentIntent,
+    requoteIntent,
     createMagicLink,
     verifyMagicLink,
     ensureAssigned,
     getIntent,
     expireStaleIntents,
+    cleanupMagicLinks,
+    recycleAddresses,
+    getGapStatus: addresses.getGapStatus,
+    exportAddresses: addresses.exportAddresses,
+    verifyAddress: addresses.verifyAddress,
+    registerStore: (store: StoreOptions) => {
+      stores.register(store);
+    },
+    runScheduledJob,
+    failIntent,
+    acceptLatePayment,
+    refundLatePayment,
+    listIntentEvents: intents.listEvents,
+    processWebhooks: (limit?: number) => requireWebhooks().processDue(limit),
+    replayWebhook: (deliveryId: string) => requireWebhooks().replay(deliveryId),
+    getWebhookDelivery: (deliveryId: string) =>
+      requireWebhooks().getDelivery(deliveryId),
+    listWebhookAttempts: (deliveryId: string) =>
+      requireWebhooks().listAttempts(deliveryId),
+    requestRefund: refunds.requestRefund,
+    buildRefund: refunds.buildRefund,
+    signRefund: refunds.signRefund,
+    broadcastRefund: refunds.broadcastRefund,
+    refreshRefund: refunds.refreshRefund,
+    failRefund: refunds.failRefund,
+    getRefund: refunds.getRefund,
+    listRefunds: refunds.listRefunds,
+    createApiKey,
+    revokeApiKey: apiKeys.revokeApiKey,
+    listApiKeys: apiKeys.listApiKeys,
     startWatcher,
     stopWatcher,
     migrate,
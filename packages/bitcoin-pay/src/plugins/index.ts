@@ -0,0 +1,198 @@
+import type {
+  BitcoinPayPlugin,
+  PluginContext,
+  PluginEndpoint,
+  PluginEventData,
+} from "../types/plugins.js";
+import type { ApiKey, ApiKeyScope } from "../types/models.js";
+
+export type PluginHookName = keyof NonNullable<BitcoinPayPlugin["hooks"]>;
+
+/**
+ * Top-level handler routes that plugins may not shadow
+ */
+const RESERVED_PLUGIN_IDS = new Set([
+  "pay",
+  "status",
+  "intents",
+  "scan",
+  "addresses",
+]);
+
+interface PluginRoute {
+  method: string | null;
+  segments: string[];
+  scope: ApiKeyScope | null;
+  endpoint: PluginEndpoint;
+}
+
+interface PluginEntry {
+  plugin: BitcoinPayPlugin;
+  routes: PluginRoute[];
+  disabled: boolean;
+}
+
+export interface PluginRunner {
+  /**
+   * Resolves once every plugin's `init` has run (successfully or not)
+   */
+  ready: Promise<void>;
+  runHook(hook: PluginHookName, data: PluginEventData): Promise<void>;
+  /**
+   * Dispatch a request whose path (relative to basePath) targets a plugin.
+   * Returns null when no plugin claims the path.
+   */
+  handleRequest(request: Request, path: string): Promise<Response | null>;
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function parseEndpointKey(key: string): { method: string | null; path: string } {
+  const match = key.trim().match(/^([A-Za-z]+)\s+(\S+)$/);
+  if (match) {
+    return { method: match[1].toUpperCase(), path: match[2] };
+  }
+  return { method: null, path: key.trim() };
+}
+
+function matchRoute(
+  route: PluginRoute,
+  segments: string[]
+): Record<string, string> | null {
+  if (route.segments.length !== segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < segments.length; i++) {
+    const expected = route.segments[i];
+    if (expected.startsWith(":")) {
+      params[expected.slice(1)] = decodeURIComponent(segments[i]);
+    } else if (expected !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+export interface PluginRunnerOptions {
+  /**
+   * Check the API key of a request to an endpoint declared with a `scope`,
+   * throwing when it is missing or lacks the scope
+   */
+  authenticate?: (request: Request, scope: ApiKeyScope) => Promise<ApiKey>;
+}
+
+export function createPluginRunner(
+  plugins: BitcoinPayPlugin[],
+  context: PluginContext,
+  options: PluginRunnerOptions = {}
+): PluginRunner {
+  const entries = new Map<string, PluginEntry>();
+
+  for (const plugin of plugins) {
+    if (!plugin.id || plugin.id.includes("/")) {
+      throw new Error(`Invalid plugin id: "${plugin.id}"`);
+    }
+    if (RESERVED_PLUGIN_IDS.has(plugin.id)) {
+      throw new Error(`Plugin id "${plugin.id}" is reserved`);
+    }
+    if (entries.has(plugin.id)) {
+      throw new Error(`Duplicate plugin id: "${plugin.id}"`);
+    }
+
+    const routes: PluginRoute[] = Object.entries(plugin.endpoints ?? {}).map(
+      ([key, endpoint]) => {
+        const { method, path } = parseEndpointKey(key);
+        return typeof endpoint === "function"
+          ? { method, segments: splitPath(path), scope: null, endpoint }
+          : {
+              method,
+              segments: splitPath(path),
+              scope: endpoint.scope,
+              endpoint: endpoint.handler,
+            };
+      }
+    );
+
+    entries.set(plugin.id, { plugin, routes, disabled: false });
+  }
+
+  const ready = (async () => {
+    for (const entry of entries.values()) {
+      if (!entry.plugin.init) continue;
+      try {
+        await entry.plugin.init(context);
+      } catch (err) {
+        // A plugin that fails to initialize is disabled; the rest keep running
+        entry.disabled = true;
+        console.error(`Plugin "${entry.plugin.id}" failed to initialize:`, err);
+      }
+    }
+  })();
+
+  async function runHook(
+    hook: PluginHookName,
+    data: PluginEventData
+  ): Promise<void> {
+    await ready;
+
+    for (const entry of entries.values()) {
+      const fn = entry.plugin.hooks?.[hook];
+      if (entry.disabled || !fn) continue;
+      try {
+        await fn(data, context);
+      } catch (err) {
+        console.error(`Plugin "${entry.plugin.id}" ${hook} hook failed:`, err);
+      }
+    }
+  }
+
+  async function handleRequest(
+    request: Request,
+    path: string
+  ): Promise<Response | null> {
+    const [pluginId, ...rest] = splitPath(path);
+    const entry = pluginId ? entries.get(pluginId) : undefined;
+    if (!entry) return null;
+
+    await ready;
+
+    for (const route of entry.routes) {
+      if (route.method && route.method !== request.method) continue;
+      const params = matchRoute(route, rest);
+      if (!params) continue;
+
+      if (entry.disabled) {
+        return Response.json(
+          { error: `Plugin "${entry.plugin.id}" is unavailable` },
+          { status: 503 }
+        );
+      }
+
+      let apiKey: ApiKey | undefined;
+      if (route.scope) {
+        if (!options.authenticate) {
+          throw new Error(
+            `Plugin "${entry.plugin.id}" endpoint requires API key authentication`
+          );
+        }
+        apiKey = await options.authenticate(request, route.scope);
+      }
+
+      const result = await route.endpoint(request, {
+        ...context,
+        params,
+        apiKey,
+      });
+      if (result instanceof Response) {
+        return result;
+      }
+      return Response.json(result ?? null);
+    }
+
+    return null;
+  }
+
+  return { ready, runHook, handleRequest };
+}
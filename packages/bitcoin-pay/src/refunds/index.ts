@@ -0,0 +1,321 @@
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  createRefundPSBT,
+  signRefundPSBT,
+  broadcastRefundTx,
+} from "../crypto/psbt.js";
+import { BitcoinRPC, RPCError } from "../watcher/rpc.js";
+import type { StorageAdapter } from "../types/adapter.js";
+import type { RPCConfig } from "../types/options.js";
+import type { Refund, RefundStatus } from "../types/models.js";
+
+export interface RefundManagerConfig {
+  storage: StorageAdapter;
+  network: bitcoin.Network;
+  rpc?: RPCConfig;
+}
+
+/**
+ * Legal refund state changes: requested → built → broadcast → confirmed.
+ * Any refund that has not reached the chain may be marked failed.
+ */
+const REFUND_TRANSITIONS: Record<RefundStatus, RefundStatus[]> = {
+  requested: ["built", "failed"],
+  built: ["broadcast", "failed"],
+  broadcast: ["confirmed", "failed"],
+  confirmed: [],
+  failed: [],
+};
+
+// Bitcoin Core RPC error code for unknown transactions
+const RPC_INVALID_ADDRESS_OR_KEY = -5;
+
+/**
+ * How far block timestamps may run behind the wall clock: a block only
+ * has to be newer than the median of the previous eleven
+ */
+const BLOCK_TIME_SLACK_SECONDS = 2 * 60 * 60;
+
+/**
+ * Most blocks searched for a mined refund
+ */
+const MAX_REFUND_SCAN_BLOCKS = 1008;
+
+type RefundStorage = Required<
+  Pick<
+    StorageAdapter,
+    "createRefund" | "getRefund" | "updateRefund" | "listRefundsByIntent"
+  >
+>;
+
+function requireRefundStorage(storage: StorageAdapter): RefundStorage {
+  if (
+    !storage.createRefund ||
+    !storage.getRefund ||
+    !storage.updateRefund ||
+    !storage.listRefundsByIntent
+  ) {
+    throw new Error("Storage adapter does not support refunds");
+  }
+  return storage as RefundStorage;
+}
+
+export function createRefundManager(config: RefundManagerConfig) {
+  const { storage, network } = config;
+
+  async function loadRefund(refundId: string): Promise<Refund> {
+    const refund = await requireRefundStorage(storage).getRefund(refundId);
+    if (!refund) {
+      throw new Error("Refund not found");
+    }
+    return refund;
+  }
+
+  async function transition(
+    refund: Refund,
+    to: RefundStatus,
+    data: Partial<Refund> = {}
+  ): Promise<Refund> {
+    if (!REFUND_TRANSITIONS[refund.status].includes(to)) {
+      throw new Error(
+        `Cannot move refund ${refund.id} from ${refund.status} to ${to}`
+      );
+    }
+    return requireRefundStorage(storage).updateRefund(refund.id, {
+      ...data,
+      status: to,
+    });
+  }
+
+  function requireRpc(): RPCConfig {
+    if (!config.rpc?.host) {
+      throw new Error("RPC must be configured to broadcast refunds");
+    }
+    return config.rpc;
+  }
+
+  /**
+   * Record a refund request for an intent. Defaults to refunding the
+   * overpaid amount.
+   */
+  async function requestRefund(data: {
+    intentId: string;
+    refundAddress: string;
+    feeRate: number;
+    amountSats?: number;
+    feePayer?: "merchant" | "customer";
+  }): Promise<Refund> {
+    const refundStorage = requireRefundStorage(storage);
+    const intent = await storage.getPaymentIntent(data.intentId);
+    if (!intent) {
+      throw new Error("Payment intent not found");
+    }
+
+    try {
+      bitcoin.address.toOutputScript(data.refundAddress, network);
+    } catch {
+      throw new Error("Invalid refund address for this network");
+    }
+
+    // Refunds that have not failed may still reach the chain
+    const refunded = (await refundStorage.listRefundsByIntent(intent.id))
+      .filter((refund) => refund.status !== "failed")
+      .reduce((sum, refund) => sum + refund.amountSats, 0);
+
+    const amountSats =
+      data.amountSats ?? Math.max(intent.overpaidSats - refunded, 0);
+    if (!amountSats || amountSats <= 0) {
+      throw new Error("Nothing to refund");
+    }
+    if (refunded + amountSats > intent.receivedSats) {
+      throw new Error(
+        refunded > 0
+          ? `Refund amount exceeds the ${intent.receivedSats - refunded} sats not yet refunded`
+          : "Refund amount exceeds the amount received"
+      );
+    }
+    if (data.feeRate <= 0) {
+      throw new Error("Fee rate must be positive");
+    }
+
+    return refundStorage.createRefund({
+      intentId: intent.id,
+      status: "requested",
+      amountSats,
+      refundAddress: data.refundAddress,
+      feeRate: data.feeRate,
+      feePayer: data.feePayer ?? "merchant",
+      sourceTxid: null,
+      sourceVout: null,
+      feeSats: null,
+      psbtBase64: null,
+      txHex: null,
+      txid: null,
+      error: null,
+      broadcastAt: null,
+      confirmedAt: null,
+    });
+  }
+
+  /**
+   * Build the refund PSBT from the largest payment output on the intent's
+   * deposit address and persist it for signing.
+   */
+  async function buildRefund(refundId: string): Promise<Refund> {
+    const refund = await loadRefund(refundId);
+    const intent = await storage.getPaymentIntent(refund.intentId);
+    if (!intent?.addressId) {
+      throw new Error("Payment intent has no deposit address");
+    }
+
+    const address = await storage.getDepositAddress(intent.addressId);
+    if (!address) {
+      throw new Error("Deposit address not found");
+    }
+
+    const observations = await storage.getTxObservationsByIntent(intent.id);
+    const source = observations
+      .filter((obs) => obs.valueSats >= refund.amountSats)
+      .sort((a, b) => b.valueSats - a.valueSats)[0];
+    if (!source) {
+      throw new Error("No single payment output covers the refund amount");
+    }
+
+    const psbt = createRefundPSBT({
+      txid: source.txid,
+      vout: source.vout,
+      valueSats: source.valueSats,
+      scriptPubKeyHex: source.scriptPubKeyHex,
+      address: address.address,
+      redeemScriptHex: address.redeemScriptHex,
+      witnessScriptHex: address.witnessScriptHex,
+      refundAddress: refund.refundAddress,
+      refundAmountSats: refund.amountSats,
+      feeRate: refund.feeRate,
+      feePayer: refund.feePayer,
+      network,
+    });
+
+    return transition(refund, "built", {
+      sourceTxid: source.txid,
+      sourceVout: source.vout,
+      feeSats: psbt.estimatedFee,
+      psbtBase64: psbt.psbtBase64,
+    });
+  }
+
+  /**
+   * Sign a built refund with the deposit address key and keep the
+   * finalized transaction ready for broadcast
+   */
+  async function signRefund(data: {
+    refundId: string;
+    privateKey: Buffer;
+  }): Promise<Refund> {
+    const refund = await loadRefund(data.refundId);
+    if (refund.status !== "built" || !refund.psbtBase64) {
+      throw new Error("Refund must be built before signing");
+    }
+
+    const { txHex } = signRefundPSBT(
+      refund.psbtBase64,
+      data.privateKey,
+      network
+    );
+
+    return requireRefundStorage(storage).updateRefund(refund.id, { txHex });
+  }
+
+  async function broadcastRefund(refundId: string): Promise<Refund> {
+    const refund = await loadRefund(refundId);
+    if (!refund.txHex) {
+      throw new Error("Refund must be signed before broadcast");
+    }
+
+    try {
+      const txid = await broadcastRefundTx(refund.txHex, requireRpc());
+      return transition(refund, "broadcast", {
+        txid,
+        error: null,
+        broadcastAt: new Date(),
+      });
+    } catch (err) {
+      // Keep the refund in "built" so it can be retried
+      await requireRefundStorage(storage).updateRefund(refund.id, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  }
+
+  /**
+   * Check a broadcast refund on-chain and mark it confirmed once mined
+   */
+  async function refreshRefund(refundId: string): Promise<Refund> {
+    const refund = await loadRefund(refundId);
+    if (refund.status !== "broadcast" || !refund.txid) {
+      return refund;
+    }
+
+    const rpc = new BitcoinRPC(requireRpc());
+    if ((await getConfirmations(rpc, refund.txid, refund.broadcastAt)) > 0) {
+      return transition(refund, "confirmed", { confirmedAt: new Date() });
+    }
+    return refund;
+  }
+
+  /**
+   * Confirmations of a refund transaction without relying on `-txindex`:
+   * nodes without it only find mined transactions by block, so the blocks
+   * mined since the broadcast are searched when the mempool lacks it
+   */
+  async function getConfirmations(
+    rpc: BitcoinRPC,
+    txid: string,
+    broadcastAt: Date | null | undefined
+  ): Promise<number> {
+    try {
+      const tx = await rpc.getRawTransaction(txid, true);
+      if (typeof tx !== "string") return tx.confirmations ?? 0;
+    } catch (err) {
+      if (!(err instanceof RPCError && err.code === RPC_INVALID_ADDRESS_OR_KEY)) {
+        throw err;
+      }
+    }
+
+    const since = broadcastAt
+      ? broadcastAt.getTime() / 1000 - BLOCK_TIME_SLACK_SECONDS
+      : 0;
+    const tip = (await rpc.getBlockchainInfo()).blocks;
+    const oldest = Math.max(tip - MAX_REFUND_SCAN_BLOCKS + 1, 0);
+    for (let height = tip; height >= oldest; height--) {
+      const block = (await rpc.getBlock(await rpc.getBlockHash(height), 1)) as {
+        time: number;
+        tx: string[];
+      };
+      if (block.tx.includes(txid)) return tip - height + 1;
+      if (block.time < since) break;
+    }
+    return 0;
+  }
+
+  async function failRefund(refundId: string, reason: string): Promise<Refund> {
+    const refund = await loadRefund(refundId);
+    return transition(refund, "failed", { error: reason });
+  }
+
+  return {
+    requestRefund,
+    buildRefund,
+    signRefund,
+    broadcastRefund,
+    refreshRefund,
+    failRefund,
+    getRefund: (refundId: string) =>
+      requireRefundStorage(storage).getRefund(refundId),
+    listRefunds: (intentId: string) =>
+      requireRefundStorage(storage).listRefundsByIntent(intentId),
+  };
+}
+
+export type RefundManager = ReturnType<typeof createRefundManager>;
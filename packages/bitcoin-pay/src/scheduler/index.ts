@@ -0,0 +1,136 @@
+import { nanoid } from "nanoid";
+import type { StorageAdapter } from "../types/adapter.js";
+
+export interface SchedulerJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+type SchedulerStorage = Required<
+  Pick<
+    StorageAdapter,
+    "acquireSchedulerLock" | "renewSchedulerLock" | "releaseSchedulerLock"
+  >
+>;
+
+/**
+ * How long a lock lasts without renewal. Running jobs renew it every
+ * third of that, so a crashed holder only blocks its job this long.
+ */
+const LOCK_TTL_MS = 60_000;
+
+function requireSchedulerStorage(storage: StorageAdapter): SchedulerStorage {
+  if (
+    !storage.acquireSchedulerLock ||
+    !storage.renewSchedulerLock ||
+    !storage.releaseSchedulerLock
+  ) {
+    throw new Error("Storage adapter does not support scheduler locks");
+  }
+  return storage as SchedulerStorage;
+}
+
+/**
+ * Run maintenance jobs on fixed intervals. Each run takes a storage lock
+ * named after the job, so with several instances only one of them runs a
+ * given job at a time.
+ */
+export function createScheduler(config: {
+  storage: StorageAdapter;
+  jobs: SchedulerJob[];
+  lockTtlMs?: number;
+}) {
+  const storage = requireSchedulerStorage(config.storage);
+  const lockTtlMs = config.lockTtlMs ?? LOCK_TTL_MS;
+  const owner = `scheduler_${nanoid()}`;
+  const timers: NodeJS.Timeout[] = [];
+  const running = new Set<string>();
+
+  /**
+   * Run one job now. Resolves false when it is already running here or
+   * another instance holds its lock.
+   */
+  async function runJob(job: SchedulerJob): Promise<boolean> {
+    if (running.has(job.name)) {
+      return false;
+    }
+    running.add(job.name);
+
+    try {
+      const acquired = await storage.acquireSchedulerLock(
+        job.name,
+        owner,
+        new Date(Date.now() + lockTtlMs)
+      );
+      if (!acquired) {
+        return false;
+      }
+
+      // Keep the lock for as long as the job runs, however long it takes
+      const renewal = setInterval(() => {
+        storage
+          .renewSchedulerLock(job.name, owner, new Date(Date.now() + lockTtlMs))
+          .then((held) => {
+            if (!held) {
+              console.error(`Scheduled job ${job.name} lost its lock`);
+            }
+          })
+          .catch((err) => {
+            console.error(`Failed to renew the lock of job ${job.name}:`, err);
+          });
+      }, lockTtlMs / 3);
+
+      try {
+        await job.run();
+      } finally {
+        clearInterval(renewal);
+        await storage.releaseSchedulerLock(job.name, owner);
+      }
+      return true;
+    } finally {
+      running.delete(job.name);
+    }
+  }
+
+  function runInBackground(job: SchedulerJob): void {
+    runJob(job).catch((err) => {
+      console.error(`Scheduled job ${job.name} failed:`, err);
+    });
+  }
+
+  function start(): void {
+    if (timers.length > 0) {
+      return;
+    }
+
+    for (const job of config.jobs) {
+      runInBackground(job);
+      timers.push(setInterval(() => runInBackground(job), job.intervalMs));
+    }
+  }
+
+  function stop(): void {
+    for (const timer of timers) {
+      clearInterval(timer);
+    }
+    timers.length = 0;
+  }
+
+  async function run(name: string): Promise<boolean> {
+    const job = config.jobs.find((j) => j.name === name);
+    if (!job) {
+      throw new Error(`Unknown scheduled job: ${name}`);
+    }
+    return runJob(job);
+  }
+
+  return {
+    start,
+    stop,
+    run,
+    isRunning: () => timers.length > 0,
+  };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
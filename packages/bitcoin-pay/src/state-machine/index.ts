@@ -0,0 +1,145 @@
+import type { StorageAdapter } from "../types/adapter.js";
+import type {
+  PaymentIntent,
+  PaymentIntentEvent,
+  PaymentStatus,
+} from "../types/models.js";
+
+/**
+ * Legal payment intent status changes. `confirmed → processing` is the
+ * reorg rollback and `processing → pending` follows a dropped payment;
+ * `paid_late` holds payments that arrived after expiry
+ * until the merchant accepts or refunds them; `failed` is terminal.
+ */
+export const INTENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["processing", "confirmed", "expired", "paid_late", "failed"],
+  processing: ["pending", "confirmed", "failed"],
+  confirmed: ["processing", "failed"],
+  expired: ["paid_late"],
+  paid_late: ["processing", "confirmed", "failed"],
+  failed: [],
+};
+
+export class InvalidTransitionError extends Error {
+  status = 409;
+
+  constructor(
+    public intentId: string,
+    public from: PaymentStatus,
+    public to: PaymentStatus
+  ) {
+    super(`Cannot move payment intent ${intentId} from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/**
+ * The intent's status changed since it was read, e.g. the scheduler
+ * expired it while the watcher was recording a payment
+ */
+export class IntentStatusChangedError extends Error {
+  status = 409;
+
+  constructor(
+    public intentId: string,
+    public expected: PaymentStatus
+  ) {
+    super(`Payment intent ${intentId} is no longer ${expected}`);
+    this.name = "IntentStatusChangedError";
+  }
+}
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus) {
+  return INTENT_TRANSITIONS[from].includes(to);
+}
+
+export interface TransitionDetails {
+  reason: string;
+  actor: PaymentIntentEvent["actor"];
+  txid?: string | null;
+  /**
+   * Extra fields persisted together with the new status
+   */
+  data?: Partial<PaymentIntent>;
+}
+
+export function createIntentStateMachine(storage: StorageAdapter) {
+  async function recordEvent(
+    data: Omit<PaymentIntentEvent, "id" | "createdAt">
+  ): Promise<void> {
+    // Adapters without event storage still get validated transitions
+    await storage.createPaymentIntentEvent?.(data);
+  }
+
+  /**
+   * Move an intent to `to`, rejecting illegal changes, and record the
+   * transition in the intent's history. The update only applies while the
+   * stored status still matches `intent.status`; otherwise it throws
+   * `IntentStatusChangedError` and nothing is written.
+   */
+  async function transition(
+    intent: PaymentIntent,
+    to: PaymentStatus,
+    details: TransitionDetails
+  ): Promise<PaymentIntent> {
+    if (!canTransition(intent.status, to)) {
+      throw new InvalidTransitionError(intent.id, intent.status, to);
+    }
+
+    const data = { ...details.data, status: to, updatedAt: new Date() };
+    let updated: PaymentIntent | null;
+    if (storage.updatePaymentIntentIfStatus) {
+      updated = await storage.updatePaymentIntentIfStatus(
+        intent.id,
+        intent.status,
+        data
+      );
+    } else {
+      // Without compare-and-set, at least re-read right before writing
+      const current = await storage.getPaymentIntent(intent.id);
+      updated =
+        current?.status === intent.status
+          ? await storage.updatePaymentIntent(intent.id, data)
+          : null;
+    }
+    if (!updated) {
+      throw new IntentStatusChangedError(intent.id, intent.status);
+    }
+
+    await recordEvent({
+      intentId: intent.id,
+      fromStatus: intent.status,
+      toStatus: to,
+      reason: details.reason,
+      actor: details.actor,
+      txid: details.txid ?? null,
+    });
+
+    return updated;
+  }
+
+  async function recordCreated(
+    intent: PaymentIntent,
+    actor: PaymentIntentEvent["actor"] = "merchant"
+  ): Promise<void> {
+    await recordEvent({
+      intentId: intent.id,
+      fromStatus: null,
+      toStatus: intent.status,
+      reason: "created",
+      actor,
+      txid: null,
+    });
+  }
+
+  async function listEvents(intentId: string): Promise<PaymentIntentEvent[]> {
+    if (!storage.listPaymentIntentEvents) {
+      throw new Error("Storage adapter does not support intent events");
+    }
+    return storage.listPaymentIntentEvents(intentId);
+  }
+
+  return { transition, recordCreated, listEvents };
+}
+
+export type IntentStateMachine = ReturnType<typeof createIntentStateMachine>;
@@ -0,0 +1,98 @@
+import { deriveAddress, parseDescriptor } from "../crypto/descriptor.js";
+import { DEFAULT_STORE_ID } from "../types/models.js";
+import type {
+  EventHandlers,
+  Network,
+  StoreOptions,
+} from "../types/options.js";
+
+export class UnknownStoreError extends Error {
+  status = 404;
+
+  constructor(public storeId: string) {
+    super(`Store "${storeId}" is not configured`);
+    this.name = "UnknownStoreError";
+  }
+}
+
+export interface Store {
+  id: string;
+  descriptor: ReturnType<typeof parseDescriptor>;
+  confirmations: number;
+  intentExpiryMinutes: number;
+  events: EventHandlers;
+}
+
+export interface StoreRegistryConfig {
+  network: Network;
+  /**
+   * Descriptor of the default store
+   */
+  descriptor: string;
+  confirmations: number;
+  intentExpiryMinutes: number;
+  stores: StoreOptions[];
+}
+
+/**
+ * Stores known to this instance, starting with the default store built
+ * from the top-level options. Settings a store leaves out fall back to the
+ * top-level ones.
+ */
+export function createStoreRegistry(config: StoreRegistryConfig) {
+  const stores = new Map<string, Store>();
+
+  function register(options: StoreOptions): Store {
+    if (stores.has(options.id)) {
+      throw new Error(`Store "${options.id}" is already registered`);
+    }
+
+    const descriptor = parseDescriptor(options.descriptor, config.network);
+    // Two stores deriving the same addresses could not tell payments apart
+    const firstAddress = deriveAddress(descriptor, 0).address;
+    for (const store of stores.values()) {
+      if (deriveAddress(store.descriptor, 0).address === firstAddress) {
+        throw new Error(
+          `Store "${options.id}" uses the same descriptor as store "${store.id}"`
+        );
+      }
+    }
+
+    const store: Store = {
+      id: options.id,
+      descriptor,
+      confirmations: options.confirmations ?? config.confirmations,
+      intentExpiryMinutes:
+        options.intentExpiryMinutes ?? config.intentExpiryMinutes,
+      events: options.events ?? {},
+    };
+    stores.set(store.id, store);
+    return store;
+  }
+
+  function find(storeId: string): Store | undefined {
+    return stores.get(storeId);
+  }
+
+  function get(storeId: string): Store {
+    const store = stores.get(storeId);
+    if (!store) {
+      throw new UnknownStoreError(storeId);
+    }
+    return store;
+  }
+
+  register({ id: DEFAULT_STORE_ID, descriptor: config.descriptor });
+  for (const options of config.stores) {
+    register(options);
+  }
+
+  return {
+    register,
+    find,
+    get,
+    list: () => [...stores.values()],
+  };
+}
+
+export type StoreRegistry = ReturnType<typeof createStoreRegistry>;
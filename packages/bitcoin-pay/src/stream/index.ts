@@ -0,0 +1,174 @@
+import type { PaymentStatus } from "../types/models.js";
+
+export interface StatusBusEvent {
+  /**
+   * Monotonic id, sent as the SSE `id` so clients can resume
+   */
+  id: number;
+  intentId: string;
+  /**
+   * Event that triggered the update, e.g. "intent.confirmed"
+   */
+  type: string;
+}
+
+type StatusListener = (event: StatusBusEvent) => void;
+
+/**
+ * In-process fan-out of intent updates to open status streams. Recent
+ * events are kept in a ring buffer so reconnecting clients can tell what
+ * they missed.
+ */
+export function createStatusBus(options: { bufferSize?: number } = {}) {
+  const bufferSize = options.bufferSize ?? 500;
+  const buffer: StatusBusEvent[] = [];
+  const listeners = new Map<string, Set<StatusListener>>();
+  let lastId = 0;
+
+  function publish(intentId: string, type: string): StatusBusEvent {
+    const event = { id: ++lastId, intentId, type };
+    buffer.push(event);
+    if (buffer.length > bufferSize) {
+      buffer.shift();
+    }
+
+    for (const listener of listeners.get(intentId) ?? []) {
+      listener(event);
+    }
+    return event;
+  }
+
+  function subscribe(intentId: string, listener: StatusListener): () => void {
+    let set = listeners.get(intentId);
+    if (!set) {
+      set = new Set();
+      listeners.set(intentId, set);
+    }
+    set.add(listener);
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) {
+        listeners.delete(intentId);
+      }
+    };
+  }
+
+  /**
+   * Buffered events for an intent newer than `lastEventId`
+   */
+  function eventsSince(intentId: string, lastEventId: number) {
+    return buffer.filter(
+      (event) => event.intentId === intentId && event.id > lastEventId
+    );
+  }
+
+  return {
+    publish,
+    subscribe,
+    eventsSince,
+    lastEventId: () => lastId,
+  };
+}
+
+export type StatusBus = ReturnType<typeof createStatusBus>;
+
+// Expired intents can still turn paid_late, so their streams stay open
+const TERMINAL_STATUSES: PaymentStatus[] = ["confirmed", "failed"];
+
+/**
+ * Build a `text/event-stream` response that sends a full status snapshot
+ * on connect and after every update for the intent, with comment
+ * heartbeats in between. The stream ends once the intent reaches a
+ * terminal status.
+ */
+export function createStatusStreamResponse(config: {
+  intentId: string;
+  bus: StatusBus;
+  getSnapshot: () => Promise<{ status: PaymentStatus } | null>;
+  lastEventId?: number | null;
+  signal?: AbortSignal;
+  heartbeatMs?: number;
+}): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let sending = Promise.resolve();
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const sendSnapshot = (id: number, trigger: string) => {
+        // Serialize sends so snapshots arrive in event order
+        sending = sending.then(async () => {
+          if (closed) return;
+          const snapshot = await config.getSnapshot();
+          if (!snapshot || closed) return;
+
+          controller.enqueue(
+            encoder.encode(
+              `id: ${id}\nevent: status\ndata: ${JSON.stringify({
+                ...snapshot,
+                trigger,
+              })}\n\n`
+            )
+          );
+          if (TERMINAL_STATUSES.includes(snapshot.status)) {
+            close();
+          }
+        });
+        sending.catch((err) => {
+          console.error("Status stream error:", err);
+          close();
+        });
+      };
+
+      const unsubscribe = config.bus.subscribe(config.intentId, (event) =>
+        sendSnapshot(event.id, event.type)
+      );
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": ping\n\n"));
+      }, config.heartbeatMs ?? 15_000);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        config.signal?.removeEventListener("abort", close);
+      };
+      config.signal?.addEventListener("abort", close);
+
+      controller.enqueue(encoder.encode("retry: 3000\n\n"));
+
+      // Resume from Last-Event-ID: report the newest missed update, or a
+      // plain snapshot when nothing was missed
+      const missed =
+        config.lastEventId != null
+          ? config.bus.eventsSince(config.intentId, config.lastEventId)
+          : [];
+      const latest = missed[missed.length - 1];
+      sendSnapshot(
+        latest?.id ?? config.lastEventId ?? config.bus.lastEventId(),
+        latest?.type ?? "snapshot"
+      );
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -4,6 +4,13 @@ import type {
   TxObservation,
   MagicLinkToken,
   Customer,
+  Refund,
+  ApiKey,
+  IdempotencyRecord,
+  PaymentIntentEvent,
+  WebhookDelivery,
+  WebhookAttempt,
+  ChainCheckpoint,
 } from "./models";
 
 export interface StorageAdapter {
@@ -15,22 +22,69 @@ export interface StorageAdapter {
     id: string,
     data: Partial<PaymentIntent>
   ): Promise<PaymentIntent>;
+  /**
+   * Update an intent only while its status is still `status`, so two
+   * processes cannot overwrite each other's transitions. Resolves null
+   * when the status has moved on.
+   */
+  updatePaymentIntentIfStatus?(
+    id: string,
+    status: PaymentIntent["status"],
+    data: Partial<PaymentIntent>
+  ): Promise<PaymentIntent | null>;
   listPaymentIntentsByStatus(
     status: PaymentIntent["status"]
   ): Promise<PaymentIntent[]>;
+  /**
+   * Pending intents that expired before `before`, oldest first
+   */
+  listExpiredPaymentIntents?(
+    before: Date,
+    limit: number
+  ): Promise<PaymentIntent[]>;
+
+  createPaymentIntentEvent?(
+    data: Omit<PaymentIntentEvent, "id" | "createdAt">
+  ): Promise<PaymentIntentEvent>;
+  listPaymentIntentEvents?(intentId: string): Promise<PaymentIntentEvent[]>;
 
   createDepositAddress(
     data: Omit<DepositAddress, "id" | "createdAt" | "updatedAt">
   ): Promise<DepositAddress>;
   getDepositAddress(id: string): Promise<DepositAddress | null>;
   getDepositAddressByAddress(address: string): Promise<DepositAddress | null>;
-  getUnassignedAddress(): Promise<DepositAddress | null>;
+  /**
+   * Address methods taking a `storeId` only consider that store's
+   * addresses, and default to `DEFAULT_STORE_ID`
+   */
+  getUnassignedAddress(storeId?: string): Promise<DepositAddress | null>;
   assignAddressToIntent(
     addressId: string,
     intentId: string
   ): Promise<DepositAddress>;
-  getNextDerivationIndex(): Promise<number>;
+  /**
+   * Every store derives from its own descriptor, so indexes are counted
+   * per store
+   */
+  getNextDerivationIndex(storeId?: string): Promise<number>;
   listAssignedAddresses(): Promise<DepositAddress[]>;
+  /**
+   * Highest derivation index with at least one tx observation, or null
+   * when no address has been paid yet
+   */
+  getLastUsedDerivationIndex?(storeId?: string): Promise<number | null>;
+  /**
+   * Addresses of expired intents that received nothing and expired before
+   * `expiredBefore`, lowest derivation index first
+   */
+  listRecyclableAddresses?(
+    expiredBefore: Date,
+    limit: number
+  ): Promise<DepositAddress[]>;
+  /**
+   * Return an address to the unassigned pool and detach it from its intent
+   */
+  releaseDepositAddress?(id: string): Promise<DepositAddress>;
 
   createTxObservation(
     data: Omit<TxObservation, "id" | "createdAt" | "updatedAt">
@@ -49,12 +103,94 @@ export interface StorageAdapter {
     data: Partial<TxObservation>
   ): Promise<TxObservation>;
   listPendingTxObservations(): Promise<TxObservation[]>;
+  /**
+   * Observations mined at `height` or above, confirmed or not
+   */
+  listTxObservationsSinceHeight?(height: number): Promise<TxObservation[]>;
 
   createMagicLinkToken(
     data: Omit<MagicLinkToken, "id" | "createdAt">
   ): Promise<MagicLinkToken>;
   getMagicLinkToken(token: string): Promise<MagicLinkToken | null>;
   consumeMagicLinkToken(id: string): Promise<void>;
+  deleteExpiredMagicLinkTokens?(before: Date): Promise<void>;
+
+  createRefund?(
+    data: Omit<Refund, "id" | "createdAt" | "updatedAt">
+  ): Promise<Refund>;
+  getRefund?(id: string): Promise<Refund | null>;
+  updateRefund?(id: string, data: Partial<Refund>): Promise<Refund>;
+  listRefundsByIntent?(intentId: string): Promise<Refund[]>;
+
+  createApiKey?(
+    data: Omit<ApiKey, "id" | "createdAt" | "updatedAt">
+  ): Promise<ApiKey>;
+  getApiKeyByHash?(keyHash: string): Promise<ApiKey | null>;
+  updateApiKey?(id: string, data: Partial<ApiKey>): Promise<ApiKey>;
+  listApiKeys?(): Promise<ApiKey[]>;
+
+  /**
+   * Must fail when a record with the same scope and key already exists
+   */
+  createIdempotencyRecord?(
+    data: Omit<IdempotencyRecord, "id" | "createdAt" | "updatedAt">
+  ): Promise<IdempotencyRecord>;
+  getIdempotencyRecord?(
+    scope: string,
+    key: string
+  ): Promise<IdempotencyRecord | null>;
+  updateIdempotencyRecord?(
+    id: string,
+    data: Partial<IdempotencyRecord>
+  ): Promise<IdempotencyRecord>;
+  deleteIdempotencyRecord?(id: string): Promise<void>;
+
+  createWebhookDelivery?(
+    data: Omit<WebhookDelivery, "id" | "createdAt" | "updatedAt">
+  ): Promise<WebhookDelivery>;
+  getWebhookDelivery?(id: string): Promise<WebhookDelivery | null>;
+  updateWebhookDelivery?(
+    id: string,
+    data: Partial<WebhookDelivery>
+  ): Promise<WebhookDelivery>;
+  /**
+   * Pending deliveries whose next attempt is due, oldest first
+   */
+  listDueWebhookDeliveries?(
+    before: Date,
+    limit: number
+  ): Promise<WebhookDelivery[]>;
+  createWebhookAttempt?(
+    data: Omit<WebhookAttempt, "id" | "createdAt">
+  ): Promise<WebhookAttempt>;
+  listWebhookAttempts?(deliveryId: string): Promise<WebhookAttempt[]>;
+
+  /**
+   * Take the named lock until `expiresAt`, replacing an expired holder.
+   * Resolves false while an unexpired lock exists.
+   */
+  acquireSchedulerLock?(
+    name: string,
+    owner: string,
+    expiresAt: Date
+  ): Promise<boolean>;
+  /**
+   * Extend a lock `owner` still holds; false when it no longer does
+   */
+  renewSchedulerLock?(
+    name: string,
+    owner: string,
+    expiresAt: Date
+  ): Promise<boolean>;
+  releaseSchedulerLock?(name: string, owner: string): Promise<void>;
+
+  getChainCheckpoint?(name: string): Promise<ChainCheckpoint | null>;
+  /**
+   * Create or replace the named checkpoint
+   */
+  saveChainCheckpoint?(
+    data: Omit<ChainCheckpoint, "updatedAt">
+  ): Promise<ChainCheckpoint>;
 
   createCustomer?(
     data: Omit<Customer, "id" | "createdAt" | "updatedAt">
@@ -5,14 +5,36 @@ export type PaymentStatus =
   | "processing"
   | "confirmed"
   | "expired"
+  | "paid_late"
   | "failed";
 
+/**
+ * Store of intents and addresses created without a `storeId`, using the
+ * top-level descriptor
+ */
+export const DEFAULT_STORE_ID = "default";
+
 export const paymentIntentSchema = z.object({
   id: z.string(),
+  storeId: z.string().default(DEFAULT_STORE_ID),
   customerId: z.string().nullish(),
   email: z.string().email().nullish(),
   amountSats: z.number().int().positive(),
-  status: z.enum(["pending", "processing", "confirmed", "expired", "failed"]),
+  receivedSats: z.number().int().nonnegative().default(0),
+  overpaidSats: z.number().int().nonnegative().default(0),
+  amountFiat: z.number().positive().nullish(),
+  currency: z.string().nullish(),
+  exchangeRate: z.number().positive().nullish(),
+  rateQuotedAt: z.date().nullish(),
+  rateLockExpiresAt: z.date().nullish(),
+  status: z.enum([
+    "pending",
+    "processing",
+    "confirmed",
+    "expired",
+    "paid_late",
+    "failed",
+  ]),
   addressId: z.string().nullish(),
   memo: z.string().nullish(),
   requiredConfs: z.number().int().default(1),
@@ -24,11 +46,34 @@ export const paymentIntentSchema = z.object({
 
 export type PaymentIntent = z.infer<typeof paymentIntentSchema>;
 
+export const paymentIntentEventSchema = z.object({
+  id: z.string(),
+  intentId: z.string(),
+  /**
+   * Null for the event recording the intent's creation
+   */
+  fromStatus: paymentIntentSchema.shape.status.nullish(),
+  toStatus: paymentIntentSchema.shape.status,
+  reason: z.string(),
+  actor: z.enum(["system", "watcher", "merchant"]),
+  txid: z.string().nullish(),
+  createdAt: z.date().default(() => new Date()),
+});
+
+export type PaymentIntentEvent = z.infer<typeof paymentIntentEventSchema>;
+
 export const depositAddressSchema = z.object({
   id: z.string(),
+  storeId: z.string().default(DEFAULT_STORE_ID),
   address: z.string(),
   derivationIndex: z.number().int(),
   scriptPubKeyHex: z.string(),
+  /**
+   * P2SH redeem script and P2WSH witness script, kept so multisig
+   * cosigners can spend the address
+   */
+  redeemScriptHex: z.string().nullish(),
+  witnessScriptHex: z.string().nullish(),
   intentId: z.string().nullish(),
   assignedAt: z.date().nullish(),
   createdAt: z.date().default(() => new Date()),
@@ -45,7 +90,16 @@ export const txObservationSchema = z.object({
   confirmations: z.number().int().default(0),
   addressId: z.string(),
   scriptPubKeyHex: z.string(),
-  status: z.enum(["mempool", "confirmed"]).default("mempool"),
+  /**
+   * `dropped` once the backend no longer knows the transaction; dropped
+   * outputs no longer count towards the intent
+   */
+  status: z.enum(["mempool", "confirmed", "dropped"]).default("mempool"),
+  /**
+   * Block the transaction was mined in, to notice when a reorg orphans it
+   */
+  blockHash: z.string().nullish(),
+  blockHeight: z.number().int().nullish(),
   seenAt: z.date(),
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
@@ -65,6 +119,145 @@ export const magicLinkTokenSchema = z.object({
 
 export type MagicLinkToken = z.infer<typeof magicLinkTokenSchema>;
 
+export type RefundStatus =
+  | "requested"
+  | "built"
+  | "broadcast"
+  | "confirmed"
+  | "failed";
+
+export const refundSchema = z.object({
+  id: z.string(),
+  intentId: z.string(),
+  status: z.enum(["requested", "built", "broadcast", "confirmed", "failed"]),
+  amountSats: z.number().int().positive(),
+  refundAddress: z.string(),
+  feeRate: z.number().positive(),
+  feePayer: z.enum(["merchant", "customer"]),
+  sourceTxid: z.string().nullish(),
+  sourceVout: z.number().int().nullish(),
+  feeSats: z.number().int().nullish(),
+  psbtBase64: z.string().nullish(),
+  txHex: z.string().nullish(),
+  txid: z.string().nullish(),
+  error: z.string().nullish(),
+  broadcastAt: z.date().nullish(),
+  confirmedAt: z.date().nullish(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+export type Refund = z.infer<typeof refundSchema>;
+
+export const apiKeyScopeSchema = z.enum(["read", "write", "scan", "admin"]);
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /**
+   * First characters of the key, kept in clear to identify it in listings
+   */
+  prefix: z.string(),
+  /**
+   * SHA-256 of the full key; the key itself is never stored
+   */
+  keyHash: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  /**
+   * Store the key is bound to; keys without one can access every store
+   */
+  storeId: z.string().nullish(),
+  lastUsedAt: z.date().nullish(),
+  revokedAt: z.date().nullish(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const idempotencyRecordSchema = z.object({
+  id: z.string(),
+  /**
+   * Operation and store the key applies to, e.g. "createPaymentIntent:default"
+   */
+  scope: z.string(),
+  key: z.string(),
+  /**
+   * SHA-256 of the request parameters, used to detect reused keys
+   */
+  requestHash: z.string(),
+  /**
+   * JSON-encoded result; null while the original request is in flight
+   */
+  response: z.string().nullish(),
+  expiresAt: z.date(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+export type IdempotencyRecord = z.infer<typeof idempotencyRecordSchema>;
+
+export const webhookDeliverySchema = z.object({
+  id: z.string(),
+  /**
+   * Shared by every endpoint receiving the same event; receivers use it to
+   * deduplicate retried deliveries
+   */
+  eventId: z.string(),
+  eventType: z.string(),
+  url: z.string(),
+  /**
+   * Exact JSON body that is signed and sent
+   */
+  payload: z.string(),
+  status: z.enum(["pending", "delivered", "failed"]),
+  attempts: z.number().int().nonnegative(),
+  nextAttemptAt: z.date(),
+  lastStatusCode: z.number().int().nullish(),
+  lastError: z.string().nullish(),
+  deliveredAt: z.date().nullish(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+export const webhookAttemptSchema = z.object({
+  id: z.string(),
+  deliveryId: z.string(),
+  attempt: z.number().int().positive(),
+  statusCode: z.number().int().nullish(),
+  error: z.string().nullish(),
+  durationMs: z.number().int().nonnegative(),
+  createdAt: z.date().default(() => new Date()),
+});
+
+export type WebhookAttempt = z.infer<typeof webhookAttemptSchema>;
+
+export const schedulerLockSchema = z.object({
+  name: z.string(),
+  owner: z.string(),
+  expiresAt: z.date(),
+  createdAt: z.date().default(() => new Date()),
+});
+
+export type SchedulerLock = z.infer<typeof schedulerLockSchema>;
+
+/**
+ * Last block the watcher finished processing, so a restart can catch up
+ * on the blocks it missed
+ */
+export const chainCheckpointSchema = z.object({
+  name: z.string(),
+  height: z.number().int().nonnegative(),
+  blockHash: z.string(),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+export type ChainCheckpoint = z.infer<typeof chainCheckpointSchema>;
+
 export const customerSchema = z.object({
   id: z.string(),
   email: z.string().email(),
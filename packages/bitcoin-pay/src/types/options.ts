@@ -1,10 +1,14 @@
 import type { BitcoinPayPlugin } from "./plugins";
 import type { StorageAdapter } from "./adapter";
+import type { ExchangeRateServiceOptions } from "../exchange-rates";
+import type { ChainBackend } from "../watcher/backend";
+import type { EsploraConfig } from "../watcher/esplora";
+import type { ElectrumConfig } from "../watcher/electrum";
 
 /**
  * Bitcoin network type
  */
-export type Network = "mainnet" | "testnet" | "regtest" | "signet";
+export type Network = "mainnet" | "testnet" | "testnet4" | "regtest" | "signet";
 
 /**
  * ZMQ configuration for Bitcoin Core
@@ -30,11 +34,158 @@ export interface RPCConfig {
 }
 
 /**
- * Watcher backend configuration
+ * Watcher backend configuration. Bitcoin Core is used through `rpc` and
+ * `zmq` unless `coreWallet`, `esplora`, `electrum` or another `backend` is
+ * given.
  */
 export interface WatcherBackendConfig {
   zmq?: ZMQConfig;
   rpc?: RPCConfig;
+  /**
+   * Poll an Esplora/electrs REST API instead of running a node
+   */
+  esplora?: EsploraConfig;
+  /**
+   * Subscribe to an Electrum server (electrs, Fulcrum) instead of running
+   * a node
+   */
+  electrum?: ElectrumConfig;
+  /**
+   * Track payments through a watch-only descriptor wallet on the `rpc`
+   * node instead of ZMQ `hashtx`; ZMQ is optional and only speeds up
+   * discovery
+   */
+  coreWallet?: CoreWalletOptions;
+  backend?: ChainBackend;
+}
+
+export interface CoreWalletOptions {
+  /**
+   * @default "bitcoin-pay"
+   */
+  walletName?: string;
+  /**
+   * Unix time to rescan from when the wallet is first created
+   * @default "now"
+   */
+  rescanSince?: number | "now";
+  /**
+   * @default 10000
+   */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Exchange rate configuration for fiat-denominated intents
+ */
+export interface ExchangeRateOptions extends ExchangeRateServiceOptions {
+  /**
+   * How long a quoted rate is honoured for a pending intent before it is
+   * re-quoted
+   * @default 15
+   */
+  rateLockMinutes?: number;
+}
+
+/**
+ * Event types sent to webhook endpoints
+ */
+export type WebhookEventType =
+  | "intent.created"
+  | "intent.processing"
+  | "intent.confirmed"
+  | "intent.partially_paid"
+  | "intent.overpaid"
+  | "intent.expired"
+  | "intent.paid_late"
+  | "intent.reorg";
+
+export interface WebhookEndpoint {
+  url: string;
+  /**
+   * Event types to send; all events when omitted
+   */
+  events?: WebhookEventType[];
+  /**
+   * Only send events of this store; events of every store when omitted
+   */
+  storeId?: string;
+}
+
+/**
+ * Outbound webhook configuration. Payloads are signed with `secret`.
+ */
+export interface WebhookOptions {
+  endpoints: WebhookEndpoint[];
+  /**
+   * Attempts before a delivery is marked failed
+   * @default 10
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry; doubles with every attempt
+   * @default 30
+   */
+  backoffBaseSeconds?: number;
+  /**
+   * @default 10000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * An address is only recycled after its intent has been expired for
+ * `quarantineHours` and the node confirms it never received anything, so
+ * requires `watcher.rpc` with a wallet that tracks the descriptor.
+ */
+export interface AddressRecyclingOptions {
+  enabled: boolean;
+  /**
+   * @default 72
+   */
+  quarantineHours?: number;
+}
+
+/**
+ * Background maintenance started with the watcher. Intervals are in
+ * seconds.
+ */
+export interface SchedulerOptions {
+  /**
+   * @default false
+   */
+  enabled?: boolean;
+  /**
+   * Expire pending intents past their `expiresAt`
+   * @default 60
+   */
+  expireIntentsInterval?: number;
+  /**
+   * Delete expired magic link tokens
+   * @default 3600
+   */
+  cleanupMagicLinksInterval?: number;
+  /**
+   * Refresh confirmations and rescan open intents for missed payments
+   * @default 300
+   */
+  reconcileInterval?: number;
+  /**
+   * Retry due webhook deliveries, when webhooks are configured
+   * @default 30
+   */
+  webhookRetryInterval?: number;
+  /**
+   * Recycle quarantined addresses, when `advanced.addressRecycling` is
+   * enabled
+   * @default 3600
+   */
+  recycleAddressesInterval?: number;
+  /**
+   * Intents loaded per query while expiring
+   * @default 100
+   */
+  batchSize?: number;
 }
 
 /**
@@ -44,13 +195,17 @@ export interface EventHandlers {
   /**
    * Called when a payment intent is created
    */
-  onIntentCreated?: (data: { intentId: string }) => Promise<void> | void;
+  onIntentCreated?: (data: {
+    intentId: string;
+    storeId: string;
+  }) => Promise<void> | void;
 
   /**
    * Called when a transaction is seen in mempool (0-conf)
    */
   onProcessing?: (data: {
     intentId: string;
+    storeId: string;
     txid: string;
     valueSats: number;
   }) => Promise<void> | void;
@@ -60,20 +215,96 @@ export interface EventHandlers {
    */
   onConfirmed?: (data: {
     intentId: string;
+    storeId: string;
     txid: string;
     valueSats: number;
     confirmations: number;
   }) => Promise<void> | void;
 
+  /**
+   * Called when a payment arrives that does not yet cover the full amount,
+   * so the customer can be asked to top up the remaining balance
+   */
+  onPartialPayment?: (data: {
+    intentId: string;
+    storeId: string;
+    txid: string;
+    valueSats: number;
+    receivedSats: number;
+    remainingSats: number;
+  }) => Promise<void> | void;
+
+  /**
+   * Called when the deposit address receives more than the intent amount.
+   * The excess can be returned with the refund APIs.
+   */
+  onOverpaid?: (data: {
+    intentId: string;
+    storeId: string;
+    txid: string;
+    amountSats: number;
+    receivedSats: number;
+    overpaidSats: number;
+  }) => Promise<void> | void;
+
   /**
    * Called when payment intent expires without payment
    */
-  onExpired?: (data: { intentId: string }) => Promise<void> | void;
+  onExpired?: (data: {
+    intentId: string;
+    storeId: string;
+  }) => Promise<void> | void;
 
   /**
-   * Called when a confirmed tx is reorged out
+   * Called when a payment arrives after the intent's expiry and grace
+   * window, or when an underpaid intent expires. The intent waits in `paid_late` until `acceptLatePayment` or
+   * `refundLatePayment` is called.
+   */
+  onLatePayment?: (data: {
+    intentId: string;
+    storeId: string;
+    txid: string;
+    valueSats: number;
+    receivedSats: number;
+  }) => Promise<void> | void;
+
+  /**
+   * Called when a payment is reorged out of its block. `confirmations` is
+   * its depth on the new best chain, `null` once the transaction is gone.
+   */
+  onReorg?: (data: {
+    intentId: string;
+    storeId: string;
+    txid: string;
+    blockHash: string | null;
+    blockHeight: number | null;
+    previousConfirmations: number;
+    confirmations: number | null;
+  }) => Promise<void> | void;
+}
+
+/**
+ * A merchant store with its own wallet. Intents and addresses record the
+ * store they belong to, so `id` must stay stable once intents exist.
+ */
+export interface StoreOptions {
+  id: string;
+  /**
+   * Watch-only descriptor deriving this store's deposit addresses
+   */
+  descriptor: string;
+  /**
+   * @default the top-level `confirmations`
+   */
+  confirmations?: number;
+  /**
+   * @default the top-level `advanced.intentExpiryMinutes`
    */
-  onReorg?: (data: { intentId: string; txid: string }) => Promise<void> | void;
+  intentExpiryMinutes?: number;
+  /**
+   * Handlers for this store's events, called after the top-level `events`
+   */
+  events?: EventHandlers;
 }
 
 /**
@@ -104,6 +335,13 @@ export interface BitcoinPayOptions {
    */
   descriptor: string;
 
+  /**
+   * Additional stores sharing this instance and its watcher. Intents
+   * created without a `storeId` use the top-level descriptor and settings
+   * as the `"default"` store.
+   */
+  stores?: StoreOptions[];
+
   /**
    * Blockchain watcher configuration
    */
@@ -131,6 +369,22 @@ export interface BitcoinPayOptions {
    */
   events?: EventHandlers;
 
+  /**
+   * Signed HTTP webhooks delivered through a persistent outbox
+   */
+  webhooks?: WebhookOptions;
+
+  /**
+   * Scheduled expiry, cleanup and reconciliation jobs
+   */
+  scheduler?: SchedulerOptions;
+
+  /**
+   * Exchange rate providers used to price intents created with
+   * `amountFiat` and `currency`
+   */
+  exchangeRates?: ExchangeRateOptions;
+
   /**
    * Plugins to extend functionality
    */
@@ -146,6 +400,19 @@ export interface BitcoinPayOptions {
      */
     gapLimit?: number;
 
+    /**
+     * What to do when deriving a new address would leave more than
+     * `gapLimit` unused addresses after the last paid one, beyond which
+     * wallet software stops scanning during recovery
+     * @default "warn"
+     */
+    gapLimitPolicy?: "warn" | "error";
+
+    /**
+     * Reuse addresses of intents that expired without any payment
+     */
+    addressRecycling?: AddressRecyclingOptions;
+
     /**
      * Magic link TTL in seconds
      * @default 86400 (24 hours)
@@ -157,5 +424,24 @@ export interface BitcoinPayOptions {
      * @default 60
      */
     intentExpiryMinutes?: number;
+
+    /**
+     * Minutes after `expiresAt` during which payments are still accepted
+     * normally; later payments mark the intent `paid_late`
+     * @default 0
+     */
+    latePaymentGraceMinutes?: number;
+
+    /**
+     * How long idempotency keys are remembered, in seconds
+     * @default 86400 (24 hours)
+     */
+    idempotencyKeyTTL?: number;
+
+    /**
+     * Interval between heartbeat comments on `/status/stream`, in seconds
+     * @default 15
+     */
+    statusStreamHeartbeat?: number;
   };
 }
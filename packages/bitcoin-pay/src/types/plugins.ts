@@ -1,5 +1,7 @@
 import type { LiteralString } from "./helper";
 import type { StorageAdapter } from "./adapter";
+import type { BitcoinPayOptions } from "./options";
+import type { ApiKey, ApiKeyScope } from "./models";
 
 export type PluginSchema = {
   [table: string]: {
@@ -18,6 +20,15 @@ export type PluginSchema = {
 
 export interface PluginContext {
   storage: StorageAdapter;
+  options: BitcoinPayOptions;
+  /**
+   * Path params captured from `:name` segments when an endpoint is invoked
+   */
+  params?: Record<string, string>;
+  /**
+   * Key that authenticated the request, for endpoints with a `scope`
+   */
+  apiKey?: ApiKey;
   [key: string]: unknown;
 }
 
@@ -25,19 +36,47 @@ export interface PluginEventData {
   intentId: string;
   txid?: string;
   valueSats?: number;
-  confirmations?: number;
+  confirmations?: number | null;
   [key: string]: unknown;
 }
 
+export type PluginHook = (
+  data: PluginEventData,
+  context: PluginContext
+) => Promise<void> | void;
+
+/**
+ * Plugin endpoint. Keys in `endpoints` are paths relative to
+ * `basePath/<plugin-id>`, optionally prefixed with an HTTP method
+ * (e.g. "GET /list" or "/subscriptions/:id"). Returning a `Response`
+ * sends it as-is; any other value is serialized as JSON.
+ *
+ * Plain functions are public. Endpoints declared with a `scope` require an
+ * API key granting it, exactly like the built-in merchant routes.
+ */
+export type PluginEndpoint = (
+  req: Request,
+  context: PluginContext
+) => Promise<unknown>;
+
+export interface ScopedPluginEndpoint {
+  scope: ApiKeyScope;
+  handler: PluginEndpoint;
+}
+
 export interface BitcoinPayPlugin {
   id: LiteralString;
   schema?: PluginSchema;
   init?: (context: PluginContext) => void | Promise<void>;
-  endpoints?: Record<string, (req: unknown, context: PluginContext) => Promise<unknown>>;
+  endpoints?: Record<string, PluginEndpoint | ScopedPluginEndpoint>;
   hooks?: {
-    onIntentCreated?: (data: PluginEventData, context: PluginContext) => Promise<void> | void;
-    onProcessing?: (data: PluginEventData, context: PluginContext) => Promise<void> | void;
-    onConfirmed?: (data: PluginEventData, context: PluginContext) => Promise<void> | void;
-    onExpired?: (data: PluginEventData, context: PluginContext) => Promise<void> | void;
+    onIntentCreated?: PluginHook;
+    onProcessing?: PluginHook;
+    onConfirmed?: PluginHook;
+    onPartialPayment?: PluginHook;
+    onOverpaid?: PluginHook;
+    onExpired?: PluginHook;
+    onLatePayment?: PluginHook;
+    onReorg?: PluginHook;
   };
 }
@@ -0,0 +1,51 @@
+import type { PaymentIntent, TxObservation } from "../types/models";
+
+export interface PaymentTotals {
+  /**
+   * Sum of every output paid to the deposit address, mempool included
+   */
+  receivedSats: number;
+  /**
+   * Sum of outputs with at least the intent's required confirmations
+   */
+  confirmedSats: number;
+  /**
+   * Amount still owed before the intent is fully paid
+   */
+  remainingSats: number;
+  /**
+   * Amount received beyond what the intent asked for
+   */
+  overpaidSats: number;
+}
+
+/**
+ * Aggregate all observations for an intent's deposit address. Payments can
+ * arrive split across several outputs and transactions; dropped ones are
+ * left out.
+ */
+export function summarizePayments(
+  intent: Pick<PaymentIntent, "amountSats" | "requiredConfs">,
+  observations: Array<
+    Pick<TxObservation, "valueSats" | "confirmations"> &
+      Partial<Pick<TxObservation, "status">>
+  >
+): PaymentTotals {
+  let receivedSats = 0;
+  let confirmedSats = 0;
+
+  for (const obs of observations) {
+    if (obs.status === "dropped") continue;
+    receivedSats += obs.valueSats;
+    if (obs.confirmations >= intent.requiredConfs) {
+      confirmedSats += obs.valueSats;
+    }
+  }
+
+  return {
+    receivedSats,
+    confirmedSats,
+    remainingSats: Math.max(0, intent.amountSats - receivedSats),
+    overpaidSats: Math.max(0, receivedSats - intent.amountSats),
+  };
+}
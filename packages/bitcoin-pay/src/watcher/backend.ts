@@ -0,0 +1,110 @@
+/**
+ * An output script the watcher wants to hear about
+ */
+export interface WatchedScript {
+  address: string;
+  scriptPubKeyHex: string;
+}
+
+export interface ChainTxOutput {
+  n: number;
+  valueSats: number;
+  scriptPubKeyHex: string;
+  /**
+   * Set when the backend decodes addresses; outputs are otherwise matched
+   * by `scriptPubKeyHex`
+   */
+  address?: string;
+}
+
+export interface ChainTransaction {
+  txid: string;
+  outputs: ChainTxOutput[];
+  /**
+   * 0 while in the mempool
+   */
+  confirmations: number;
+  /**
+   * Block the transaction was mined in, when the backend knows; the
+   * watcher looks up what is missing through `getBlockHash`
+   */
+  blockHash?: string;
+  blockHeight?: number;
+  /**
+   * Unix time in seconds of that block, when the backend knows it
+   */
+  blockTime?: number;
+}
+
+export interface ChainBlock {
+  hash: string;
+  height: number;
+  /**
+   * Unix time in seconds from the block header
+   */
+  time: number;
+  /**
+   * Confirmations are not set; they depend on the tip at the time of use
+   */
+  transactions: Array<
+    Omit<
+      ChainTransaction,
+      "confirmations" | "blockHash" | "blockHeight" | "blockTime"
+    >
+  >;
+}
+
+export interface ChainBackendEvents {
+  /**
+   * A transaction that may pay a subscribed script was seen or changed.
+   * Backends that cannot filter, such as ZMQ `hashtx`, report every
+   * transaction and leave matching to the watcher. Backends that already
+   * decoded it pass `tx`, saving the `getTransaction` round trip.
+   */
+  onTransaction: (
+    txid: string,
+    tx?: ChainTransaction
+  ) => void | Promise<void>;
+  /**
+   * The chain tip moved
+   */
+  onBlock: (height: number) => void | Promise<void>;
+}
+
+/**
+ * Source of chain data for `BitcoinWatcher`. The watcher keeps the intent
+ * logic; a backend only tells it what happened on chain.
+ */
+export interface ChainBackend {
+  start(events: ChainBackendEvents): Promise<void>;
+  stop(): Promise<void>;
+  subscribe(scripts: WatchedScript[]): Promise<void>;
+  unsubscribe(scripts: WatchedScript[]): Promise<void>;
+  /**
+   * `null` when the backend does not know the transaction, e.g. after it
+   * was reorged out or evicted from the mempool
+   */
+  getTransaction(txid: string): Promise<ChainTransaction | null>;
+  getTipHeight(): Promise<number>;
+  /**
+   * `null` when the transaction is no longer known. `blockHash` is the
+   * block the transaction was last seen in, for backends that can answer
+   * from it; 0 then means that block left the best chain.
+   */
+  getConfirmations(txid: string, blockHash?: string): Promise<number | null>;
+  /**
+   * Txids of transactions paying `script`, confirmed or in the mempool
+   */
+  getScriptHistory(script: WatchedScript): Promise<string[]>;
+  /**
+   * Chain name as reported by Bitcoin Core's `getblockchaininfo`, for
+   * backends that can tell. Called before `start()`.
+   */
+  getChain?(): Promise<string>;
+  /**
+   * Block access for catching up from a stored checkpoint; backends
+   * without it are only followed live
+   */
+  getBlockHash?(height: number): Promise<string>;
+  getBlock?(hash: string): Promise<ChainBlock>;
+}
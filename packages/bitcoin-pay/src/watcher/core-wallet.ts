@@ -0,0 +1,317 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { descriptorChecksum } from "../crypto/descriptor.js";
+import { ZMQWatcher, type ZMQConfig } from "./zmq.js";
+import { BitcoinRPC, RPCError, type RPCConfig } from "./rpc.js";
+import type {
+  ChainBackend,
+  ChainBackendEvents,
+  ChainTransaction,
+  WatchedScript,
+} from "./backend.js";
+
+// Bitcoin Core RPC error codes
+const RPC_INVALID_ADDRESS_OR_KEY = -5;
+const RPC_WALLET_NOT_FOUND = -18;
+const RPC_WALLET_ALREADY_LOADED = -35;
+
+export interface CoreWalletDescriptor {
+  desc: string;
+  /**
+   * Number of indices to import, starting at 0
+   */
+  range: number;
+}
+
+export interface CoreWalletBackendConfig {
+  rpc: RPCConfig;
+  /**
+   * Optional; `hashtx` and `hashblock` only make payments show up sooner
+   * than the next poll
+   */
+  zmq?: ZMQConfig;
+  /**
+   * @default "bitcoin-pay"
+   */
+  walletName?: string;
+  descriptors: CoreWalletDescriptor[];
+  /**
+   * Unix time to rescan from when the wallet is first created
+   * @default "now"
+   */
+  rescanSince?: number | "now";
+  /**
+   * @default 10000
+   */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Bitcoin Core watch-only descriptor wallet. The store descriptors are
+ * imported into a dedicated wallet and payments are discovered with
+ * `listsinceblock`, so nothing is missed while ZMQ is down and only wallet
+ * transactions are ever fetched.
+ */
+export class CoreWalletBackend implements ChainBackend {
+  private node: BitcoinRPC;
+  private rpc: BitcoinRPC;
+  private walletName: string;
+  private pollIntervalMs: number;
+  private events?: ChainBackendEvents;
+  private zmq?: ZMQWatcher;
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private pollQueued = false;
+  private lastBlock?: string;
+  private tipHeight = 0;
+  /**
+   * Confirmation state per txid as of the last round
+   */
+  private seen = new Map<string, boolean>();
+
+  constructor(private config: CoreWalletBackendConfig) {
+    this.walletName = config.walletName ?? "bitcoin-pay";
+    this.pollIntervalMs = config.pollIntervalMs ?? 10000;
+    this.node = new BitcoinRPC({ ...config.rpc, wallet: undefined });
+    this.rpc = new BitcoinRPC({ ...config.rpc, wallet: this.walletName });
+  }
+
+  async start(events: ChainBackendEvents): Promise<void> {
+    const created = await this.loadWallet();
+    await this.importDescriptors(
+      created ? (this.config.rescanSince ?? "now") : "now"
+    );
+
+    const info = await this.rpc.getBlockchainInfo();
+    this.lastBlock = info.bestblockhash;
+    this.tipHeight = info.blocks;
+    this.events = events;
+
+    if (this.config.zmq) {
+      this.zmq = new ZMQWatcher(this.config.zmq, {
+        onHashTx: () => this.requestPoll(),
+        onHashBlock: () => this.requestPoll(),
+      });
+      await this.zmq.start();
+    }
+    this.schedule();
+  }
+
+  async stop(): Promise<void> {
+    this.events = undefined;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.zmq?.stop();
+    this.zmq = undefined;
+    await this.polling;
+  }
+
+  /**
+   * Addresses outside the imported ranges are imported one by one
+   */
+  async subscribe(scripts: WatchedScript[]): Promise<void> {
+    const missing: string[] = [];
+    for (const script of scripts) {
+      const info = await this.rpc.getAddressInfo(script.address);
+      if (!info.ismine && !info.iswatchonly) {
+        missing.push(script.address);
+      }
+    }
+    if (missing.length === 0) return;
+
+    await this.importRequests(
+      missing.map((address) => {
+        const desc = `addr(${address})`;
+        return {
+          desc: `${desc}#${descriptorChecksum(desc)}`,
+          timestamp: "now" as const,
+        };
+      })
+    );
+  }
+
+  async unsubscribe(_scripts: WatchedScript[]): Promise<void> {}
+
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    const walletTx = await this.getWalletTransaction(txid);
+    if (!walletTx) return null;
+
+    const tx = bitcoin.Transaction.fromHex(walletTx.hex);
+    return {
+      txid,
+      confirmations: walletTx.confirmations,
+      blockHash: walletTx.blockhash,
+      blockHeight: walletTx.blockheight,
+      blockTime: walletTx.blocktime,
+      outputs: tx.outs.map((out, n) => ({
+        n,
+        valueSats: out.value,
+        scriptPubKeyHex: out.script.toString("hex"),
+      })),
+    };
+  }
+
+  async getTipHeight(): Promise<number> {
+    return (await this.rpc.getBlockchainInfo()).blocks;
+  }
+
+  async getConfirmations(txid: string): Promise<number | null> {
+    const walletTx = await this.getWalletTransaction(txid);
+    return walletTx ? walletTx.confirmations : null;
+  }
+
+  async getScriptHistory(script: WatchedScript): Promise<string[]> {
+    const received = await this.rpc.listReceivedByAddress(
+      0,
+      false,
+      true,
+      script.address
+    );
+    return [...new Set(received.flatMap((entry) => entry.txids))];
+  }
+
+  async getChain(): Promise<string> {
+    return (await this.rpc.getBlockchainInfo()).chain;
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return await this.rpc.getBlockHash(height);
+  }
+
+  /**
+   * Run one polling round now: report wallet receives that are new or
+   * changed confirmation state since the last block seen, and those
+   * removed by a reorg, then report a block if the tip moved
+   */
+  async poll(): Promise<void> {
+    const since = await this.rpc.listSinceBlock(this.lastBlock, 1, true, true);
+
+    const changed = new Set<string>();
+    const seen = new Map<string, boolean>();
+    for (const tx of since.transactions) {
+      // Conflicted transactions are left to the watcher's confirmation check
+      if (tx.category !== "receive" || tx.confirmations < 0) continue;
+
+      const confirmed = tx.confirmations > 0;
+      if (this.seen.get(tx.txid) !== confirmed) {
+        changed.add(tx.txid);
+      }
+      seen.set(tx.txid, confirmed);
+    }
+    for (const tx of since.removed ?? []) {
+      if (tx.category === "receive" && !seen.has(tx.txid)) {
+        changed.add(tx.txid);
+      }
+    }
+    this.seen = seen;
+    this.lastBlock = since.lastblock;
+
+    for (const txid of changed) {
+      await this.events?.onTransaction(txid);
+    }
+
+    const tip = await this.getTipHeight();
+    if (tip !== this.tipHeight) {
+      this.tipHeight = tip;
+      await this.events?.onBlock(tip);
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(async () => {
+      await this.requestPoll();
+      if (this.events) {
+        this.schedule();
+      }
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Poll unless a round is running, in which case one more follows it
+   */
+  private requestPoll(): Promise<void> {
+    if (this.polling) {
+      this.pollQueued = true;
+      return this.polling;
+    }
+
+    this.polling = (async () => {
+      do {
+        this.pollQueued = false;
+        try {
+          await this.poll();
+        } catch (err) {
+          console.error("Core wallet poll failed:", err);
+        }
+      } while (this.pollQueued && this.events);
+      this.polling = undefined;
+    })();
+    return this.polling;
+  }
+
+  /**
+   * Load the wallet, creating it blank and watch-only on first use.
+   * Returns whether it was created.
+   */
+  private async loadWallet(): Promise<boolean> {
+    if ((await this.node.listWallets()).includes(this.walletName)) {
+      return false;
+    }
+
+    try {
+      await this.node.loadWallet(this.walletName);
+      return false;
+    } catch (err) {
+      if (!(err instanceof RPCError)) throw err;
+      if (err.code === RPC_WALLET_ALREADY_LOADED) return false;
+      if (err.code !== RPC_WALLET_NOT_FOUND) throw err;
+    }
+
+    await this.node.createWallet(this.walletName, {
+      disablePrivateKeys: true,
+      blank: true,
+      descriptors: true,
+    });
+    return true;
+  }
+
+  private async importDescriptors(timestamp: number | "now"): Promise<void> {
+    await this.importRequests(
+      this.config.descriptors.map(({ desc, range }) => ({
+        desc,
+        range: [0, Math.max(range, 1) - 1] as [number, number],
+        timestamp,
+      }))
+    );
+  }
+
+  private async importRequests(
+    requests: Parameters<BitcoinRPC["importDescriptors"]>[0]
+  ): Promise<void> {
+    if (requests.length === 0) return;
+
+    const results = await this.rpc.importDescriptors(requests);
+    for (const [i, result] of results.entries()) {
+      if (!result.success) {
+        throw new Error(
+          `Failed to import descriptor ${requests[i].desc}: ${result.error?.message ?? "unknown error"}`
+        );
+      }
+    }
+  }
+
+  /**
+   * `null` for transactions the wallet does not know or that conflict
+   * with the chain
+   */
+  private async getWalletTransaction(txid: string) {
+    try {
+      const tx = await this.rpc.getTransaction(txid, true);
+      return tx.confirmations < 0 ? null : tx;
+    } catch (err) {
+      if (err instanceof RPCError && err.code === RPC_INVALID_ADDRESS_OR_KEY) {
+        return null;
+      }
+      throw err;
+    }
+  }
+}
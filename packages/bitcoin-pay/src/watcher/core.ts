@@ -0,0 +1,203 @@
+import { ZMQWatcher, type ZMQConfig } from "./zmq.js";
+import { matchRawBlock, matchRawTransaction } from "./raw.js";
+import {
+  BitcoinRPC,
+  RPCError,
+  type Block,
+  type RPCConfig,
+  type Transaction,
+} from "./rpc.js";
+import type {
+  ChainBackend,
+  ChainBlock,
+  ChainBackendEvents,
+  ChainTransaction,
+  WatchedScript,
+} from "./backend.js";
+
+export interface CoreBackendConfig {
+  rpc: RPCConfig;
+  zmq: ZMQConfig;
+}
+
+// Unknown transaction or block
+const RPC_INVALID_ADDRESS_OR_KEY = -5;
+
+function isNotFoundError(err: unknown): boolean {
+  return err instanceof RPCError && err.code === RPC_INVALID_ADDRESS_OR_KEY;
+}
+
+function toOutputs(tx: Transaction): ChainTransaction["outputs"] {
+  return tx.vout.map((vout) => ({
+    n: vout.n,
+    valueSats: Math.round(vout.value * 1e8),
+    scriptPubKeyHex: vout.scriptPubKey.hex,
+    address: vout.scriptPubKey.address,
+  }));
+}
+
+/**
+ * Bitcoin Core over JSON-RPC, notified of new transactions and blocks by
+ * ZMQ. With `rawtx` and `rawblock` ports, payloads are decoded locally and
+ * matched against the subscribed scripts, and payments are handed to the
+ * watcher without fetching them. `hashtx` alone reports every mempool
+ * transaction and the watcher fetches each one to pick out its payments.
+ */
+export class CoreBackend implements ChainBackend {
+  private rpc: BitcoinRPC;
+  private zmqConfig: ZMQConfig;
+  private zmq?: ZMQWatcher;
+  private scripts = new Set<string>();
+
+  constructor(config: CoreBackendConfig) {
+    this.rpc = new BitcoinRPC(config.rpc);
+    this.zmqConfig = config.zmq;
+  }
+
+  async start(events: ChainBackendEvents): Promise<void> {
+    const { rawtxPort, rawblockPort } = this.zmqConfig;
+    this.zmq = new ZMQWatcher(this.zmqConfig, {
+      onHashTx: rawtxPort
+        ? undefined
+        : async (hash) => {
+            const txid = Buffer.from(hash).reverse().toString("hex");
+            await events.onTransaction(txid);
+          },
+      // Core also publishes the transactions of connected blocks here; the
+      // watcher keeps what it already knows about mined payments
+      onRawTx: async (raw) => {
+        const tx = matchRawTransaction(raw, this.scripts);
+        if (tx) {
+          await events.onTransaction(tx.txid, { ...tx, confirmations: 0 });
+        }
+      },
+      onHashBlock: rawblockPort
+        ? undefined
+        : async () => {
+            await events.onBlock(await this.getTipHeight());
+          },
+      onRawBlock: async (raw) => {
+        const block = matchRawBlock(raw, this.scripts);
+        const header = await this.rpc.getBlockHeader(block.hash);
+        // A block already reorged out is left to the next block's walk
+        if (header.confirmations > 0) {
+          for (const tx of block.transactions) {
+            await events.onTransaction(tx.txid, {
+              ...tx,
+              confirmations: header.confirmations,
+              blockHash: block.hash,
+              blockHeight: header.height,
+              blockTime: header.time,
+            });
+          }
+        }
+        await events.onBlock(await this.getTipHeight());
+      },
+    });
+    await this.zmq.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.zmq?.stop();
+    this.zmq = undefined;
+  }
+
+  async subscribe(scripts: WatchedScript[]): Promise<void> {
+    for (const script of scripts) {
+      this.scripts.add(script.scriptPubKeyHex);
+    }
+  }
+
+  async unsubscribe(scripts: WatchedScript[]): Promise<void> {
+    for (const script of scripts) {
+      this.scripts.delete(script.scriptPubKeyHex);
+    }
+  }
+
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    let tx: Transaction | string;
+    try {
+      tx = await this.rpc.getRawTransaction(txid, true);
+    } catch (err) {
+      if (isNotFoundError(err)) return null;
+      throw err;
+    }
+    if (typeof tx === "string") return null; // Should not happen with verbose=true
+
+    return {
+      txid: tx.txid,
+      confirmations: tx.confirmations ?? 0,
+      blockHash: tx.blockhash,
+      blockTime: tx.blocktime,
+      outputs: toOutputs(tx),
+    };
+  }
+
+  async getTipHeight(): Promise<number> {
+    return (await this.rpc.getBlockchainInfo()).blocks;
+  }
+
+  /**
+   * Mined transactions are followed through their block's header, since
+   * nodes without `-txindex` can't look them up by txid alone
+   */
+  async getConfirmations(
+    txid: string,
+    blockHash?: string
+  ): Promise<number | null> {
+    if (blockHash) {
+      try {
+        const header = await this.rpc.getBlockHeader(blockHash);
+        return Math.max(header.confirmations, 0);
+      } catch (err) {
+        if (isNotFoundError(err)) return 0;
+        throw err;
+      }
+    }
+
+    const tx = await this.getTransaction(txid);
+    return tx ? tx.confirmations : null;
+  }
+
+  /**
+   * Answered by `listreceivedbyaddress`, so the loaded wallet must track
+   * the address. Untracked addresses throw rather than look unused.
+   */
+  async getScriptHistory(script: WatchedScript): Promise<string[]> {
+    const info = await this.rpc.getAddressInfo(script.address);
+    if (!info.ismine && !info.iswatchonly) {
+      throw new Error(
+        `Address ${script.address} is not tracked by the node's wallet; import the descriptor or use watcher.coreWallet`
+      );
+    }
+
+    const received = await this.rpc.listReceivedByAddress(
+      0,
+      true,
+      true,
+      script.address
+    );
+    return [...new Set(received.flatMap((entry) => entry.txids))];
+  }
+
+  async getChain(): Promise<string> {
+    return (await this.rpc.getBlockchainInfo()).chain;
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return await this.rpc.getBlockHash(height);
+  }
+
+  async getBlock(hash: string): Promise<ChainBlock> {
+    const block = (await this.rpc.getBlock(hash, 2)) as Block;
+    return {
+      hash: block.hash,
+      height: block.height,
+      time: block.time,
+      transactions: block.tx.map((tx) => ({
+        txid: tx.txid,
+        outputs: toOutputs(tx),
+      })),
+    };
+  }
+}
@@ -0,0 +1,471 @@
+import * as net from "node:net";
+import * as tls from "node:tls";
+import * as bitcoin from "bitcoinjs-lib";
+import { chainFromGenesisHash } from "../crypto/networks.js";
+import type {
+  ChainBackend,
+  ChainBackendEvents,
+  ChainTransaction,
+  WatchedScript,
+} from "./backend.js";
+
+export interface ElectrumConfig {
+  host: string;
+  port: number;
+  /**
+   * @default false
+   */
+  tls?: boolean;
+  /**
+   * Set to false to accept self-signed server certificates
+   * @default true
+   */
+  rejectUnauthorized?: boolean;
+  /**
+   * @default 10000
+   */
+  timeoutMs?: number;
+  /**
+   * Delay before reconnecting after the connection drops
+   * @default 5000
+   */
+  reconnectDelayMs?: number;
+}
+
+/**
+ * How servers report an unknown transaction: ElectrumX and Fulcrum relay
+ * the node's "No such mempool or blockchain transaction", electrs says
+ * "Transaction not found"
+ */
+const TX_NOT_FOUND = /no such mempool or blockchain transaction|transaction not found/i;
+
+export class ElectrumError extends Error {
+  constructor(
+    message: string,
+    public code?: number
+  ) {
+    super(message);
+    this.name = "ElectrumError";
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface HistoryEntry {
+  tx_hash: string;
+  /**
+   * Block height, or 0 / -1 while in the mempool
+   */
+  height: number;
+}
+
+/**
+ * Newline-delimited JSON-RPC over one TCP or TLS socket
+ */
+class ElectrumClient {
+  private socket?: net.Socket;
+  private buffer = "";
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(
+    private config: ElectrumConfig,
+    private onNotification: (method: string, params: unknown[]) => void,
+    private onClose: () => void
+  ) {}
+
+  async connect(): Promise<void> {
+    const { host, port } = this.config;
+    await new Promise<void>((resolve, reject) => {
+      const socket = this.config.tls
+        ? tls.connect({
+            host,
+            port,
+            servername: host,
+            rejectUnauthorized: this.config.rejectUnauthorized ?? true,
+          })
+        : net.connect({ host, port });
+      socket.setEncoding("utf8");
+      socket.once(this.config.tls ? "secureConnect" : "connect", () => {
+        socket.off("error", reject);
+        resolve();
+      });
+      socket.once("error", reject);
+      socket.on("data", (chunk: string) => this.onData(chunk));
+      socket.on("error", (err) => console.error("Electrum socket error:", err));
+      socket.on("close", () => {
+        this.failPending(new ElectrumError("Electrum connection closed"));
+        if (this.socket === socket) {
+          this.socket = undefined;
+          this.onClose();
+        }
+      });
+      this.socket = socket;
+    });
+  }
+
+  get connected(): boolean {
+    return this.socket !== undefined;
+  }
+
+  close(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.destroy();
+    this.failPending(new ElectrumError("Electrum connection closed"));
+  }
+
+  request<T>(method: string, params: unknown[] = []): Promise<T> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new ElectrumError("Electrum is not connected"));
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new ElectrumError(`Electrum request ${method} timed out`));
+      }, this.config.timeoutMs ?? 10000);
+      this.pending.set(id, {
+        resolve: (result) => resolve(result as T),
+        reject,
+        timer,
+      });
+      const message = { jsonrpc: "2.0", id, method, params };
+      socket.write(`${JSON.stringify(message)}\n`);
+    });
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.onMessage(line);
+      }
+      newline = this.buffer.indexOf("\n");
+    }
+  }
+
+  private onMessage(line: string): void {
+    let message: {
+      id?: number | null;
+      result?: unknown;
+      error?: { code?: number; message?: string } | string;
+      method?: string;
+      params?: unknown[];
+    };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.error("Ignoring malformed Electrum message:", line);
+      return;
+    }
+
+    if (message.method) {
+      this.onNotification(message.method, message.params ?? []);
+      return;
+    }
+
+    const pending =
+      typeof message.id === "number" ? this.pending.get(message.id) : undefined;
+    if (!pending || typeof message.id !== "number") return;
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+
+    if (message.error) {
+      const error =
+        typeof message.error === "string"
+          ? { message: message.error }
+          : message.error;
+      pending.reject(
+        new ElectrumError(
+          `Electrum error: ${error.message ?? "unknown"}`,
+          error.code
+        )
+      );
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private failPending(err: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Electrum script hash: the reversed SHA-256 of the output script
+ */
+export function electrumScriptHash(scriptPubKeyHex: string): string {
+  return Buffer.from(
+    bitcoin.crypto.sha256(Buffer.from(scriptPubKeyHex, "hex"))
+  )
+    .reverse()
+    .toString("hex");
+}
+
+/**
+ * Electrum protocol server such as electrs or Fulcrum. Each watched script
+ * is subscribed with `blockchain.scripthash.subscribe`; when its status
+ * changes the history is fetched and new or re-mined transactions are
+ * reported. Histories are refreshed on every new header, so confirmations
+ * and reorged-out transactions are answered from them.
+ */
+export class ElectrumBackend implements ChainBackend {
+  private client: ElectrumClient;
+  private events?: ChainBackendEvents;
+  private scripts = new Map<string, WatchedScript>();
+  private statuses = new Map<string, string | null>();
+  private histories = new Map<string, Map<string, number>>();
+  private tipHeight = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  constructor(private config: ElectrumConfig) {
+    this.client = new ElectrumClient(
+      config,
+      (method, params) => {
+        this.onNotification(method, params).catch((err) =>
+          console.error(`Failed to handle Electrum ${method}:`, err)
+        );
+      },
+      () => this.scheduleReconnect()
+    );
+  }
+
+  async start(events: ChainBackendEvents): Promise<void> {
+    this.events = events;
+    await this.connect();
+  }
+
+  async stop(): Promise<void> {
+    this.events = undefined;
+    clearTimeout(this.reconnectTimer);
+    this.client.close();
+  }
+
+  async subscribe(scripts: WatchedScript[]): Promise<void> {
+    for (const script of scripts) {
+      const scriptHash = electrumScriptHash(script.scriptPubKeyHex);
+      this.scripts.set(scriptHash, script);
+      const status = await this.client.request<string | null>(
+        "blockchain.scripthash.subscribe",
+        [scriptHash]
+      );
+      await this.onStatus(scriptHash, status);
+    }
+  }
+
+  async unsubscribe(scripts: WatchedScript[]): Promise<void> {
+    for (const script of scripts) {
+      const scriptHash = electrumScriptHash(script.scriptPubKeyHex);
+      this.scripts.delete(scriptHash);
+      this.statuses.delete(scriptHash);
+      this.histories.delete(scriptHash);
+      try {
+        await this.client.request("blockchain.scripthash.unsubscribe", [
+          scriptHash,
+        ]);
+      } catch (err) {
+        // Older servers lack unsubscribe; their notifications are ignored
+        if (!(err instanceof ElectrumError && err.code !== undefined)) {
+          throw err;
+        }
+      }
+    }
+  }
+
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    const hex = await this.getRawTransaction(txid);
+    if (!hex) return null;
+
+    const tx = bitcoin.Transaction.fromHex(hex);
+    const height = this.heightOf(txid);
+    const blockHeight = height !== undefined && height > 0 ? height : undefined;
+    return {
+      txid,
+      confirmations: (await this.getConfirmations(txid)) ?? 0,
+      blockHeight,
+      blockTime:
+        blockHeight === undefined
+          ? undefined
+          : (await this.getHeader(blockHeight)).timestamp,
+      outputs: tx.outs.map((out, n) => ({
+        n,
+        valueSats: out.value,
+        scriptPubKeyHex: out.script.toString("hex"),
+      })),
+    };
+  }
+
+  async getTipHeight(): Promise<number> {
+    return this.tipHeight;
+  }
+
+  /**
+   * Answered from the histories of watched scripts; a transaction outside
+   * them counts as unconfirmed while the server still has it
+   */
+  async getConfirmations(txid: string): Promise<number | null> {
+    const height = this.heightOf(txid);
+    if (height !== undefined) {
+      return height > 0 ? Math.max(this.tipHeight - height + 1, 1) : 0;
+    }
+    return (await this.getRawTransaction(txid)) ? 0 : null;
+  }
+
+  async getScriptHistory(script: WatchedScript): Promise<string[]> {
+    const history = await this.fetchHistory(
+      electrumScriptHash(script.scriptPubKeyHex)
+    );
+    return [...history.keys()];
+  }
+
+  async getChain(): Promise<string> {
+    // The watcher checks the chain before calling start()
+    await this.open();
+    const features = await this.client.request<{ genesis_hash: string }>(
+      "server.features"
+    );
+    return chainFromGenesisHash(features.genesis_hash);
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return (await this.getHeader(height)).getId();
+  }
+
+  private async getHeader(height: number): Promise<bitcoin.Block> {
+    const header = await this.client.request<string>("blockchain.block.header", [
+      height,
+    ]);
+    return bitcoin.Block.fromHex(header);
+  }
+
+  private async open(): Promise<void> {
+    if (this.client.connected) return;
+    await this.client.connect();
+    await this.client.request("server.version", ["bitcoin-pay", "1.4"]);
+  }
+
+  private async connect(): Promise<void> {
+    await this.open();
+    const header = await this.client.request<{ height: number }>(
+      "blockchain.headers.subscribe"
+    );
+    this.tipHeight = header.height;
+
+    // Resubscribe after a reconnect, reporting anything missed meanwhile
+    const scripts = [...this.scripts.values()];
+    this.scripts.clear();
+    await this.subscribe(scripts);
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.events) return;
+
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(async () => {
+      try {
+        await this.connect();
+      } catch (err) {
+        console.error("Electrum reconnect failed:", err);
+        this.client.close();
+        this.scheduleReconnect();
+      }
+    }, this.config.reconnectDelayMs ?? 5000);
+  }
+
+  private async onNotification(
+    method: string,
+    params: unknown[]
+  ): Promise<void> {
+    if (method === "blockchain.headers.subscribe") {
+      const [header] = params as Array<{ height: number }>;
+      this.tipHeight = header.height;
+      for (const scriptHash of this.scripts.keys()) {
+        await this.refresh(scriptHash);
+      }
+      await this.events?.onBlock(header.height);
+    } else if (method === "blockchain.scripthash.subscribe") {
+      const [scriptHash, status] = params as [string, string | null];
+      if (this.scripts.has(scriptHash)) {
+        await this.onStatus(scriptHash, status);
+      }
+    }
+  }
+
+  private async onStatus(
+    scriptHash: string,
+    status: string | null
+  ): Promise<void> {
+    if (this.statuses.get(scriptHash) === status) return;
+    this.statuses.set(scriptHash, status);
+    await this.refresh(scriptHash);
+  }
+
+  /**
+   * Re-fetch a script's history and report transactions that are new or
+   * changed height
+   */
+  private async refresh(scriptHash: string): Promise<void> {
+    const previous = this.histories.get(scriptHash) ?? new Map();
+    const history = await this.fetchHistory(scriptHash);
+    for (const [txid, height] of history) {
+      if (previous.get(txid) !== height) {
+        await this.events?.onTransaction(txid);
+      }
+    }
+  }
+
+  private async fetchHistory(scriptHash: string): Promise<Map<string, number>> {
+    const entries = await this.client.request<HistoryEntry[]>(
+      "blockchain.scripthash.get_history",
+      [scriptHash]
+    );
+    const history = new Map(
+      entries.map((entry) => [entry.tx_hash, entry.height])
+    );
+    if (this.scripts.has(scriptHash)) {
+      this.histories.set(scriptHash, history);
+    }
+    return history;
+  }
+
+  /**
+   * Height from the histories of watched scripts; 0 or below while in the
+   * mempool
+   */
+  private heightOf(txid: string): number | undefined {
+    for (const history of this.histories.values()) {
+      const height = history.get(txid);
+      if (height !== undefined) return height;
+    }
+    return undefined;
+  }
+
+  private async getRawTransaction(txid: string): Promise<string | null> {
+    try {
+      return await this.client.request<string>("blockchain.transaction.get", [
+        txid,
+      ]);
+    } catch (err) {
+      // Unknown transactions are reported as errors; anything else, such
+      // as an overloaded server, must not read as a vanished transaction
+      if (err instanceof ElectrumError && TX_NOT_FOUND.test(err.message)) {
+        return null;
+      }
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { chainFromGenesisHash } from "../crypto/networks.js";
+import type {
+  ChainBackend,
+  ChainBackendEvents,
+  ChainTransaction,
+  WatchedScript,
+} from "./backend.js";
+
+export interface EsploraConfig {
+  /**
+   * Base URL of the REST API, e.g. "https://esplora.example.com/api"
+   */
+  url: string;
+  /**
+   * Delay between polling rounds
+   * @default 15000
+   */
+  pollIntervalMs?: number;
+  /**
+   * Addresses fetched concurrently within a round
+   * @default 10
+   */
+  batchSize?: number;
+  /**
+   * @default 10
+   */
+  maxRequestsPerSecond?: number;
+  /**
+   * @default 10000
+   */
+  timeoutMs?: number;
+}
+
+interface EsploraStatus {
+  confirmed: boolean;
+  block_height?: number;
+  block_hash?: string;
+  block_time?: number;
+}
+
+interface EsploraTx {
+  txid: string;
+  vout: Array<{
+    scriptpubkey: string;
+    scriptpubkey_address?: string;
+    value: number;
+  }>;
+  status: EsploraStatus;
+}
+
+interface AddressState {
+  script: WatchedScript;
+  etag?: string;
+  /**
+   * Confirmation state per txid as of the last round
+   */
+  seen: Map<string, boolean>;
+}
+
+// Esplora pages confirmed address history in chunks of this size
+const CHAIN_PAGE_SIZE = 25;
+
+export class EsploraError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "EsploraError";
+  }
+}
+
+/**
+ * Esplora/electrs REST API. Watched addresses are polled in batches; a
+ * round reports transactions that are new or changed their confirmation
+ * state, skipping addresses the server answers `304 Not Modified` for,
+ * and reports a block when the tip height moves.
+ */
+export class EsploraBackend implements ChainBackend {
+  private url: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private requestSpacingMs: number;
+  private timeoutMs: number;
+  private addresses = new Map<string, AddressState>();
+  private events?: ChainBackendEvents;
+  private timer?: NodeJS.Timeout;
+  private nextRequestAt = 0;
+  private tipHeight: number | null = null;
+
+  constructor(config: EsploraConfig) {
+    this.url = config.url.replace(/\/+$/, "");
+    this.pollIntervalMs = config.pollIntervalMs ?? 15000;
+    this.batchSize = config.batchSize ?? 10;
+    this.requestSpacingMs = 1000 / (config.maxRequestsPerSecond ?? 10);
+    this.timeoutMs = config.timeoutMs ?? 10000;
+  }
+
+  async start(events: ChainBackendEvents): Promise<void> {
+    this.events = events;
+    this.tipHeight = await this.getTipHeight();
+    this.schedule();
+  }
+
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.events = undefined;
+  }
+
+  async subscribe(scripts: WatchedScript[]): Promise<void> {
+    for (const script of scripts) {
+      if (!this.addresses.has(script.address)) {
+        this.addresses.set(script.address, { script, seen: new Map() });
+      }
+    }
+  }
+
+  async unsubscribe(scripts: WatchedScript[]): Promise<void> {
+    for (const script of scripts) {
+      this.addresses.delete(script.address);
+    }
+  }
+
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    const tx = await this.getJson<EsploraTx>(`/tx/${txid}`);
+    if (!tx) return null;
+
+    return {
+      txid: tx.txid,
+      confirmations: await this.confirmationsOf(tx.status),
+      blockHash: tx.status.block_hash,
+      blockHeight: tx.status.block_height,
+      blockTime: tx.status.block_time,
+      outputs: tx.vout.map((vout, n) => ({
+        n,
+        valueSats: vout.value,
+        scriptPubKeyHex: vout.scriptpubkey,
+        address: vout.scriptpubkey_address,
+      })),
+    };
+  }
+
+  async getTipHeight(): Promise<number> {
+    const response = await this.request("/blocks/tip/height");
+    return Number(await response.text());
+  }
+
+  async getConfirmations(txid: string): Promise<number | null> {
+    const status = await this.getJson<EsploraStatus>(`/tx/${txid}/status`);
+    return status ? this.confirmationsOf(status) : null;
+  }
+
+  async getScriptHistory(script: WatchedScript): Promise<string[]> {
+    const path = `/address/${script.address}/txs`;
+    const txs = (await this.getJson<EsploraTx[]>(path)) ?? [];
+
+    // The first page holds the mempool and up to 25 confirmed transactions
+    let page = txs.filter((tx) => tx.status.confirmed);
+    while (page.length === CHAIN_PAGE_SIZE) {
+      const lastTxid = page[page.length - 1].txid;
+      page =
+        (await this.getJson<EsploraTx[]>(`${path}/chain/${lastTxid}`)) ?? [];
+      txs.push(...page);
+    }
+
+    return [...new Set(txs.map((tx) => tx.txid))];
+  }
+
+  async getChain(): Promise<string> {
+    return chainFromGenesisHash(await this.getBlockHash(0));
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    const response = await this.request(`/block-height/${height}`);
+    return (await response.text()).trim();
+  }
+
+  /**
+   * Run one polling round now: refresh the tip, then every watched address
+   * in batches of `batchSize`
+   */
+  async poll(): Promise<void> {
+    const tip = await this.getTipHeight();
+    const tipMoved = tip !== this.tipHeight;
+    this.tipHeight = tip;
+
+    const states = [...this.addresses.values()];
+    for (let i = 0; i < states.length; i += this.batchSize) {
+      const batch = states.slice(i, i + this.batchSize);
+      const changed = await Promise.all(
+        batch.map((state) => this.pollAddress(state))
+      );
+      for (const txid of new Set(changed.flat())) {
+        await this.events?.onTransaction(txid);
+      }
+    }
+
+    if (tipMoved) {
+      await this.events?.onBlock(tip);
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (err) {
+        console.error("Esplora poll failed:", err);
+      }
+      if (this.events) {
+        this.schedule();
+      }
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Txids of the address that are new or changed confirmation state since
+   * the last round
+   */
+  private async pollAddress(state: AddressState): Promise<string[]> {
+    const response = await this.request(
+      `/address/${state.script.address}/txs`,
+      state.etag
+    );
+    if (response.status === 304) return [];
+
+    state.etag = response.headers.get("etag") ?? undefined;
+    const txs = (await response.json()) as EsploraTx[];
+    const changed: string[] = [];
+    for (const tx of txs) {
+      if (state.seen.get(tx.txid) !== tx.status.confirmed) {
+        changed.push(tx.txid);
+      }
+      state.seen.set(tx.txid, tx.status.confirmed);
+    }
+    return changed;
+  }
+
+  private async confirmationsOf(status: EsploraStatus): Promise<number> {
+    if (!status.confirmed || status.block_height === undefined) return 0;
+    this.tipHeight ??= await this.getTipHeight();
+    return Math.max(this.tipHeight - status.block_height + 1, 1);
+  }
+
+  private async getJson<T>(path: string): Promise<T | null> {
+    try {
+      const response = await this.request(path);
+      return (await response.json()) as T;
+    } catch (err) {
+      if (err instanceof EsploraError && err.status === 404) return null;
+      throw err;
+    }
+  }
+
+  /**
+   * Space requests to stay under `maxRequestsPerSecond`
+   */
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const wait = this.nextRequestAt - now;
+    this.nextRequestAt =
+      Math.max(now, this.nextRequestAt) + this.requestSpacingMs;
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+
+  private async request(path: string, etag?: string): Promise<Response> {
+    await this.throttle();
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.url}${path}`, {
+        headers: etag ? { "If-None-Match": etag } : {},
+        signal: controller.signal,
+      });
+      if (!response.ok && response.status !== 304) {
+        throw new EsploraError(
+          `Esplora HTTP error: ${response.status} ${response.statusText} for ${path}`,
+          response.status
+        );
+      }
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -1,19 +1,89 @@
-import type * as bitcoin from "bitcoinjs-lib";
-import { ZMQWatcher, type ZMQConfig } from "./zmq.js";
-import { BitcoinRPC, type RPCConfig, type Transaction } from "./rpc.js";
+import * as bitcoin from "bitcoinjs-lib";
+import type { ZMQConfig } from "./zmq.js";
+import type { RPCConfig } from "./rpc.js";
+import type {
+  ChainBackend,
+  ChainTransaction,
+  WatchedScript,
+} from "./backend.js";
+import { CoreBackend } from "./core.js";
 import type { StorageAdapter } from "../types/adapter.js";
-import type { TxObservation, PaymentIntent } from "../types/models.js";
+import type { Network } from "../types/options.js";
+import { assertChainMatches } from "../crypto/networks.js";
+import type { PaymentIntent, TxObservation } from "../types/models.js";
+import { summarizePayments } from "../utils/payments.js";
+import {
+  createIntentStateMachine,
+  IntentStatusChangedError,
+  type IntentStateMachine,
+} from "../state-machine/index.js";
 
 export * from "./zmq.js";
 export * from "./rpc.js";
+export * from "./backend.js";
+export * from "./core.js";
+export * from "./raw.js";
+export * from "./core-wallet.js";
+export * from "./esplora.js";
+export * from "./electrum.js";
+
+/**
+ * Storage key of the last block the watcher processed
+ */
+const CHECKPOINT_NAME = "watcher";
+
+/**
+ * Blocks re-processed below the checkpoint when its block was reorged out
+ * while the watcher was stopped
+ */
+const CHECKPOINT_REORG_DEPTH = 6;
+
+/**
+ * Block an observation was mined in; both null while in the mempool
+ */
+interface BlockRef {
+  blockHash: string | null;
+  blockHeight: number | null;
+}
+
+/**
+ * When a payment was made, as far as the watcher can tell. A transaction
+ * first seen in a block, e.g. while catching up after downtime, was made
+ * no later than that block; header times may run ahead of the clock.
+ */
+function firstSeenAt(tx: ChainTransaction): Date {
+  if (tx.blockTime === undefined || tx.confirmations === 0) {
+    return new Date();
+  }
+  return new Date(Math.min(tx.blockTime * 1000, Date.now()));
+}
 
 export interface WatcherConfig {
-  zmq: ZMQConfig;
-  rpc: RPCConfig;
+  /**
+   * Where chain data comes from; defaults to Bitcoin Core through `rpc`
+   * and `zmq`
+   */
+  backend?: ChainBackend;
+  zmq?: ZMQConfig;
+  rpc?: RPCConfig;
   storage: StorageAdapter;
   network: bitcoin.Network;
+  /**
+   * Refuse to start unless the backend reports this network's chain
+   */
+  chain?: Network;
   confirmations: number;
   pollIntervalMs?: number;
+  /**
+   * Minutes after expiry before a payment counts as late
+   */
+  latePaymentGraceMinutes?: number;
+  /**
+   * How many blocks below the tip are re-checked for orphaned payments
+   * on every new block
+   * @default 100
+   */
+  reorgDepth?: number;
 }
 
 export interface WatcherEventHandlers {
@@ -28,37 +98,91 @@ export interface WatcherEventHandlers {
     valueSats: number;
     confirmations: number;
   }) => void | Promise<void>;
-  onReorg?: (data: { intentId: string; txid: string }) => void | Promise<void>;
+  onPartialPayment?: (data: {
+    intentId: string;
+    txid: string;
+    valueSats: number;
+    receivedSats: number;
+    remainingSats: number;
+  }) => void | Promise<void>;
+  onOverpaid?: (data: {
+    intentId: string;
+    txid: string;
+    amountSats: number;
+    receivedSats: number;
+    overpaidSats: number;
+  }) => void | Promise<void>;
+  onLatePayment?: (data: {
+    intentId: string;
+    txid: string;
+    valueSats: number;
+    receivedSats: number;
+  }) => void | Promise<void>;
+  /**
+   * A known payment gained or lost confirmations
+   */
+  onConfirmations?: (data: {
+    intentId: string;
+    txid: string;
+    confirmations: number;
+  }) => void | Promise<void>;
+  onReorg?: (data: {
+    intentId: string;
+    txid: string;
+    /**
+     * Orphaned block the payment had been mined in, when known
+     */
+    blockHash: string | null;
+    blockHeight: number | null;
+    previousConfirmations: number;
+    /**
+     * Depth on the new best chain: 0 when back in the mempool, `null` when
+     * the transaction is gone
+     */
+    confirmations: number | null;
+  }) => void | Promise<void>;
 }
 
 export class BitcoinWatcher {
-  private zmq: ZMQWatcher;
-  private rpc: BitcoinRPC;
+  private backend: ChainBackend;
   private storage: StorageAdapter;
+  private intents: IntentStateMachine;
   private network: bitcoin.Network;
+  private chain?: Network;
   private requiredConfs: number;
+  private latePaymentGraceMs: number;
   private eventHandlers: WatcherEventHandlers;
+  private pollIntervalMs: number;
+  private reorgDepth: number;
   private pollInterval?: NodeJS.Timeout;
   private isRunning = false;
+  private syncing?: Promise<void>;
+  private syncQueued = false;
   private watchedAddresses = new Set<string>();
   private addressToIntentMap = new Map<string, string>();
+  private scriptToAddressMap = new Map<string, string>();
 
   constructor(config: WatcherConfig, eventHandlers: WatcherEventHandlers = {}) {
     this.storage = config.storage;
+    this.intents = createIntentStateMachine(config.storage);
     this.network = config.network;
+    this.chain = config.chain;
     this.requiredConfs = config.confirmations;
+    this.latePaymentGraceMs = (config.latePaymentGraceMinutes ?? 0) * 60_000;
     this.eventHandlers = eventHandlers;
-    this.rpc = new BitcoinRPC(config.rpc);
-
-    this.zmq = new ZMQWatcher(config.zmq, {
-      onHashTx: async (hash, sequence) => {
-        const txid = hash.reverse().toString("hex");
-        await this.onNewTransaction(txid);
-      },
-      onHashBlock: async (hash, sequence) => {
-        await this.onNewBlock();
-      },
-    });
+    this.pollIntervalMs = config.pollIntervalMs ?? 30000;
+    this.reorgDepth = config.reorgDepth ?? 100;
+
+    if (config.backend) {
+      this.backend = config.backend;
+    } else if (config.rpc) {
+      this.backend = new CoreBackend({
+        rpc: config.rpc,
+        zmq: config.zmq ?? { host: config.rpc.host },
+      });
+    } else {
+      throw new Error("Watcher needs a chain backend or rpc configuration");
+    }
   }
 
   async start(): Promise<void> {
@@ -66,153 +190,626 @@ export class BitcoinWatcher {
       throw new Error("Watcher already running");
     }
 
+    // Check the chain before starting the backend, which may already
+    // change the node (e.g. importing descriptors into a wallet)
+    if (this.chain && this.backend.getChain) {
+      try {
+        assertChainMatches(this.chain, await this.backend.getChain());
+      } catch (err) {
+        await this.backend.stop();
+        throw err;
+      }
+    }
+
+    await this.backend.start({
+      onTransaction: (txid, tx) => this.onNewTransaction(txid, tx),
+      onBlock: () => this.onNewBlock(),
+    });
+
     // Load all assigned addresses into memory
     await this.loadWatchedAddresses();
+    this.isRunning = true;
 
-    // Start ZMQ listener (no-op if no ports configured)
-    await this.zmq.start();
+    // Catch up on blocks mined since the last run before going live
+    if (this.canSyncBlocks()) {
+      await this.syncBlocks();
+      await this.checkConfirmations();
+    }
 
     // Start polling for confirmation updates
     this.startPolling();
-
-    this.isRunning = true;
   }
 
   async stop(): Promise<void> {
     if (!this.isRunning) return;
 
-    await this.zmq.stop();
+    this.isRunning = false;
+    await this.syncing;
+    await this.backend.stop();
     this.stopPolling();
     this.watchedAddresses.clear();
     this.addressToIntentMap.clear();
-    this.isRunning = false;
+    this.scriptToAddressMap.clear();
+  }
+
+  private watchedScript(address: string): WatchedScript {
+    return {
+      address,
+      scriptPubKeyHex: bitcoin.address
+        .toOutputScript(address, this.network)
+        .toString("hex"),
+    };
+  }
+
+  /**
+   * Start tracking addresses, subscribing the backend to the new ones
+   */
+  private async watch(
+    entries: Array<{ address: string; intentId: string }>
+  ): Promise<void> {
+    const added: WatchedScript[] = [];
+    for (const { address, intentId } of entries) {
+      this.addressToIntentMap.set(address, intentId);
+      if (this.watchedAddresses.has(address)) continue;
+
+      const script = this.watchedScript(address);
+      this.watchedAddresses.add(address);
+      this.scriptToAddressMap.set(script.scriptPubKeyHex, address);
+      added.push(script);
+    }
+
+    if (added.length > 0) {
+      await this.backend.subscribe(added);
+    }
   }
 
   async addAddress(address: string, intentId: string): Promise<void> {
-    this.watchedAddresses.add(address);
-    this.addressToIntentMap.set(address, intentId);
+    await this.watch([{ address, intentId }]);
   }
 
   async removeAddress(address: string): Promise<void> {
+    if (!this.watchedAddresses.has(address)) return;
+
+    const script = this.watchedScript(address);
     this.watchedAddresses.delete(address);
     this.addressToIntentMap.delete(address);
+    this.scriptToAddressMap.delete(script.scriptPubKeyHex);
+    await this.backend.unsubscribe([script]);
   }
 
   private async loadWatchedAddresses(): Promise<void> {
     const addresses = await this.storage.listAssignedAddresses();
+    const entries: Array<{ address: string; intentId: string }> = [];
     for (const addr of addresses) {
       if (addr.intentId) {
-        this.watchedAddresses.add(addr.address);
-        this.addressToIntentMap.set(addr.address, addr.intentId);
+        entries.push({ address: addr.address, intentId: addr.intentId });
       }
     }
+    await this.watch(entries);
   }
 
-  private async onNewTransaction(txid: string): Promise<void> {
+  private async onNewTransaction(
+    txid: string,
+    decoded?: ChainTransaction
+  ): Promise<void> {
     try {
-      const tx = await this.rpc.getRawTransaction(txid, true);
-      if (typeof tx === "string") return; // Should not happen with verbose=true
+      const tx = decoded ?? (await this.backend.getTransaction(txid));
+      if (!tx) return;
 
-      await this.processTx(tx as Transaction, 0);
+      await this.processTx(tx);
     } catch (err) {
       console.error(`Failed to process new tx ${txid}:`, err);
     }
   }
 
   private async onNewBlock(): Promise<void> {
+    try {
+      await this.detectReorgs();
+    } catch (err) {
+      console.error("Failed to check for reorgs:", err);
+    }
+
+    // Pick up payments whose live notification was missed
+    await this.syncBlocks();
+
     // Check all pending/processing intents for confirmation updates
     await this.checkConfirmations();
   }
 
-  private async processTx(
-    tx: Transaction,
-    confirmations: number
+  private canSyncBlocks(): boolean {
+    return Boolean(
+      this.backend.getBlock &&
+        this.backend.getBlockHash &&
+        this.storage.getChainCheckpoint &&
+        this.storage.saveChainCheckpoint
+    );
+  }
+
+  /**
+   * Process every block after the stored checkpoint. Runs one walk at a
+   * time; a request during a walk queues another one after it.
+   */
+  private syncBlocks(): Promise<void> {
+    if (!this.canSyncBlocks()) return Promise.resolve();
+    if (this.syncing) {
+      this.syncQueued = true;
+      return this.syncing;
+    }
+
+    this.syncing = (async () => {
+      do {
+        this.syncQueued = false;
+        try {
+          await this.walkBlocks();
+        } catch (err) {
+          // The checkpoint stays put, so the next block retries from it
+          console.error("Failed to process blocks since checkpoint:", err);
+        }
+      } while (this.syncQueued && this.isRunning);
+      this.syncing = undefined;
+    })();
+    return this.syncing;
+  }
+
+  private async walkBlocks(): Promise<void> {
+    const { backend, storage } = this;
+    if (
+      !backend.getBlock ||
+      !backend.getBlockHash ||
+      !storage.getChainCheckpoint ||
+      !storage.saveChainCheckpoint
+    ) {
+      return;
+    }
+
+    const tip = await backend.getTipHeight();
+    const checkpoint = await storage.getChainCheckpoint(CHECKPOINT_NAME);
+    if (!checkpoint) {
+      // First run: nothing was missed yet, start following from the tip
+      await storage.saveChainCheckpoint({
+        name: CHECKPOINT_NAME,
+        height: tip,
+        blockHash: await backend.getBlockHash(tip),
+      });
+      return;
+    }
+
+    let height = checkpoint.height + 1;
+    if (
+      checkpoint.height > tip ||
+      (await backend.getBlockHash(checkpoint.height)) !== checkpoint.blockHash
+    ) {
+      height = Math.max(
+        Math.min(checkpoint.height, tip) - CHECKPOINT_REORG_DEPTH + 1,
+        0
+      );
+    }
+
+    for (; height <= tip && this.isRunning; height++) {
+      const block = await backend.getBlock(await backend.getBlockHash(height));
+      for (const tx of block.transactions) {
+        await this.processTx({
+          ...tx,
+          confirmations: tip - height + 1,
+          blockHash: block.hash,
+          blockHeight: height,
+          blockTime: block.time,
+        });
+      }
+      await storage.saveChainCheckpoint({
+        name: CHECKPOINT_NAME,
+        height,
+        blockHash: block.hash,
+      });
+    }
+  }
+
+  /**
+   * Roll back observations whose block is no longer on the best chain,
+   * however deep they were buried, and rewind the checkpoint to the fork
+   * so the new chain's blocks are processed
+   */
+  private async detectReorgs(): Promise<void> {
+    const { backend, storage } = this;
+    if (!backend.getBlockHash || !storage.listTxObservationsSinceHeight) {
+      return;
+    }
+
+    const tip = await backend.getTipHeight();
+    const observations = await storage.listTxObservationsSinceHeight(
+      Math.max(tip - this.reorgDepth, 0)
+    );
+
+    // Hash on the best chain per height, null above the tip
+    const bestHashes = new Map<number, string | null>();
+    let forkHeight: number | null = null;
+    for (const obs of observations) {
+      if (obs.blockHash == null || obs.blockHeight == null) continue;
+
+      let bestHash = bestHashes.get(obs.blockHeight);
+      if (bestHash === undefined) {
+        bestHash =
+          obs.blockHeight <= tip
+            ? await backend.getBlockHash(obs.blockHeight)
+            : null;
+        bestHashes.set(obs.blockHeight, bestHash);
+      }
+      if (bestHash === obs.blockHash) continue;
+
+      await this.rollBack(obs);
+      forkHeight = Math.min(forkHeight ?? obs.blockHeight, obs.blockHeight);
+    }
+
+    if (forkHeight !== null && this.canSyncBlocks()) {
+      await this.rewindCheckpoint(forkHeight, tip);
+    }
+  }
+
+  private async rewindCheckpoint(
+    forkHeight: number,
+    tip: number
   ): Promise<void> {
-    for (const vout of tx.vout) {
-      const address = vout.scriptPubKey.address;
+    const { backend, storage } = this;
+    if (
+      !backend.getBlockHash ||
+      !storage.getChainCheckpoint ||
+      !storage.saveChainCheckpoint
+    ) {
+      return;
+    }
+
+    const checkpoint = await storage.getChainCheckpoint(CHECKPOINT_NAME);
+    if (!checkpoint || checkpoint.height < forkHeight) return;
+
+    const height = Math.max(Math.min(forkHeight - 1, tip), 0);
+    await storage.saveChainCheckpoint({
+      name: CHECKPOINT_NAME,
+      height,
+      blockHash: await backend.getBlockHash(height),
+    });
+  }
+
+  /**
+   * Undo an observation whose block was orphaned or whose transaction
+   * vanished: record where the transaction stands now, marking vanished
+   * ones `dropped`, move a confirmed intent that no longer has enough
+   * confirmed value back to processing, and re-evaluate it
+   */
+  private async rollBack(obs: TxObservation): Promise<void> {
+    const tx = await this.backend.getTransaction(obs.txid);
+    const confirmations = tx?.confirmations ?? 0;
+    const block = tx
+      ? await this.blockOf(tx)
+      : { blockHash: null, blockHeight: null };
+
+    const address = await this.storage.getDepositAddress(obs.addressId);
+    const intent = address?.intentId
+      ? await this.storage.getPaymentIntent(address.intentId)
+      : null;
+    const requiredConfs = intent?.requiredConfs ?? this.requiredConfs;
+    let status: TxObservation["status"] = "dropped";
+    if (tx) {
+      status = confirmations >= requiredConfs ? "confirmed" : "mempool";
+    }
+
+    await this.storage.updateTxObservation(obs.id, {
+      ...block,
+      confirmations,
+      status,
+      updatedAt: new Date(),
+    });
+    if (!address || !intent) return;
+
+    if (intent.status === "confirmed") {
+      const observations = await this.storage.getTxObservationsByIntent(
+        intent.id
+      );
+      const totals = summarizePayments(intent, observations);
+      if (totals.confirmedSats < intent.amountSats) {
+        await this.intents.transition(intent, "processing", {
+          reason: "reorg",
+          actor: "watcher",
+          txid: obs.txid,
+          data: { confirmedAt: null },
+        });
+        // Watch again so re-confirmation or a replacement is noticed
+        await this.addAddress(address.address, intent.id);
+      }
+    }
+
+    if (obs.confirmations > 0 || intent.status === "confirmed") {
+      await this.eventHandlers.onReorg?.({
+        intentId: intent.id,
+        txid: obs.txid,
+        blockHash: obs.blockHash ?? null,
+        blockHeight: obs.blockHeight ?? null,
+        previousConfirmations: obs.confirmations,
+        confirmations: tx ? confirmations : null,
+      });
+    }
+
+    await this.evaluateIntent(intent.id, obs.txid);
+  }
+
+  /**
+   * Where a transaction was mined, filling in what the backend left out
+   */
+  private async blockOf(
+    tx: Pick<
+      ChainTransaction,
+      "txid" | "confirmations" | "blockHash" | "blockHeight"
+    >
+  ): Promise<BlockRef> {
+    if (tx.confirmations <= 0) return { blockHash: null, blockHeight: null };
+
+    try {
+      const blockHeight =
+        tx.blockHeight ??
+        (await this.backend.getTipHeight()) - tx.confirmations + 1;
+      let blockHash = tx.blockHash ?? null;
+      if (blockHash === null && this.backend.getBlockHash) {
+        blockHash = await this.backend.getBlockHash(blockHeight);
+      }
+      return { blockHash, blockHeight };
+    } catch (err) {
+      // Block details only serve reorg detection; never hold up a payment
+      console.error(`Failed to look up the block of tx ${tx.txid}:`, err);
+      return {
+        blockHash: tx.blockHash ?? null,
+        blockHeight: tx.blockHeight ?? null,
+      };
+    }
+  }
+
+  private async processTx(tx: ChainTransaction): Promise<void> {
+    const { confirmations } = tx;
+    const touchedIntents = new Set<string>();
+    let block: BlockRef | undefined;
+
+    for (const output of tx.outputs) {
+      const address =
+        output.address ?? this.scriptToAddressMap.get(output.scriptPubKeyHex);
       if (!address || !this.watchedAddresses.has(address)) continue;
 
       const intentId = this.addressToIntentMap.get(address);
       if (!intentId) continue;
 
-      const valueSats = Math.round(vout.value * 1e8);
+      const intent = await this.storage.getPaymentIntent(intentId);
+      if (!intent) continue;
+
+      const { valueSats } = output;
+      const status =
+        confirmations >= intent.requiredConfs ? "confirmed" : "mempool";
+
+      block ??= await this.blockOf(tx);
 
       // Check if we already recorded this observation
       const existing = await this.storage.getTxObservationByTxidVout(
         tx.txid,
-        vout.n
+        output.n
       );
       if (existing) {
-        // Update confirmations if changed
-        if (existing.confirmations !== confirmations) {
+        // Update confirmations or block if changed. A mined payment reported
+        // as unconfirmed is only rolled back once its block is orphaned.
+        if (existing.blockHash && confirmations === 0) continue;
+        if (
+          existing.status === "dropped" ||
+          existing.confirmations !== confirmations ||
+          (existing.blockHash ?? null) !== block.blockHash
+        ) {
           await this.storage.updateTxObservation(existing.id, {
+            ...block,
             confirmations,
+            status,
             updatedAt: new Date(),
           });
-
-          // Check if now confirmed
-          if (
-            confirmations >= this.requiredConfs &&
-            existing.confirmations < this.requiredConfs
-          ) {
-            await this.markIntentConfirmed(
+          if (existing.confirmations !== confirmations) {
+            await this.eventHandlers.onConfirmations?.({
               intentId,
-              tx.txid,
-              valueSats,
-              confirmations
-            );
+              txid: tx.txid,
+              confirmations,
+            });
           }
         }
-        return;
+      } else {
+        const addressRecord = await this.storage.getDepositAddressByAddress(
+          address
+        );
+        if (!addressRecord) continue;
+
+        await this.storage.createTxObservation({
+          txid: tx.txid,
+          vout: output.n,
+          valueSats,
+          confirmations,
+          addressId: addressRecord.id,
+          scriptPubKeyHex: output.scriptPubKeyHex,
+          status,
+          ...block,
+          seenAt: firstSeenAt(tx),
+        });
       }
 
-      // Create new observation
-      const addressRecord = await this.storage.getDepositAddressByAddress(
-        address
-      );
-      if (!addressRecord) continue;
-
-      await this.storage.createTxObservation({
-        txid: tx.txid,
-        vout: vout.n,
-        valueSats,
-        confirmations,
-        addressId: addressRecord.id,
-        scriptPubKeyHex: vout.scriptPubKey.hex,
-        status: confirmations >= this.requiredConfs ? "confirmed" : "mempool",
-        seenAt: new Date(),
+      touchedIntents.add(intentId);
+    }
+
+    for (const intentId of touchedIntents) {
+      await this.evaluateIntent(intentId, tx.txid);
+    }
+  }
+
+  /**
+   * Recompute an intent's totals from all of its observations and move it
+   * forward once enough value has been received and confirmed. When another
+   * process changed its status meanwhile, e.g. the scheduler expired it,
+   * the intent is evaluated once more from its new status.
+   */
+  private async evaluateIntent(intentId: string, txid: string): Promise<void> {
+    try {
+      await this.evaluateIntentOnce(intentId, txid);
+    } catch (err) {
+      if (!(err instanceof IntentStatusChangedError)) throw err;
+      await this.evaluateIntentOnce(intentId, txid);
+    }
+  }
+
+  private async evaluateIntentOnce(
+    intentId: string,
+    txid: string
+  ): Promise<void> {
+    const intent = await this.storage.getPaymentIntent(intentId);
+    if (!intent) return;
+
+    const observations = await this.storage.getTxObservationsByIntent(intentId);
+    if (
+      intent.status === "expired" ||
+      intent.status === "paid_late" ||
+      (intent.status === "pending" && this.isLate(intent, txid, observations))
+    ) {
+      await this.evaluateLatePayment(intent, txid, observations);
+      return;
+    }
+    if (intent.status !== "pending" && intent.status !== "processing") return;
+
+    const totals = summarizePayments(intent, observations);
+    const previousReceived = intent.receivedSats;
+    const previousOverpaid = intent.overpaidSats;
+
+    if (
+      totals.receivedSats !== previousReceived ||
+      totals.overpaidSats !== previousOverpaid
+    ) {
+      await this.storage.updatePaymentIntent(intentId, {
+        receivedSats: totals.receivedSats,
+        overpaidSats: totals.overpaidSats,
+        updatedAt: new Date(),
       });
+    }
 
-      // Update intent status
-      const intent = await this.storage.getPaymentIntent(intentId);
-      if (!intent) continue;
+    if (totals.overpaidSats > previousOverpaid) {
+      await this.eventHandlers.onOverpaid?.({
+        intentId,
+        txid,
+        amountSats: intent.amountSats,
+        receivedSats: totals.receivedSats,
+        overpaidSats: totals.overpaidSats,
+      });
+    }
 
-      if (confirmations === 0) {
-        // Mempool transaction - mark as processing
-        if (intent.status === "pending") {
-          await this.storage.updatePaymentIntent(intentId, {
-            status: "processing",
-            updatedAt: new Date(),
-          });
+    if (totals.confirmedSats >= intent.amountSats) {
+      const confirmations = Math.min(
+        ...observations
+          .filter((obs) => obs.confirmations >= intent.requiredConfs)
+          .map((obs) => obs.confirmations)
+      );
+      await this.markIntentConfirmed(
+        intentId,
+        txid,
+        totals.receivedSats,
+        confirmations
+      );
+      return;
+    }
 
-          await this.eventHandlers.onProcessing?.({
-            intentId,
-            txid: tx.txid,
-            valueSats,
-          });
-        }
-      } else if (confirmations >= this.requiredConfs) {
-        // Confirmed transaction
-        await this.markIntentConfirmed(
+    if (totals.receivedSats >= intent.amountSats) {
+      if (intent.status === "pending") {
+        await this.intents.transition(intent, "processing", {
+          reason: "payment_received",
+          actor: "watcher",
+          txid,
+        });
+
+        await this.eventHandlers.onProcessing?.({
           intentId,
-          tx.txid,
-          valueSats,
-          confirmations
-        );
+          txid,
+          valueSats: totals.receivedSats,
+        });
       }
+      return;
+    }
+
+    if (intent.status === "processing") {
+      // A payment was dropped: wait for the rest again
+      await this.intents.transition(intent, "pending", {
+        reason: "payment_dropped",
+        actor: "watcher",
+        txid,
+      });
+      return;
+    }
+
+    if (totals.receivedSats > previousReceived) {
+      // Underpaid so far: let the customer know how much is still owed
+      const txValue = observations
+        .filter((obs) => obs.txid === txid)
+        .reduce((sum, obs) => sum + obs.valueSats, 0);
+
+      await this.eventHandlers.onPartialPayment?.({
+        intentId,
+        txid,
+        valueSats: txValue,
+        receivedSats: totals.receivedSats,
+        remainingSats: totals.remainingSats,
+      });
     }
   }
 
+  /**
+   * Whether `txid` was first seen after the intent's expiry plus grace
+   * window. Intents are not always expired on time, so this is checked
+   * even while they are still pending.
+   */
+  private isLate(
+    intent: PaymentIntent,
+    txid: string,
+    observations: TxObservation[]
+  ): boolean {
+    const seenAt =
+      observations.find((obs) => obs.txid === txid)?.seenAt ?? new Date();
+    return (
+      seenAt.getTime() > intent.expiresAt.getTime() + this.latePaymentGraceMs
+    );
+  }
+
+  /**
+   * Park funds that arrived after expiry in `paid_late` so the merchant
+   * can accept or refund them instead of the payment being ignored
+   */
+  private async evaluateLatePayment(
+    intent: PaymentIntent,
+    txid: string,
+    observations: TxObservation[]
+  ): Promise<void> {
+    const totals = summarizePayments(intent, observations);
+    // Confirmation updates of already known payments change nothing here
+    if (totals.receivedSats <= intent.receivedSats) return;
+
+    const updated = await this.storage.updatePaymentIntent(intent.id, {
+      receivedSats: totals.receivedSats,
+      overpaidSats: totals.overpaidSats,
+      updatedAt: new Date(),
+    });
+
+    if (updated.status !== "paid_late") {
+      await this.intents.transition(updated, "paid_late", {
+        reason: "late_payment",
+        actor: "watcher",
+        txid,
+      });
+    }
+
+    const txValue = observations
+      .filter((obs) => obs.txid === txid)
+      .reduce((sum, obs) => sum + obs.valueSats, 0);
+
+    await this.eventHandlers.onLatePayment?.({
+      intentId: intent.id,
+      txid,
+      valueSats: txValue,
+      receivedSats: totals.receivedSats,
+    });
+  }
+
   private async markIntentConfirmed(
     intentId: string,
     txid: string,
@@ -222,10 +819,11 @@ export class BitcoinWatcher {
     const intent = await this.storage.getPaymentIntent(intentId);
     if (!intent || intent.status === "confirmed") return;
 
-    await this.storage.updatePaymentIntent(intentId, {
-      status: "confirmed",
-      confirmedAt: new Date(),
-      updatedAt: new Date(),
+    await this.intents.transition(intent, "confirmed", {
+      reason: "payment_confirmed",
+      actor: "watcher",
+      txid,
+      data: { confirmedAt: new Date() },
     });
 
     await this.eventHandlers.onConfirmed?.({
@@ -239,7 +837,7 @@ export class BitcoinWatcher {
     if (intent.addressId) {
       const addr = await this.storage.getDepositAddress(intent.addressId);
       if (addr) {
-        this.removeAddress(addr.address);
+        await this.removeAddress(addr.address);
       }
     }
   }
@@ -251,39 +849,47 @@ export class BitcoinWatcher {
 
       for (const obs of observations) {
         try {
-          const tx = await this.rpc.getRawTransaction(obs.txid, true);
-          if (typeof tx === "string") continue;
-
-          const txData = tx as Transaction;
-          const newConfs = txData.confirmations || 0;
+          const newConfs = await this.backend.getConfirmations(
+            obs.txid,
+            obs.blockHash ?? undefined
+          );
+          // Gone, or back in the mempool after being mined
+          if (newConfs === null || (obs.blockHash && newConfs === 0)) {
+            await this.rollBack(obs);
+            continue;
+          }
 
           if (newConfs !== obs.confirmations) {
+            const address = await this.storage.getDepositAddress(obs.addressId);
+            const intent = address?.intentId
+              ? await this.storage.getPaymentIntent(address.intentId)
+              : null;
+            const requiredConfs = intent?.requiredConfs ?? this.requiredConfs;
+
             await this.storage.updateTxObservation(obs.id, {
+              ...(obs.blockHash
+                ? {}
+                : await this.blockOf({
+                    txid: obs.txid,
+                    confirmations: newConfs,
+                  })),
               confirmations: newConfs,
-              status: newConfs >= this.requiredConfs ? "confirmed" : "mempool",
+              status: newConfs >= requiredConfs ? "confirmed" : "mempool",
               updatedAt: new Date(),
             });
 
             // Check if intent should be marked confirmed
-            const address = await this.storage.getDepositAddress(obs.addressId);
-            if (address?.intentId && newConfs >= this.requiredConfs) {
-              await this.markIntentConfirmed(
-                address.intentId,
-                obs.txid,
-                obs.valueSats,
-                newConfs
-              );
+            if (intent) {
+              await this.eventHandlers.onConfirmations?.({
+                intentId: intent.id,
+                txid: obs.txid,
+                confirmations: newConfs,
+              });
+              await this.evaluateIntent(intent.id, obs.txid);
             }
           }
         } catch (err) {
-          const error = err as { message?: string };
-          if (
-            error.message?.includes("No such mempool or blockchain transaction")
-          ) {
-            await this.handleReorg(obs);
-          } else {
-            console.error(`Error checking tx ${obs.txid}:`, err);
-          }
+          console.error(`Error checking tx ${obs.txid}:`, err);
         }
       }
     } catch (err) {
@@ -291,37 +897,10 @@ export class BitcoinWatcher {
     }
   }
 
-  private async handleReorg(obs: TxObservation): Promise<void> {
-    // Mark observation as invalid
-    await this.storage.updateTxObservation(obs.id, {
-      status: "mempool",
-      confirmations: 0,
-      updatedAt: new Date(),
-    });
-
-    // Revert intent status if it was confirmed
-    const address = await this.storage.getDepositAddress(obs.addressId);
-    if (address?.intentId) {
-      const intent = await this.storage.getPaymentIntent(address.intentId);
-      if (intent?.status === "confirmed") {
-        await this.storage.updatePaymentIntent(address.intentId, {
-          status: "processing",
-          confirmedAt: null,
-          updatedAt: new Date(),
-        });
-
-        await this.eventHandlers.onReorg?.({
-          intentId: address.intentId,
-          txid: obs.txid,
-        });
-      }
-    }
-  }
-
-  private startPolling(intervalMs = 30000): void {
+  private startPolling(): void {
     this.pollInterval = setInterval(() => {
       this.checkConfirmations();
-    }, intervalMs);
+    }, this.pollIntervalMs);
   }
 
   private stopPolling(): void {
@@ -331,6 +910,13 @@ export class BitcoinWatcher {
     }
   }
 
+  /**
+   * Txids that ever paid `address`, as the backend sees them
+   */
+  async getAddressHistory(address: string): Promise<string[]> {
+    return await this.backend.getScriptHistory(this.watchedScript(address));
+  }
+
   async scanForPayments(intentId: string): Promise<void> {
     const intent = await this.storage.getPaymentIntent(intentId);
     if (!intent?.addressId) return;
@@ -338,14 +924,38 @@ export class BitcoinWatcher {
     const address = await this.storage.getDepositAddress(intent.addressId);
     if (!address) return;
 
-    // Check for UTXOs on this address
-    const utxos = await this.rpc.listUnspent(0, 9999999, [address.address]);
+    const txids = await this.backend.getScriptHistory(
+      this.watchedScript(address.address)
+    );
 
-    for (const utxo of utxos) {
-      const tx = await this.rpc.getRawTransaction(utxo.txid, true);
-      if (typeof tx === "string") continue;
+    for (const txid of txids) {
+      const tx = await this.backend.getTransaction(txid);
+      if (!tx) continue;
 
-      await this.processTx(tx as Transaction, utxo.confirmations);
+      await this.processTx(tx);
+    }
+  }
+
+  /**
+   * Catch up on anything the backend missed, e.g. while ZMQ was
+   * disconnected: reload addresses assigned by other instances, refresh
+   * confirmations and rescan the addresses of open intents.
+   */
+  async reconcile(): Promise<void> {
+    await this.loadWatchedAddresses();
+    await this.checkConfirmations();
+
+    for (const status of ["pending", "processing"] as const) {
+      const intents = await this.storage.listPaymentIntentsByStatus(status);
+      for (const intent of intents) {
+        if (!intent.addressId) continue;
+
+        try {
+          await this.scanForPayments(intent.id);
+        } catch (err) {
+          console.error(`Failed to rescan intent ${intent.id}:`, err);
+        }
+      }
     }
   }
 
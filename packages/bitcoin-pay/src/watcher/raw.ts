@@ -0,0 +1,56 @@
+import * as bitcoin from "bitcoinjs-lib";
+import type { ChainBlock } from "./backend.js";
+
+type RawTransaction = ChainBlock["transactions"][number];
+
+/**
+ * Output scripts are compared before anything else, so transactions paying
+ * no watched script cost no hashing or allocations beyond the decode
+ */
+function matchTransaction(
+  tx: bitcoin.Transaction,
+  scripts: ReadonlySet<string>
+): RawTransaction | null {
+  const scriptHexes = tx.outs.map((out) => out.script.toString("hex"));
+  if (!scriptHexes.some((hex) => scripts.has(hex))) return null;
+
+  return {
+    txid: tx.getId(),
+    outputs: tx.outs.map((out, n) => ({
+      n,
+      valueSats: out.value,
+      scriptPubKeyHex: scriptHexes[n],
+    })),
+  };
+}
+
+/**
+ * Decode a serialized transaction, as published on ZMQ `rawtx`, and
+ * return it only when an output pays one of `scripts` (scriptPubKey hex)
+ */
+export function matchRawTransaction(
+  raw: Buffer,
+  scripts: ReadonlySet<string>
+): RawTransaction | null {
+  if (scripts.size === 0) return null;
+  return matchTransaction(bitcoin.Transaction.fromBuffer(raw), scripts);
+}
+
+/**
+ * Decode a serialized block, as published on ZMQ `rawblock`, keeping the
+ * transactions that pay one of `scripts`
+ */
+export function matchRawBlock(
+  raw: Buffer,
+  scripts: ReadonlySet<string>
+): { hash: string; transactions: RawTransaction[] } {
+  const block = bitcoin.Block.fromBuffer(raw);
+  const transactions: RawTransaction[] = [];
+  if (scripts.size > 0) {
+    for (const tx of block.transactions ?? []) {
+      const matched = matchTransaction(tx, scripts);
+      if (matched) transactions.push(matched);
+    }
+  }
+  return { hash: block.getId(), transactions };
+}
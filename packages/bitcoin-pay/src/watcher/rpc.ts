@@ -4,6 +4,10 @@ export interface RPCConfig {
   username: string;
   password: string;
   timeout?: number;
+  /**
+   * Send wallet calls to this loaded wallet (`/wallet/<name>`)
+   */
+  wallet?: string;
 }
 
 export interface BlockchainInfo {
@@ -49,6 +53,32 @@ export interface Transaction {
   blocktime?: number;
 }
 
+/**
+ * `getblock` result at verbosity 2
+ */
+export interface Block {
+  hash: string;
+  height: number;
+  confirmations: number;
+  time: number;
+  previousblockhash?: string;
+  tx: Transaction[];
+}
+
+/**
+ * `getblockheader` result in verbose form
+ */
+export interface BlockHeader {
+  hash: string;
+  height: number;
+  /**
+   * -1 once the block is no longer on the best chain
+   */
+  confirmations: number;
+  time: number;
+  previousblockhash?: string;
+}
+
 export interface UTXO {
   txid: string;
   vout: number;
@@ -62,6 +92,30 @@ export interface UTXO {
   safe?: boolean;
 }
 
+export class RPCError extends Error {
+  constructor(
+    message: string,
+    public code: number
+  ) {
+    super(message);
+    this.name = "RPCError";
+  }
+}
+
+export interface WalletTransaction {
+  txid: string;
+  address?: string;
+  category: "send" | "receive" | "generate" | "immature" | "orphan";
+  amount: number;
+  vout: number;
+  /**
+   * Negative for transactions conflicting with the chain
+   */
+  confirmations: number;
+  blockhash?: string;
+  blockheight?: number;
+}
+
 export class BitcoinRPC {
   private url: string;
   private auth: string;
@@ -69,6 +123,9 @@ export class BitcoinRPC {
 
   constructor(config: RPCConfig) {
     this.url = `http://${config.host}:${config.port}`;
+    if (config.wallet !== undefined) {
+      this.url += `/wallet/${encodeURIComponent(config.wallet)}`;
+    }
     this.auth = Buffer.from(`${config.username}:${config.password}`).toString(
       "base64"
     );
@@ -98,19 +155,20 @@ export class BitcoinRPC {
         signal: controller.signal,
       });
 
-      if (!response.ok) {
-        throw new Error(
-          `RPC HTTP error: ${response.status} ${response.statusText}`
+      // Bitcoin Core answers RPC errors with HTTP 500 and a JSON body
+      const json = (await response.json().catch(() => null)) as {
+        error?: { message: string; code: number } | null;
+        result: T;
+      } | null;
+      if (json?.error) {
+        throw new RPCError(
+          `RPC error: ${json.error.message} (code: ${json.error.code})`,
+          json.error.code
         );
       }
-
-      const json = (await response.json()) as {
-        error?: { message: string; code: number };
-        result: T;
-      };
-      if (json.error) {
+      if (!response.ok || !json) {
         throw new Error(
-          `RPC error: ${json.error.message} (code: ${json.error.code})`
+          `RPC HTTP error: ${response.status} ${response.statusText}`
         );
       }
 
@@ -132,6 +190,10 @@ export class BitcoinRPC {
     return await this.call("getblock", [hash, verbosity]);
   }
 
+  async getBlockHeader(hash: string): Promise<BlockHeader> {
+    return await this.call<BlockHeader>("getblockheader", [hash, true]);
+  }
+
   async getRawTransaction(
     txid: string,
     verbose = true,
@@ -199,6 +261,68 @@ export class BitcoinRPC {
     return await this.call<UTXO[]>("listunspent", params);
   }
 
+  /**
+   * Total ever received by a wallet address. Fails for addresses the
+   * loaded wallet does not track.
+   */
+  async getReceivedByAddress(address: string, minconf = 0): Promise<number> {
+    return await this.call<number>("getreceivedbyaddress", [address, minconf]);
+  }
+
+  /**
+   * Wallet transactions since `blockhash`, plus those removed from the
+   * chain by a reorg when `includeRemoved` is set
+   */
+  async listSinceBlock(
+    blockhash?: string,
+    targetConfirmations = 1,
+    includeWatchonly = true,
+    includeRemoved = true
+  ): Promise<{
+    transactions: WalletTransaction[];
+    removed?: WalletTransaction[];
+    lastblock: string;
+  }> {
+    return await this.call("listsinceblock", [
+      blockhash ?? "",
+      targetConfirmations,
+      includeWatchonly,
+      includeRemoved,
+    ]);
+  }
+
+  async listReceivedByAddress(
+    minconf = 0,
+    includeEmpty = false,
+    includeWatchonly = true,
+    address?: string
+  ): Promise<
+    Array<{
+      address: string;
+      amount: number;
+      confirmations: number;
+      label: string;
+      txids: string[];
+    }>
+  > {
+    const params: unknown[] = [minconf, includeEmpty, includeWatchonly];
+    if (address) {
+      params.push(address);
+    }
+    return await this.call("listreceivedbyaddress", params);
+  }
+
+  async getAddressInfo(address: string): Promise<{
+    address: string;
+    scriptPubKey: string;
+    ismine: boolean;
+    iswatchonly: boolean;
+    solvable: boolean;
+    desc?: string;
+  }> {
+    return await this.call("getaddressinfo", [address]);
+  }
+
   async importDescriptors(
     requests: Array<{
       desc: string;
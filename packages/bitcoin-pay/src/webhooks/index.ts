@@ -0,0 +1,238 @@
+import { nanoid } from "nanoid";
+import {
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "../crypto/webhook.js";
+import type { StorageAdapter } from "../types/adapter.js";
+import type { WebhookDelivery } from "../types/models.js";
+import type {
+  EventHandlers,
+  WebhookEventType,
+  WebhookOptions,
+} from "../types/options.js";
+
+/**
+ * Webhook type sent for each in-process event
+ */
+export const WEBHOOK_EVENT_TYPES: Record<
+  keyof EventHandlers,
+  WebhookEventType
+> = {
+  onIntentCreated: "intent.created",
+  onProcessing: "intent.processing",
+  onConfirmed: "intent.confirmed",
+  onPartialPayment: "intent.partially_paid",
+  onOverpaid: "intent.overpaid",
+  onExpired: "intent.expired",
+  onLatePayment: "intent.paid_late",
+  onReorg: "intent.reorg",
+};
+
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+
+type WebhookStorage = Required<
+  Pick<
+    StorageAdapter,
+    | "createWebhookDelivery"
+    | "getWebhookDelivery"
+    | "updateWebhookDelivery"
+    | "listDueWebhookDeliveries"
+    | "createWebhookAttempt"
+    | "listWebhookAttempts"
+  >
+>;
+
+function requireWebhookStorage(storage: StorageAdapter): WebhookStorage {
+  if (
+    !storage.createWebhookDelivery ||
+    !storage.getWebhookDelivery ||
+    !storage.updateWebhookDelivery ||
+    !storage.listDueWebhookDeliveries ||
+    !storage.createWebhookAttempt ||
+    !storage.listWebhookAttempts
+  ) {
+    throw new Error("Storage adapter does not support webhooks");
+  }
+  return storage as WebhookStorage;
+}
+
+export function createWebhookDispatcher(config: {
+  storage: StorageAdapter;
+  secret: string;
+  options: WebhookOptions;
+}) {
+  const { secret, options } = config;
+  const storage = requireWebhookStorage(config.storage);
+  const maxAttempts = options.maxAttempts ?? 10;
+  const backoffBaseSeconds = options.backoffBaseSeconds ?? 30;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+
+  function backoffSeconds(attempts: number): number {
+    return Math.min(
+      backoffBaseSeconds * 2 ** (attempts - 1),
+      MAX_BACKOFF_SECONDS
+    );
+  }
+
+  /**
+   * Send one delivery and record the attempt. The next attempt time is
+   * pushed out before sending so concurrent workers skip it.
+   */
+  async function attemptDelivery(
+    delivery: WebhookDelivery
+  ): Promise<WebhookDelivery> {
+    const attempt = delivery.attempts + 1;
+    await storage.updateWebhookDelivery(delivery.id, {
+      attempts: attempt,
+      nextAttemptAt: new Date(Date.now() + backoffSeconds(attempt) * 1000),
+    });
+
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            delivery.payload,
+            secret
+          ),
+          "bitcoin-pay-event-id": delivery.eventId,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    await storage.createWebhookAttempt({
+      deliveryId: delivery.id,
+      attempt,
+      statusCode,
+      error,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (!error) {
+      return storage.updateWebhookDelivery(delivery.id, {
+        status: "delivered",
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+    }
+
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: attempt >= maxAttempts ? "failed" : "pending",
+      lastStatusCode: statusCode,
+      lastError: error,
+    });
+  }
+
+  function deliverInBackground(delivery: WebhookDelivery): void {
+    attemptDelivery(delivery).catch((err) => {
+      console.error(`Webhook delivery ${delivery.id} failed:`, err);
+    });
+  }
+
+  /**
+   * Persist one delivery per subscribed endpoint, then try to send them.
+   * Failed sends stay in the outbox for `processDue`.
+   */
+  async function enqueue<K extends keyof EventHandlers>(
+    event: K,
+    data: Parameters<NonNullable<EventHandlers[K]>>[0]
+  ): Promise<WebhookDelivery[]> {
+    const eventType = WEBHOOK_EVENT_TYPES[event];
+    const endpoints = options.endpoints.filter(
+      (endpoint) =>
+        (!endpoint.events || endpoint.events.includes(eventType)) &&
+        (!endpoint.storeId || endpoint.storeId === data.storeId)
+    );
+    if (endpoints.length === 0) {
+      return [];
+    }
+
+    const eventId = `evt_${nanoid()}`;
+    const payload = JSON.stringify({
+      id: eventId,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data,
+    });
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const endpoint of endpoints) {
+      deliveries.push(
+        await storage.createWebhookDelivery({
+          eventId,
+          eventType,
+          url: endpoint.url,
+          payload,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastStatusCode: null,
+          lastError: null,
+          deliveredAt: null,
+        })
+      );
+    }
+
+    for (const delivery of deliveries) {
+      deliverInBackground(delivery);
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Retry every pending delivery that is due. Call this periodically and
+   * on startup to flush deliveries left over from a crash.
+   */
+  async function processDue(limit = 50): Promise<WebhookDelivery[]> {
+    const due = await storage.listDueWebhookDeliveries(new Date(), limit);
+    const results: WebhookDelivery[] = [];
+    for (const delivery of due) {
+      results.push(await attemptDelivery(delivery));
+    }
+    return results;
+  }
+
+  /**
+   * Send a delivery again, including delivered or failed ones
+   */
+  async function replay(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await storage.getWebhookDelivery(deliveryId);
+    if (!delivery) {
+      throw new Error("Webhook delivery not found");
+    }
+
+    // Attempt numbers keep counting so the log shows the full history
+    const reset = await storage.updateWebhookDelivery(deliveryId, {
+      status: "pending",
+      nextAttemptAt: new Date(),
+      deliveredAt: null,
+    });
+    return attemptDelivery(reset);
+  }
+
+  return {
+    enqueue,
+    processDue,
+    replay,
+    getDelivery: (deliveryId: string) => storage.getWebhookDelivery(deliveryId),
+    listAttempts: (deliveryId: string) =>
+      storage.listWebhookAttempts(deliveryId),
+  };
+}
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;